@@ -0,0 +1,73 @@
+// app/admin/admin-token.tsx
+'use client';
+
+import { useState, useSyncExternalStore } from 'react';
+import { Button, Stack, TextField, Typography } from '@mui/material';
+
+// The admin API wants `Authorization: Bearer <ADMIN_TOKEN>`. The pages ask for the token
+// once and keep it for the browser tab only.
+const TOKEN_KEY = 'adminToken';
+
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function setToken(next: string | null) {
+  if (next) sessionStorage.setItem(TOKEN_KEY, next);
+  else sessionStorage.removeItem(TOKEN_KEY);
+  listeners.forEach((listener) => listener());
+}
+
+/** The saved token (null until one is entered, and while rendering on the server). */
+export function useAdminToken() {
+  const token = useSyncExternalStore(
+    subscribe,
+    () => sessionStorage.getItem(TOKEN_KEY),
+    () => null
+  );
+  return { token, setToken };
+}
+
+/** GET an admin endpoint; null when the token was not accepted, so the page can ask again. */
+export async function adminFetch<T>(url: string, token: string): Promise<T | null> {
+  const res = await fetch(url, { headers: { Authorization: `Bearer ${token}` } });
+  if (res.status === 401) return null;
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || `Request failed with ${res.status}`);
+  return body as T;
+}
+
+/** Shown instead of the page content until a token is entered. */
+export function AdminTokenForm({ onSubmit, rejected }: { onSubmit: (token: string) => void; rejected: boolean }) {
+  const [value, setValue] = useState('');
+
+  return (
+    <Stack
+      component="form"
+      spacing={1.5}
+      sx={{ maxWidth: 420, mx: 'auto', py: 6 }}
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (value.trim()) onSubmit(value.trim());
+      }}
+    >
+      <Typography variant="body2" color="text.secondary">
+        {rejected ? 'That token was not accepted. Try again.' : 'Enter the admin token (ADMIN_TOKEN).'}
+      </Typography>
+      <TextField
+        size="small"
+        type="password"
+        autoFocus
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        error={rejected}
+      />
+      <Button type="submit" variant="contained" disabled={!value.trim()}>
+        Continue
+      </Button>
+    </Stack>
+  );
+}
@@ -0,0 +1,282 @@
+// app/admin/feedback/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import NextLink from 'next/link';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  IconButton,
+  Stack,
+  Avatar,
+  Chip,
+  Button,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  Snackbar,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Feedback as FeedbackIcon,
+  ThumbDown as ThumbDownIcon,
+  ThumbUp as ThumbUpIcon,
+} from '@mui/icons-material';
+import { AdminTokenForm, adminFetch, useAdminToken } from '../admin-token';
+import type { GoldenCase } from '@/lib/eval/types';
+import type { Feedback } from '@/lib/feedback/types';
+
+type RatingFilter = 'down' | 'up' | 'all';
+
+// A starting point for eval/golden.json: the question as it was asked. What should have
+// been found (expectedDocIds, expectedFacts or expectNoInfo) is for the reviewer to add.
+function draftGoldenCase(f: Feedback): GoldenCase {
+  const lastUser = f.messages.map((m) => m.role).lastIndexOf('user');
+  const history = f.messages.slice(0, lastUser);
+  return {
+    id: `feedback-${f.id.slice(0, 8)}`,
+    question: f.messages[lastUser]?.content ?? '',
+    ...(history.length ? { history } : {}),
+    ...(f.language ? { language: f.language } : {}),
+    expectedDocIds: [],
+    expectedFacts: [],
+  };
+}
+
+function FeedbackCard({ feedback, onCopy }: { feedback: Feedback; onCopy: (f: Feedback) => void }) {
+  const theme = useTheme();
+  const question = draftGoldenCase(feedback).question;
+
+  return (
+    <Card variant="outlined" sx={{ borderColor: alpha(theme.palette.grey[500], 0.16), boxShadow: 'none' }}>
+      <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+        <Stack direction="row" spacing={1} alignItems="center" justifyContent="space-between">
+          <Stack direction="row" spacing={1} alignItems="center">
+            {feedback.rating === 'down' ? (
+              <ThumbDownIcon sx={{ fontSize: 18, color: 'error.main' }} />
+            ) : (
+              <ThumbUpIcon sx={{ fontSize: 18, color: 'success.main' }} />
+            )}
+            <Typography variant="caption" color="text.secondary">
+              {new Date(feedback.createdAt).toLocaleString()}
+            </Typography>
+            {feedback.language && <Chip label={feedback.language} size="small" sx={{ height: 20 }} />}
+          </Stack>
+          <Button size="small" onClick={() => onCopy(feedback)}>
+            Copy as golden case
+          </Button>
+        </Stack>
+
+        {feedback.comment && (
+          <Typography
+            variant="body2"
+            sx={{ mt: 1.5, pl: 1.5, borderLeft: 3, borderColor: 'divider', whiteSpace: 'pre-wrap' }}
+          >
+            {feedback.comment}
+          </Typography>
+        )}
+
+        <Typography variant="subtitle2" sx={{ mt: 1.5 }}>
+          {question}
+        </Typography>
+        {feedback.rewrittenQuestion && feedback.rewrittenQuestion !== question && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+            Rewritten: {feedback.rewrittenQuestion}
+          </Typography>
+        )}
+        {feedback.messages.length > 1 && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+            {feedback.messages.length - 1} earlier message{feedback.messages.length === 2 ? '' : 's'}
+          </Typography>
+        )}
+
+        <Typography
+          variant="body2"
+          sx={{
+            mt: 1.5,
+            p: 1.5,
+            borderRadius: 1,
+            bgcolor: alpha(theme.palette.grey[500], 0.08),
+            whiteSpace: 'pre-wrap',
+          }}
+        >
+          {feedback.answer}
+        </Typography>
+
+        {feedback.matches.length > 0 && (
+          <Box sx={{ overflowX: 'auto', mt: 1.5 }}>
+            <Table size="small" sx={{ '& td, & th': { verticalAlign: 'top', px: 1, fontSize: '0.75rem' } }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>#</TableCell>
+                  <TableCell>Professor</TableCell>
+                  <TableCell>Section</TableCell>
+                  <TableCell align="right">Score</TableCell>
+                  <TableCell>Snippet</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {feedback.matches.map((m, i) => (
+                  <TableRow key={i}>
+                    <TableCell>{i + 1}</TableCell>
+                    <TableCell>
+                      {m.professor}
+                      {m.docId && (
+                        <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                          {m.docId}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{m.chunkBlock}</TableCell>
+                    <TableCell align="right">{m.score.toFixed(2)}</TableCell>
+                    <TableCell>{m.snippet}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// -------------------- Page --------------------
+
+export default function FeedbackReviewPage() {
+  const { token, setToken } = useAdminToken();
+  const [rating, setRating] = useState<RatingFilter>('down');
+  const [feedback, setFeedback] = useState<Feedback[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [rejected, setRejected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    adminFetch<{ feedback: Feedback[] }>(`/api/admin/feedback?rating=${rating}`, token)
+      .then((data) => {
+        if (cancelled) return;
+        if (!data) {
+          setRejected(true);
+          setToken(null);
+          return;
+        }
+        setFeedback(data.feedback);
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Something went wrong');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, rating, setToken]);
+
+  async function copyGoldenCase(f: Feedback) {
+    await navigator.clipboard.writeText(JSON.stringify(draftGoldenCase(f), null, 2)).catch(() => {});
+    setNotice('Golden case copied; add what should have been found before saving it.');
+  }
+
+  return (
+    <Box sx={{ minHeight: '100vh', bgcolor: 'background.default', p: { xs: 2, md: 3 } }}>
+      <Card sx={{ maxWidth: 1000, mx: 'auto' }}>
+        {/* Header */}
+        <Box
+          sx={{
+            px: 3,
+            py: 2.5,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 2,
+            borderBottom: '1px dashed',
+            borderColor: 'divider',
+          }}
+        >
+          <IconButton component={NextLink} href="/admin" title="Back to the dashboard">
+            <ArrowBackIcon />
+          </IconButton>
+          <Avatar sx={{ width: 48, height: 48, bgcolor: 'primary.main' }}>
+            <FeedbackIcon />
+          </Avatar>
+          <Box sx={{ flex: 1 }}>
+            <Typography variant="h6" fontWeight={700}>
+              Answer Feedback
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {feedback ? `${feedback.length} entr${feedback.length === 1 ? 'y' : 'ies'}` : 'Admin only'}
+            </Typography>
+          </Box>
+          {token && (
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={rating}
+              onChange={(_e, value: RatingFilter | null) => {
+                if (!value) return;
+                setRating(value);
+                setLoading(true);
+              }}
+            >
+              <ToggleButton value="down">Negative</ToggleButton>
+              <ToggleButton value="up">Positive</ToggleButton>
+              <ToggleButton value="all">All</ToggleButton>
+            </ToggleButtonGroup>
+          )}
+        </Box>
+
+        <Box sx={{ p: 3 }}>
+          {!token ? (
+            <AdminTokenForm
+              rejected={rejected}
+              onSubmit={(value) => {
+                setRejected(false);
+                setLoading(true);
+                setToken(value);
+              }}
+            />
+          ) : error ? (
+            <Typography variant="body2" color="error.main">
+              {error}
+            </Typography>
+          ) : loading && !feedback ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : (
+            <Stack spacing={2} sx={{ opacity: loading ? 0.6 : 1 }}>
+              {feedback?.map((f) => <FeedbackCard key={f.id} feedback={f} onCopy={copyGoldenCase} />)}
+              {feedback && feedback.length === 0 && (
+                <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+                  No feedback yet.
+                </Typography>
+              )}
+            </Stack>
+          )}
+        </Box>
+      </Card>
+
+      <Snackbar
+        open={!!notice}
+        autoHideDuration={4000}
+        onClose={() => setNotice(null)}
+        message={notice}
+      />
+    </Box>
+  );
+}
@@ -0,0 +1,346 @@
+// app/admin/page.tsx
+'use client';
+
+import { useEffect, useState, ReactNode } from 'react';
+import NextLink from 'next/link';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  IconButton,
+  Stack,
+  Avatar,
+  Chip,
+  Button,
+  CircularProgress,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Insights as InsightsIcon,
+  Feedback as FeedbackIcon,
+} from '@mui/icons-material';
+import { AdminTokenForm, adminFetch, useAdminToken } from './admin-token';
+import type { IndexStats, QueryAnalytics, QuestionCount } from '@/lib/analytics/types';
+
+// -------------------- Types --------------------
+
+type Stats = {
+  index: IndexStats | null;
+  indexError?: string;
+  queries: QueryAnalytics;
+};
+
+const PERIODS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 0, label: 'All' },
+];
+
+// -------------------- UI helpers --------------------
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  const theme = useTheme();
+  return (
+    <Card variant="outlined" sx={{ borderColor: alpha(theme.palette.grey[500], 0.16), boxShadow: 'none' }}>
+      <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+        <Typography variant="subtitle2" fontWeight={700} sx={{ mb: 1.5 }}>
+          {title}
+        </Typography>
+        {children}
+      </CardContent>
+    </Card>
+  );
+}
+
+function Figure({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <Box sx={{ minWidth: 110 }}>
+      <Typography variant="h6" fontWeight={700}>
+        {value}
+      </Typography>
+      <Typography variant="caption" color="text.secondary">
+        {label}
+      </Typography>
+    </Box>
+  );
+}
+
+function Empty() {
+  return (
+    <Typography variant="body2" color="text.secondary">
+      Nothing in this period.
+    </Typography>
+  );
+}
+
+function QuestionTable({ questions }: { questions: QuestionCount[] }) {
+  if (!questions.length) return <Empty />;
+  return (
+    <Table size="small" sx={{ '& td, & th': { px: 1, fontSize: '0.8rem' } }}>
+      <TableHead>
+        <TableRow>
+          <TableCell>Rewritten question</TableCell>
+          <TableCell align="right">Asked</TableCell>
+          <TableCell align="right">Last</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {questions.map((q) => (
+          <TableRow key={q.question}>
+            <TableCell>{q.question}</TableCell>
+            <TableCell align="right">{q.count}</TableCell>
+            <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+              {new Date(q.lastAt).toLocaleDateString()}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function IndexSection({ index, error }: { index: IndexStats | null; error?: string }) {
+  if (!index) {
+    return (
+      <Section title="Index">
+        <Typography variant="body2" color="error.main">
+          Could not read the vector store: {error}
+        </Typography>
+      </Section>
+    );
+  }
+
+  return (
+    <Section title={`Index (${index.store})`}>
+      <Stack direction="row" spacing={3} useFlexGap flexWrap="wrap">
+        <Figure label="vectors" value={index.totalVectors} />
+        {Object.entries(index.byKind).map(([kind, count]) => (
+          <Figure key={kind} label={kind} value={count} />
+        ))}
+        <Figure label="professors (doc_id)" value={index.professors} />
+        <Figure label="in the ingest manifest" value={index.manifestProfessors} />
+        <Figure
+          label="last ingestion"
+          value={index.lastIngestion ? new Date(index.lastIngestion).toLocaleString() : 'never'}
+        />
+      </Stack>
+      {index.incomplete.length > 0 && (
+        <Box sx={{ mt: 2 }}>
+          <Typography variant="caption" color="warning.main" fontWeight={700}>
+            Professors missing a summary or chunks
+          </Typography>
+          <Stack direction="row" spacing={0.75} useFlexGap flexWrap="wrap" sx={{ mt: 0.5 }}>
+            {index.incomplete.map((d) => (
+              <Chip
+                key={d.docId}
+                size="small"
+                label={`${d.professor || d.docId}: ${d.summaries} summary, ${d.chunks} chunks`}
+              />
+            ))}
+          </Stack>
+        </Box>
+      )}
+    </Section>
+  );
+}
+
+// -------------------- Page --------------------
+
+export default function AdminDashboardPage() {
+  const theme = useTheme();
+  const { token, setToken } = useAdminToken();
+  const [days, setDays] = useState(30);
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [rejected, setRejected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    adminFetch<Stats>(`/api/admin/stats?days=${days}`, token)
+      .then((data) => {
+        if (cancelled) return;
+        if (!data) {
+          setRejected(true);
+          setToken(null);
+          return;
+        }
+        setStats(data);
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Something went wrong');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, days, setToken]);
+
+  const queries = stats?.queries;
+
+  return (
+    <Box sx={{ minHeight: '100vh', bgcolor: 'background.default', p: { xs: 2, md: 3 } }}>
+      <Card sx={{ maxWidth: 1000, mx: 'auto' }}>
+        {/* Header */}
+        <Box
+          sx={{
+            px: 3,
+            py: 2.5,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 2,
+            borderBottom: '1px dashed',
+            borderColor: 'divider',
+          }}
+        >
+          <IconButton component={NextLink} href="/" title="Back to chat">
+            <ArrowBackIcon />
+          </IconButton>
+          <Avatar sx={{ width: 48, height: 48, bgcolor: 'primary.main' }}>
+            <InsightsIcon />
+          </Avatar>
+          <Box sx={{ flex: 1 }}>
+            <Typography variant="h6" fontWeight={700}>
+              Admin Dashboard
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Index status and what people ask
+            </Typography>
+          </Box>
+          {token && (
+            <Stack direction="row" spacing={1} alignItems="center">
+              <Button
+                component={NextLink}
+                href="/admin/feedback"
+                size="small"
+                startIcon={<FeedbackIcon sx={{ fontSize: 18 }} />}
+              >
+                Feedback
+              </Button>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={days}
+                onChange={(_e, value: number | null) => {
+                  if (value === null) return;
+                  setDays(value);
+                  setLoading(true);
+                }}
+              >
+                {PERIODS.map((p) => (
+                  <ToggleButton key={p.days} value={p.days}>
+                    {p.label}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+            </Stack>
+          )}
+        </Box>
+
+        <Box sx={{ p: 3 }}>
+          {!token ? (
+            <AdminTokenForm
+              rejected={rejected}
+              onSubmit={(value) => {
+                setRejected(false);
+                setLoading(true);
+                setToken(value);
+              }}
+            />
+          ) : error ? (
+            <Typography
+              variant="caption"
+              sx={{
+                color: 'error.main',
+                display: 'block',
+                bgcolor: alpha(theme.palette.error.main, 0.08),
+                p: 1.5,
+                borderRadius: 1,
+              }}
+            >
+              {error}
+            </Typography>
+          ) : loading && !stats ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : (
+            stats &&
+            queries && (
+              <Stack spacing={2} sx={{ opacity: loading ? 0.6 : 1 }}>
+                <IndexSection index={stats.index} error={stats.indexError} />
+
+                <Section title="Questions">
+                  <Stack direction="row" spacing={3} useFlexGap flexWrap="wrap">
+                    <Figure label="answered" value={queries.queries} />
+                    <Figure label="from the answer cache" value={queries.cached} />
+                    <Figure label="no information found" value={queries.noInfo} />
+                    <Figure label="broadened to all professors" value={queries.broadened} />
+                  </Stack>
+                </Section>
+
+                <Section title="Most asked">
+                  <QuestionTable questions={queries.topQuestions} />
+                </Section>
+
+                <Section title="Answered with “no information”">
+                  <QuestionTable questions={queries.noInfoQuestions} />
+                </Section>
+
+                <Section title="Broadened (routed professors had too few chunks)">
+                  <QuestionTable questions={queries.broadenedQuestions} />
+                </Section>
+
+                <Section title="Professors found">
+                  {queries.professors.length ? (
+                    <Table size="small" sx={{ '& td, & th': { px: 1, fontSize: '0.8rem' } }}>
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Professor</TableCell>
+                          <TableCell align="right">Sources picked</TableCell>
+                          <TableCell align="right">Questions</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {queries.professors.map((p) => (
+                          <TableRow key={p.docId}>
+                            <TableCell>
+                              <Link component={NextLink} href={`/professors/${encodeURIComponent(p.docId)}`}>
+                                {p.professor || p.docId}
+                              </Link>
+                            </TableCell>
+                            <TableCell align="right">{p.hits}</TableCell>
+                            <TableCell align="right">{p.queries}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <Empty />
+                  )}
+                </Section>
+              </Stack>
+            )
+          )}
+        </Box>
+      </Card>
+    </Box>
+  );
+}
@@ -0,0 +1,115 @@
+// app/advanced-options.tsx
+'use client';
+
+import { Box, Button, Slider, Stack, Typography, alpha, useTheme } from '@mui/material';
+import { useLocale } from './locale-provider';
+import type { RetrievalConfig } from '@/lib/prof-query/config';
+
+// From /api/prof-query/options
+type OptionSchema = {
+  type: 'integer' | 'number';
+  min: number;
+  max: number;
+  default: number;
+  description: string;
+};
+
+type OptionName = keyof RetrievalConfig;
+export type OptionsSchema = Record<OptionName, OptionSchema>;
+export type RetrievalOptions = Partial<RetrievalConfig>;
+
+type AdvancedOptionsProps = {
+  schema: OptionsSchema;
+  values: RetrievalOptions; // only the overridden options
+  onChange: (values: RetrievalOptions) => void;
+};
+
+// "summaryTopK" -> "Summary top k"
+function labelFor(name: string) {
+  const words = name.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** Sliders for the retrieval options; options left at the default are not sent. */
+export function AdvancedOptions({ schema, values, onChange }: AdvancedOptionsProps) {
+  const theme = useTheme();
+  const { t } = useLocale();
+
+  function setOption(name: OptionName, value: number) {
+    const next = { ...values, [name]: value };
+    if (value === schema[name].default) delete next[name];
+    onChange(next);
+  }
+
+  return (
+    <Box
+      sx={{
+        mb: 1.5,
+        p: 2,
+        borderRadius: 1,
+        bgcolor: alpha(theme.palette.grey[500], 0.06),
+      }}
+    >
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="caption" fontWeight={700} color="text.secondary">
+          {t.retrievalOptions}
+        </Typography>
+        <Button
+          size="small"
+          disabled={Object.keys(values).length === 0}
+          onClick={() => onChange({})}
+          sx={{ fontSize: '0.7rem' }}
+        >
+          {t.resetOptions}
+        </Button>
+      </Stack>
+
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' },
+          columnGap: 3,
+          rowGap: 1,
+        }}
+      >
+        {(Object.entries(schema) as [OptionName, OptionSchema][]).map(([name, option]) => {
+          const value = values[name] ?? option.default;
+          const label = t.options[name]?.label ?? labelFor(name);
+          const description = t.options[name]?.description ?? option.description;
+          return (
+            <Box key={name}>
+              <Stack direction="row" justifyContent="space-between">
+                <Typography variant="caption" fontWeight={600} title={description}>
+                  {label}
+                </Typography>
+                <Typography
+                  variant="caption"
+                  color={name in values ? 'primary.main' : 'text.secondary'}
+                  fontWeight={700}
+                >
+                  {value}
+                </Typography>
+              </Stack>
+              <Slider
+                size="small"
+                value={value}
+                min={option.min}
+                max={option.max}
+                step={option.type === 'integer' ? 1 : 0.05}
+                onChange={(_e, v) => setOption(name, v as number)}
+                aria-label={description}
+              />
+              <Typography
+                variant="caption"
+                color="text.secondary"
+                sx={{ display: 'block', mt: -0.5, fontSize: '0.68rem' }}
+              >
+                {description}
+              </Typography>
+            </Box>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,25 @@
+// app/api/admin/api-keys/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/admin";
+import { getApiKeyStore } from "@/lib/api-keys";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** DELETE /api/admin/api-keys/:id — revoke a key. It stays listed, marked revoked. */
+export async function DELETE(req: NextRequest, { params }: Params) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  try {
+    const { id } = await params;
+    const info = await getApiKeyStore().revoke(id);
+    if (!info) return NextResponse.json({ error: `Unknown API key "${id}"` }, { status: 404 });
+    return NextResponse.json(info);
+  } catch (err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : "Internal server error";
+    console.error("Admin API key error:", err);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
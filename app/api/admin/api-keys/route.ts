@@ -0,0 +1,43 @@
+// app/api/admin/api-keys/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/admin";
+import { getApiKeyStore, parseApiKeyInput } from "@/lib/api-keys";
+
+export const runtime = "nodejs";
+
+function unauthorized() {
+  return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+}
+
+function serverError(err: unknown) {
+  const errorMessage = err instanceof Error ? err.message : "Internal server error";
+  console.error("Admin API key error:", err);
+  return NextResponse.json({ error: errorMessage }, { status: 500 });
+}
+
+/** GET /api/admin/api-keys — every key, revoked ones included, newest first. */
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return unauthorized();
+  try {
+    return NextResponse.json({ keys: await getApiKeyStore().list() });
+  } catch (err: unknown) {
+    return serverError(err);
+  }
+}
+
+/**
+ * POST /api/admin/api-keys with { name, quota?: { perMinute?, perDay? } } — issue a key.
+ * The response is the only place the key itself appears; only its hash is stored.
+ */
+export async function POST(req: NextRequest) {
+  if (!isAdminRequest(req)) return unauthorized();
+  try {
+    const parsed = parseApiKeyInput(await req.json().catch(() => null));
+    if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const created = await getApiKeyStore().create(parsed.input.name, parsed.input.quota);
+    return NextResponse.json(created, { status: 201 });
+  } catch (err: unknown) {
+    return serverError(err);
+  }
+}
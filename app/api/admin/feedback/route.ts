@@ -0,0 +1,32 @@
+// app/api/admin/feedback/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/admin";
+import { getFeedbackStore, type FeedbackRating } from "@/lib/feedback";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/admin/feedback — feedback, newest first. Only thumbs down by default;
+ * `?rating=up` or `?rating=all` for the rest.
+ */
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rating = req.nextUrl.searchParams.get("rating") || "down";
+  if (rating !== "up" && rating !== "down" && rating !== "all") {
+    return NextResponse.json({ error: '"rating" must be up, down or all' }, { status: 400 });
+  }
+
+  try {
+    const feedback = await getFeedbackStore().list(
+      rating === "all" ? {} : { rating: rating as FeedbackRating }
+    );
+    return NextResponse.json({ feedback });
+  } catch (err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : "Internal server error";
+    console.error("Admin feedback error:", err);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
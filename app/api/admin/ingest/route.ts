@@ -0,0 +1,37 @@
+// app/api/admin/ingest/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/admin";
+import { runIngestion } from "@/lib/ingest";
+
+export const runtime = "nodejs";
+// a full rebuild makes one summary completion per professor; give it time
+export const maxDuration = 800;
+
+/**
+ * Re-ingest the configured PROFILES_DIR.
+ * Body (optional): { dryRun?: boolean, full?: boolean, limit?: number }
+ * Returns the diff report (added/updated/removed professors).
+ */
+export async function POST(req: NextRequest) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const limit = Number(body?.limit);
+
+    const report = await runIngestion({
+      dryRun: body?.dryRun === true,
+      full: body?.full === true,
+      limit: Number.isInteger(limit) && limit > 0 ? limit : undefined,
+      log: (line) => console.log("[ingest]", line),
+    });
+
+    return NextResponse.json(report);
+  } catch (err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : "Internal server error";
+    console.error("Ingest error:", err);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+// app/api/admin/stats/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/admin";
+import { getQueryLog, indexStats, summarizeQueries } from "@/lib/analytics";
+
+export const runtime = "nodejs";
+
+const DEFAULT_DAYS = 30;
+
+/**
+ * GET /api/admin/stats?days=30 — what is in the index and what was asked in the last
+ * `days` days (`days=0` for everything logged). The index is scanned on every call.
+ * When the vector store can't be read, `index` is null and `indexError` says why.
+ */
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rawDays = req.nextUrl.searchParams.get("days");
+  const days = rawDays === null ? DEFAULT_DAYS : Number(rawDays);
+  if (!Number.isInteger(days) || days < 0) {
+    return NextResponse.json({ error: '"days" must be a whole number of days' }, { status: 400 });
+  }
+  const since = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : null;
+
+  try {
+    const [index, entries] = await Promise.allSettled([
+      indexStats(),
+      getQueryLog().read(since ?? undefined),
+    ]);
+    if (entries.status === "rejected") throw entries.reason;
+
+    return NextResponse.json(
+      {
+        index: index.status === "fulfilled" ? index.value : null,
+        ...(index.status === "rejected"
+          ? { indexError: index.reason instanceof Error ? index.reason.message : String(index.reason) }
+          : {}),
+        queries: summarizeQueries(entries.value, since),
+      },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : "Internal server error";
+    console.error("Admin stats error:", err);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,142 @@
+// app/api/conversations/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  cleanTitle,
+  getConversationStore,
+  isValidConversationId,
+  MAX_CONVERSATION_BYTES,
+  MAX_CONVERSATIONS_PER_SESSION,
+  MAX_RENAME_BYTES,
+  parseConversationInput,
+} from "@/lib/conversations";
+import { API_ERROR_STATUS } from "@/lib/prof-query/contract";
+import { readJsonBody } from "@/lib/prof-query/request";
+import { checkRateLimit, clientIp, SAVE_RATE_LIMITS } from "@/lib/rate-limit";
+import { getSession, withSession } from "@/lib/session";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Unknown conversation "${id}"` }, { status: 404 });
+}
+
+function invalidId(id: string) {
+  return NextResponse.json({ error: `Invalid conversation id "${id}"` }, { status: 400 });
+}
+
+// Anyone can write to the store, so every write takes a token from the save buckets
+async function rateLimited(req: NextRequest, sessionId: string) {
+  const client = { ip: clientIp(req), sessionId };
+  const limit = await checkRateLimit("conversations", client, SAVE_RATE_LIMITS);
+  if (limit.allowed) return null;
+  return NextResponse.json(
+    { error: `Too many requests. Please wait ${limit.retryAfterSeconds} seconds.` },
+    { status: 429, headers: { "Retry-After": String(limit.retryAfterSeconds) } }
+  );
+}
+
+function serverError(err: unknown) {
+  const errorMessage = err instanceof Error ? err.message : "Internal server error";
+  console.error("Conversation API error:", err);
+  return NextResponse.json({ error: errorMessage }, { status: 500 });
+}
+
+/** GET /api/conversations/:id — one saved conversation with its messages and sources. */
+export async function GET(req: NextRequest, { params }: Params) {
+  const session = getSession(req);
+  try {
+    const { id } = await params;
+    const conversation = await getConversationStore().get(session.id, id);
+    if (!conversation) return notFound(id);
+    return withSession(NextResponse.json(conversation), session);
+  } catch (err: unknown) {
+    return serverError(err);
+  }
+}
+
+/**
+ * PUT /api/conversations/:id with { title, messages } — create or replace.
+ * The client picks the id, so a new chat can be saved before the server knows it.
+ */
+export async function PUT(req: NextRequest, { params }: Params) {
+  const session = getSession(req);
+  try {
+    const limited = await rateLimited(req, session.id);
+    if (limited) return limited;
+
+    const { id } = await params;
+    if (!isValidConversationId(id)) return invalidId(id);
+
+    const read = await readJsonBody(req, MAX_CONVERSATION_BYTES);
+    if ("error" in read) {
+      const { error, code } = read.error;
+      return NextResponse.json({ error }, { status: API_ERROR_STATUS[code] });
+    }
+    const parsed = parseConversationInput(id, read.body);
+    if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const store = getConversationStore();
+    if (
+      !(await store.get(session.id, id)) &&
+      (await store.list(session.id)).length >= MAX_CONVERSATIONS_PER_SESSION
+    ) {
+      return NextResponse.json(
+        {
+          error: `At most ${MAX_CONVERSATIONS_PER_SESSION} conversations can be saved; delete some first`,
+        },
+        { status: 409 }
+      );
+    }
+
+    // an id owned by another session looks the same as one that doesn't exist
+    const conversation = await store.save(session.id, parsed.input);
+    if (!conversation) return notFound(id);
+    return withSession(NextResponse.json(conversation), session);
+  } catch (err: unknown) {
+    return serverError(err);
+  }
+}
+
+/** PATCH /api/conversations/:id with { title } — rename. */
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const session = getSession(req);
+  try {
+    const limited = await rateLimited(req, session.id);
+    if (limited) return limited;
+
+    const { id } = await params;
+    if (!isValidConversationId(id)) return invalidId(id);
+
+    const read = await readJsonBody(req, MAX_RENAME_BYTES);
+    if ("error" in read) {
+      const { error, code } = read.error;
+      return NextResponse.json({ error }, { status: API_ERROR_STATUS[code] });
+    }
+    const title = cleanTitle((read.body as { title?: unknown } | null)?.title);
+    if (!title) return NextResponse.json({ error: 'Missing or invalid "title"' }, { status: 400 });
+
+    const conversation = await getConversationStore().rename(session.id, id, title);
+    if (!conversation) return notFound(id);
+    return withSession(NextResponse.json(conversation), session);
+  } catch (err: unknown) {
+    return serverError(err);
+  }
+}
+
+/** DELETE /api/conversations/:id — also revokes its share link. */
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const session = getSession(req);
+  try {
+    const limited = await rateLimited(req, session.id);
+    if (limited) return limited;
+
+    const { id } = await params;
+    if (!isValidConversationId(id)) return invalidId(id);
+    if (!(await getConversationStore().delete(session.id, id))) return notFound(id);
+    return withSession(NextResponse.json({ deleted: id }), session);
+  } catch (err: unknown) {
+    return serverError(err);
+  }
+}
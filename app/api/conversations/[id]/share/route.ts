@@ -0,0 +1,28 @@
+// app/api/conversations/[id]/share/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getConversationStore } from "@/lib/conversations";
+import { getSession, withSession } from "@/lib/session";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/conversations/:id/share — make a saved conversation readable by anyone with
+ * the link. Returns { shareId, url }; sharing again returns the same link.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = getSession(req);
+  try {
+    const { id } = await params;
+    const shareId = await getConversationStore().share(session.id, id);
+    if (!shareId) {
+      return NextResponse.json({ error: `Unknown conversation "${id}"` }, { status: 404 });
+    }
+
+    const url = new URL(`/share/${shareId}`, req.nextUrl.origin).toString();
+    return withSession(NextResponse.json({ shareId, url }), session);
+  } catch (err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : "Internal server error";
+    console.error("Share API error:", err);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
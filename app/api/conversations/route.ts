@@ -0,0 +1,19 @@
+// app/api/conversations/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getConversationStore } from "@/lib/conversations";
+import { getSession, withSession } from "@/lib/session";
+
+export const runtime = "nodejs";
+
+/** GET /api/conversations — this browser's saved conversations, most recent first. */
+export async function GET(req: NextRequest) {
+  const session = getSession(req);
+  try {
+    const conversations = await getConversationStore().list(session.id);
+    return withSession(NextResponse.json({ conversations }), session);
+  } catch (err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : "Internal server error";
+    console.error("Conversations API error:", err);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
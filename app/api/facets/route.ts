@@ -0,0 +1,20 @@
+// app/api/facets/route.ts
+import { NextResponse } from "next/server";
+import { listFacets } from "@/lib/directory";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/facets
+ * Values usable in the `filters` of /api/prof-query, with professor counts:
+ * { school: [{ value, count }], department: [...], topics: [...] }
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await listFacets());
+  } catch (err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : "Internal server error";
+    console.error("Facets API error:", err);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+// app/api/feedback/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getFeedbackStore, parseFeedbackInput } from "@/lib/feedback";
+import { API_ERROR_STATUS } from "@/lib/prof-query/contract";
+import { readJsonBody } from "@/lib/prof-query/request";
+import { checkRateLimit, clientIp } from "@/lib/rate-limit";
+import { getSession, withSession } from "@/lib/session";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/feedback — thumbs up/down on one answer, with an optional comment.
+ * Body: FeedbackInput (see lib/feedback/types.ts). Returns 201 with the feedback id.
+ */
+export async function POST(req: NextRequest) {
+  const session = getSession(req);
+  try {
+    const limit = await checkRateLimit("feedback", { ip: clientIp(req), sessionId: session.id });
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: `Too many requests. Please wait ${limit.retryAfterSeconds} seconds.` },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfterSeconds) } }
+      );
+    }
+
+    const read = await readJsonBody(req);
+    if ("error" in read) {
+      const { error, code } = read.error;
+      return NextResponse.json({ error }, { status: API_ERROR_STATUS[code] });
+    }
+
+    const parsed = parseFeedbackInput(read.body);
+    if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const feedback = await getFeedbackStore().add(session.id, parsed.input);
+    return withSession(NextResponse.json({ id: feedback.id }, { status: 201 }), session);
+  } catch (err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : "Internal server error";
+    console.error("Feedback API error:", err);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
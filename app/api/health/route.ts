@@ -0,0 +1,18 @@
+// app/api/health/route.ts
+import { NextResponse } from "next/server";
+import { checkHealth } from "@/lib/telemetry";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/health
+ * Checks that the chat and embedding providers, the vector store and the lexical index
+ * are reachable. 200 when all are, 503 otherwise; the body has a result per check.
+ */
+export async function GET() {
+  const report = await checkHealth();
+  return NextResponse.json(report, {
+    status: report.status === "ok" ? 200 : 503,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
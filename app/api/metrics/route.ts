@@ -0,0 +1,18 @@
+// app/api/metrics/route.ts
+import { renderMetrics } from "@/lib/telemetry";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/metrics
+ * Request counts, stage latencies and token usage of /api/prof-query in the Prometheus
+ * text format. Counts are per server process and reset on restart.
+ */
+export async function GET() {
+  return new Response(renderMetrics(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,14 @@
+// app/api/prof-query/options/route.ts
+import { NextResponse } from "next/server";
+import { DEFAULT_RETRIEVAL_CONFIG, RETRIEVAL_OPTIONS_SCHEMA } from "@/lib/prof-query/config";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/prof-query/options
+ * The retrieval options accepted in the `options` field of /api/prof-query, with their
+ * bounds and the server's defaults.
+ */
+export async function GET() {
+  return NextResponse.json({ defaults: DEFAULT_RETRIEVAL_CONFIG, schema: RETRIEVAL_OPTIONS_SCHEMA });
+}
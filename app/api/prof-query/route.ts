@@ -1,270 +1,281 @@
 // app/api/prof-query/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
-import { Pinecone } from "@pinecone-database/pinecone";
+import { recordQuery } from "@/lib/analytics";
+import { cleanCitations } from "@/lib/prof-query/citations";
+import { lookupAnswer, storeAnswer } from "@/lib/prof-query/answer-cache";
+import { browse } from "@/lib/prof-query/browse";
+import { askComparison } from "@/lib/prof-query/compare";
+import { API_ERROR_STATUS, toApiError } from "@/lib/prof-query/contract";
+import { detectLanguage } from "@/lib/prof-query/language";
+import {
+  askLLM,
+  isNoInfoAnswer,
+  rewriteToStandalone,
+  streamLLM,
+  NO_INFO_ANSWERS,
+} from "@/lib/prof-query/llm";
+import { recommendProfessors } from "@/lib/prof-query/recommend";
+import { parseQueryRequest, readJsonBody } from "@/lib/prof-query/request";
+import { buildContext, matchesToClient, retrieve } from "@/lib/prof-query/retrieval";
+import type {
+  ApiError,
+  BrowseResponse,
+  CacheReport,
+  MatchForClient,
+  QueryResponse,
+  StreamEvent,
+} from "@/lib/prof-query/types";
+import { checkRateLimit, clientIp } from "@/lib/rate-limit";
+import { getSession, withSession } from "@/lib/session";
+import { createTrace, log, type Trace } from "@/lib/telemetry";
 
 export const runtime = "nodejs";
 
-const PINECONE_API_KEY = process.env.PINECONE_API_KEY!;
-const PINECONE_HOST = process.env.PINECONE_HOST!;
-const PINECONE_INDEX = process.env.PINECONE_INDEX || "tum2prof";
-const PINECONE_NAMESPACE = process.env.PINECONE_NAMESPACE || ""; // optional
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY || process.env.OPENAI_KEY!;
+const NDJSON_CONTENT_TYPE = "application/x-ndjson; charset=utf-8";
 
-if (!PINECONE_API_KEY) throw new Error("Missing PINECONE_API_KEY");
-if (!PINECONE_HOST) throw new Error("Missing PINECONE_HOST");
-if (!PINECONE_INDEX) throw new Error("Missing PINECONE_INDEX");
-if (!OPENAI_API_KEY) throw new Error("Missing OPENAI_API_KEY (or OPENAI_KEY)");
-
-const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-
-const pc = new Pinecone({ apiKey: PINECONE_API_KEY });
-const baseIndex = pc.index(PINECONE_INDEX, PINECONE_HOST);
-const index =
-  PINECONE_NAMESPACE && typeof (baseIndex as any).namespace === "function"
-    ? (baseIndex as any).namespace(PINECONE_NAMESPACE)
-    : baseIndex;
-
-// If your SDK doesn’t support index.namespace(), we’ll pass `namespace` in query calls
-const namespaceFallback =
-  PINECONE_NAMESPACE && typeof (baseIndex as any).namespace !== "function"
-    ? PINECONE_NAMESPACE
-    : undefined;
-
-type ChatMsg = { role: "user" | "assistant" | "system"; content: string };
-
-type MatchForClient = {
-  score: number;
-  professor: string;
-  url: string;
-  chunkBlock: string;
-  snippet: string;
-};
-
-function shorten(text: string, max = 220) {
-  const clean = (text || "").replace(/\s+/g, " ").trim();
-  if (clean.length <= max) return clean;
-  return clean.slice(0, max - 3) + "...";
-}
-
-async function embedQuery(q: string) {
-  const emb = await openai.embeddings.create({
-    model: "text-embedding-3-small",
-    dimensions: 512,
-    input: q,
-  });
-  return emb.data[0].embedding;
-}
-
-async function pineconeQuery(params: {
-  vector: number[];
-  topK: number;
-  filter?: Record<string, any>;
-}) {
-  const payload: any = {
-    vector: params.vector,
-    topK: params.topK,
-    includeMetadata: true,
-    filter: params.filter,
-  };
-  if (namespaceFallback) payload.namespace = namespaceFallback;
-  return await (index as any).query(payload);
-}
-
-function matchesToClient(matches: any[]): MatchForClient[] {
-  return matches.map((m) => {
-    const md = m.metadata || {};
-    const professor = md.professor || md.professorName || "(unknown)";
-    const url = md.source_url || md.url || "";
-    const chunkBlock = md.chunk_block || md.chunkBlock || "";
-    const text = md.text || "";
-    return {
-      score: m.score ?? m._score ?? 0,
-      professor,
-      url,
-      chunkBlock,
-      snippet: shorten(String(text)),
-    };
-  });
-}
-
-function buildContext(matches: any[]) {
-  return matches
-    .map((m, i) => {
-      const md = m.metadata || {};
-      const professor = md.professor || md.professorName || "Unknown";
-      const url = md.source_url || md.url || "";
-      const block = md.chunk_block || "";
-      const text = (md.text || "").toString();
-
-      return [
-        `[#${i + 1}] Professor: ${professor}`,
-        block ? `Section: ${block}` : null,
-        url ? `Source: ${url}` : null,
-        "",
-        text,
-      ]
-        .filter(Boolean)
-        .join("\n");
-    })
-    .join("\n\n---\n\n");
+function errorResponse(trace: Trace, error: ApiError, init?: ResponseInit) {
+  trace.set({ code: error.code });
+  return NextResponse.json(error, { ...init, status: API_ERROR_STATUS[error.code] });
 }
 
 /**
- * Always rewrite the latest user message into a standalone retrieval query using chat history.
- * This makes follow-up questions work (pronouns, "what about awards?", etc.).
- *
- * Request body must send: { messages: [{role, content}, ...] }
- * and the LAST message must be { role: "user", content: "..." }
+ * Streaming mode (`stream: true` in the body): responds with NDJSON, one StreamEvent
+ * per line. The rewritten question and matches arrive first, then the answer tokens.
+ * The trace ends when the stream does.
  */
-async function rewriteToStandalone(messages: ChatMsg[]) {
-  const history = messages.slice(-12).map((m) => ({ role: m.role, content: m.content }));
-
-  const resp = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
-    temperature: 0,
-    messages: [
-      {
-        role: "system",
-        content:
-          "You are a query rewriter for semantic search.\n" +
-          "Rewrite the user's latest message into a fully standalone question.\n" +
-          "Rules:\n" +
-          "- Resolve pronouns and references using the conversation.\n" +
-          "- If the user asks for contact info (email/phone/address), make the subject explicit.\n" +
-          "- Preserve intent; do not add facts.\n" +
-          "Output ONLY the rewritten question (no quotes, no commentary).",
-      },
-      ...history,
-      { role: "user", content: "Rewrite my latest message into a standalone question." },
-    ],
+function ndjsonResponse(
+  trace: Trace,
+  run: (send: (event: StreamEvent) => void) => Promise<void>
+) {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: StreamEvent) =>
+        controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+
+      try {
+        await run(send);
+      } catch (err: unknown) {
+        const error = toApiError(err);
+        log("error", "stream_failed", { traceId: trace.id, code: error.code, err });
+        trace.set({ code: error.code });
+        send({ type: "error", ...error });
+      } finally {
+        controller.close();
+        trace.end(200);
+      }
+    },
   });
 
-  return resp.choices[0]?.message?.content?.trim() || messages[messages.length - 1]?.content || "";
-}
-
-async function askLLM(finalQuestion: string, context: string) {
-  const completion = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
-    temperature: 0.2,
-    messages: [
-      {
-        role: "system",
-        content:
-          "You answer questions about TUM professors using ONLY the provided context. " +
-          "If the answer is not in the context, say you don’t have that information. " +
-          "Write a polished, direct answer. " +
-          "Do NOT mention sources, retrieval, Pinecone, embeddings, or chunks. " +
-          "Output ONLY the final answer text.",
-      },
-      { role: "user", content: `Question:\n${finalQuestion}\n\nContext:\n${context}` },
-    ],
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": NDJSON_CONTENT_TYPE,
+      "Cache-Control": "no-cache, no-transform",
+    },
   });
-
-  return completion.choices[0]?.message?.content?.trim() || "";
 }
 
 export async function POST(req: NextRequest) {
-  try {
-    const body = await req.json();
-    const messages = body?.messages as ChatMsg[] | undefined;
+  // the session cookie gives each browser its own rate limit bucket
+  const session = getSession(req);
+  const trace = createTrace("prof-query", req);
+
+  const res = await handleQuery(req, session.id, trace);
+  res.headers.set("X-Trace-Id", trace.id);
+  if (res.headers.get("Content-Type") !== NDJSON_CONTENT_TYPE) trace.end(res.status);
+  return withSession(res, session);
+}
 
-    if (!Array.isArray(messages) || messages.length === 0) {
-      return NextResponse.json(
-        { error: 'Missing or invalid "messages" array in body' },
-        { status: 400 }
+async function handleQuery(req: NextRequest, sessionId: string, trace: Trace) {
+  try {
+    const limit = await checkRateLimit("prof-query", { ip: clientIp(req), sessionId });
+    if (!limit.allowed) {
+      return errorResponse(
+        trace,
+        {
+          error: `Too many questions at once. Please wait ${limit.retryAfterSeconds} seconds.`,
+          code: "RATE_LIMITED",
+          retryAfter: limit.retryAfterSeconds,
+        },
+        { headers: { "Retry-After": String(limit.retryAfterSeconds) } }
       );
     }
 
-    const last = messages[messages.length - 1];
-    if (!last || last.role !== "user" || typeof last.content !== "string" || !last.content.trim()) {
-      return NextResponse.json(
-        { error: 'The last message must be a user message with non-empty "content".' },
-        { status: 400 }
-      );
-    }
+    const read = await readJsonBody(req);
+    if ("error" in read) return errorResponse(trace, read.error);
 
-    // 0) rewrite latest user message into a standalone query (no heuristics)
-    const rewrittenQuestion = await rewriteToStandalone(messages);
+    const parsed = parseQueryRequest(read.body);
+    if ("error" in parsed) return errorResponse(trace, parsed.error);
 
-    // 1) embed rewritten query
-    const qVec = await embedQuery(rewrittenQuestion);
+    // matches only: no answer, so nothing to stream or cache
+    if (parsed.query.mode === "browse") {
+      return NextResponse.json<BrowseResponse>(await browse(parsed.query, trace));
+    }
 
-    // 2) stage 1: route via summaries (best professor docs)
-    const summaryRes = await pineconeQuery({
-      vector: qVec,
-      topK: 3,
-      filter: { kind: "profile_summary" },
-    });
+    const { messages, stream, filters, config, recommend } = parsed.query;
+    // answer in the language of the question; the UI language decides when that's unclear
+    const language = detectLanguage(messages[messages.length - 1].content, parsed.query.language);
+    const options = { citations: parsed.query.citations, language, recommend };
+    trace.set({ stream, messages: messages.length, language });
 
-    const summaryMatches: any[] = summaryRes?.matches || [];
-    const docIds = Array.from(
-      new Set(summaryMatches.map((m) => m?.metadata?.doc_id).filter(Boolean))
-    );
+    // 0) rewrite latest user message into a standalone query (no heuristics)
+    const rewrittenQuestion = await rewriteToStandalone(messages, config.historyMessages, trace);
+    trace.set({ rewrittenQuestion });
+
+    // for the admin dashboard: what is asked, what isn't covered, who gets found
+    const logQuery = (
+      answer: string,
+      matches: MatchForClient[],
+      retrieval: { broadened: boolean } | null
+    ) =>
+      recordQuery({
+        rewrittenQuestion,
+        language,
+        cached: !retrieval,
+        noInfo: isNoInfoAnswer(answer),
+        broadened: retrieval?.broadened ?? null,
+        picked: matches.map(({ docId, professor }) => ({ docId, professor })),
+      });
 
-    // 3) stage 2: fetch chunks filtered to routed docs
-    const chunkFilter =
-      docIds.length > 0
-        ? { kind: "profile_chunk", doc_id: { $in: docIds } }
-        : { kind: "profile_chunk" };
+    // repeated questions are answered from the cache, skipping retrieval and the LLM
+    const lookup = await lookupAnswer(rewrittenQuestion, filters, config, options);
+    trace.set({ answerCache: lookup.status });
+    if (lookup.hit) {
+      const { answer, citations, matches, comparison, recommendations } = lookup.hit;
+      const cache: CacheReport = { answer: "hit" };
+      await logQuery(answer, matches, null);
+      if (!stream) {
+        return NextResponse.json<QueryResponse>({
+          answer,
+          matches,
+          citations,
+          comparison,
+          recommendations,
+          rewrittenQuestion,
+          language,
+          cache,
+        });
+      }
 
-    const chunkRes = await pineconeQuery({
-      vector: qVec,
-      topK: 12,
-      filter: chunkFilter,
-    });
+      return ndjsonResponse(trace, async (send) => {
+        send({ type: "meta", rewrittenQuestion, language, matches, cache });
+        if (!comparison) send({ type: "token", text: answer });
+        send({ type: "done", answer, citations, comparison, recommendations });
+      });
+    }
 
-    let chunkMatches: any[] = chunkRes?.matches || [];
+    // 1-3) embed, route via summaries, fetch and pick chunks (within the facet filters)
+    const retrieval = await retrieve(rewrittenQuestion, filters, config, trace);
+    const { picked } = retrieval;
+    trace.set({ picked: picked.length, compared: retrieval.compared });
+    const cache: CacheReport = { ...retrieval.cache, answer: lookup.status };
+    const matches = matchesToClient(picked); // use for UI cards
+    const context = picked.length ? buildContext(picked) : "";
+    const sourceCount = options.citations ? picked.length : 0;
+
+    // "Cremers vs. Navab": a table of aspects × professors instead of prose, not streamed.
+    // Falls back to a normal answer when the model's comparison is unusable.
+    const compare = async () => {
+      if (!retrieval.compared) return null;
+      const result = await askComparison(
+        rewrittenQuestion,
+        context,
+        picked,
+        retrieval.docIds,
+        language,
+        trace
+      );
+      if (!result) return null;
+      const { answer, cited } = cleanCitations(result.answer, sourceCount);
+      const compared = { answer, citations: cited, comparison: result.comparison };
+      await storeAnswer(lookup.key, { ...compared, matches });
+      await logQuery(answer, matches, retrieval);
+      return compared;
+    };
 
-    // broaden once if routing is too narrow
-    if (docIds.length > 0 && chunkMatches.length < 3) {
-      const broadenRes = await pineconeQuery({
-        vector: qVec,
-        topK: 12,
-        filter: { kind: "profile_chunk" },
+    // discovery questions: the professors behind the sources, ranked, next to the answer.
+    // Runs alongside the answer and never fails the request.
+    const recommendations = () =>
+      recommend && new Set(picked.map((m) => m.metadata.doc_id)).size > 1
+        ? recommendProfessors(rewrittenQuestion, context, picked, language, trace)
+        : Promise.resolve(undefined);
+
+    if (stream) {
+      return ndjsonResponse(trace, async (send) => {
+        send({ type: "meta", rewrittenQuestion, language, matches, cache });
+
+        if (!picked.length) {
+          send({ type: "token", text: NO_INFO_ANSWERS[language] });
+          send({ type: "done", answer: NO_INFO_ANSWERS[language], citations: [] });
+          await logQuery(NO_INFO_ANSWERS[language], matches, retrieval);
+          return;
+        }
+
+        const compared = await compare();
+        if (compared) {
+          send({ type: "done", ...compared });
+          return;
+        }
+
+        const ranking = recommendations();
+        let raw = "";
+        for await (const text of streamLLM(rewrittenQuestion, context, options, trace)) {
+          raw += text;
+          send({ type: "token", text });
+        }
+        const { answer, cited } = cleanCitations(raw, sourceCount);
+        const done = { answer, citations: cited, recommendations: await ranking };
+        send({ type: "done", ...done });
+        await storeAnswer(lookup.key, { ...done, matches });
+        await logQuery(answer, matches, retrieval);
       });
-      chunkMatches = broadenRes?.matches || chunkMatches;
     }
 
-    if (!chunkMatches.length) {
-      return NextResponse.json({
-        answer:
-          "I could not find relevant information in the indexed professor profiles for that question.",
+    if (!picked.length) {
+      await logQuery(NO_INFO_ANSWERS[language], matches, retrieval);
+      return NextResponse.json<QueryResponse>({
+        answer: NO_INFO_ANSWERS[language],
         matches: [],
+        citations: [],
         rewrittenQuestion,
+        language,
+        cache,
       });
     }
 
-    // pick up to 8 chunks; prefer diverse sections
-    const picked: any[] = [];
-    const seenBlocks = new Set<string>();
-
-    for (const m of chunkMatches) {
-      if (picked.length >= 8) break;
-      const block = (m?.metadata?.chunk_block || "") as string;
-      if (!block || !seenBlocks.has(block)) {
-        picked.push(m);
-        if (block) seenBlocks.add(block);
-      }
-    }
-    for (const m of chunkMatches) {
-      if (picked.length >= 8) break;
-      if (!picked.includes(m)) picked.push(m);
+    const compared = await compare();
+    if (compared) {
+      return NextResponse.json<QueryResponse>({
+        ...compared,
+        matches,
+        rewrittenQuestion,
+        language,
+        cache,
+      });
     }
 
-    const context = buildContext(picked);
-
-    // 4) final answer (ONLY polished answer)
-    const answer = await askLLM(rewrittenQuestion, context);
+    // 4) final answer; [n] markers refer to matches[n - 1]
+    const [raw, ranked] = await Promise.all([
+      askLLM(rewrittenQuestion, context, options, trace),
+      recommendations(),
+    ]);
+    const { answer, cited } = cleanCitations(raw, sourceCount);
+    await storeAnswer(lookup.key, { answer, citations: cited, matches, recommendations: ranked });
+    await logQuery(answer, matches, retrieval);
 
-    return NextResponse.json({
+    return NextResponse.json<QueryResponse>({
       answer,
-      matches: matchesToClient(picked), // use for UI cards
+      matches,
+      citations: cited,
+      recommendations: ranked,
       rewrittenQuestion, // remove in prod if you want
+      language,
+      cache,
     });
   } catch (err: unknown) {
-    const errorMessage = err instanceof Error ? err.message : "Internal server error";
-    console.error("API error:", err);
-    return NextResponse.json({ error: errorMessage }, { status: 500 });
+    const error = toApiError(err);
+    log("error", "request_failed", { traceId: trace.id, code: error.code, err });
+    return errorResponse(trace, error);
   }
 }
@@ -0,0 +1,22 @@
+// app/api/professors/[docId]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getProfessor } from "@/lib/directory";
+
+export const runtime = "nodejs";
+
+/** GET /api/professors/:docId — summary plus all profile sections of one professor. */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ docId: string }> }) {
+  try {
+    const { docId } = await params;
+    const professor = await getProfessor(docId);
+
+    if (!professor) {
+      return NextResponse.json({ error: `Unknown professor "${docId}"` }, { status: 404 });
+    }
+    return NextResponse.json(professor);
+  } catch (err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : "Internal server error";
+    console.error("Professor API error:", err);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
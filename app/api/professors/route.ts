@@ -0,0 +1,33 @@
+// app/api/professors/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { listProfessors } from "@/lib/directory";
+
+export const runtime = "nodejs";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+function positiveInt(value: string | null, fallback: number) {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+/**
+ * GET /api/professors?page=1&pageSize=20&q=robotics
+ * Paginated directory of indexed professors, sorted by surname.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    const result = await listProfessors({
+      q: params.get("q") || undefined,
+      page: positiveInt(params.get("page"), 1),
+      pageSize: Math.min(positiveInt(params.get("pageSize"), DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE),
+    });
+    return NextResponse.json(result);
+  } catch (err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : "Internal server error";
+    console.error("Professors API error:", err);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+// app/api/share/[shareId]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getConversationStore } from "@/lib/conversations";
+
+export const runtime = "nodejs";
+
+/** GET /api/share/:shareId — a shared conversation, read-only and without a session. */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ shareId: string }> }) {
+  try {
+    const { shareId } = await params;
+    const conversation = await getConversationStore().getShared(shareId);
+    if (!conversation) {
+      return NextResponse.json({ error: "This shared conversation does not exist" }, { status: 404 });
+    }
+
+    // only what the page renders; the conversation id stays with its owner
+    const { title, createdAt, updatedAt, messages } = conversation;
+    return NextResponse.json({ title, createdAt, updatedAt, messages });
+  } catch (err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : "Internal server error";
+    console.error("Share API error:", err);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
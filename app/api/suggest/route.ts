@@ -0,0 +1,35 @@
+// app/api/suggest/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getSuggestIndex, MAX_SUGGESTIONS } from "@/lib/suggest";
+
+export const runtime = "nodejs";
+
+const DEFAULT_LIMIT = 8;
+const MAX_QUERY_CHARS = 200;
+
+/**
+ * GET /api/suggest?q=who works on quant&limit=8
+ * Completions for the last words of `q`: professor names, chair names and research
+ * topics. `replaces` says how many trailing words of `q` a suggestion stands for.
+ * Returns no suggestions before the first ingestion.
+ */
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const q = (params.get("q") ?? "").slice(-MAX_QUERY_CHARS);
+  const limit = Number(params.get("limit") ?? DEFAULT_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SUGGESTIONS) {
+    return NextResponse.json(
+      { error: `"limit" must be an integer between 1 and ${MAX_SUGGESTIONS}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const index = await getSuggestIndex();
+    return NextResponse.json({ suggestions: index?.suggest(q, limit) ?? [] });
+  } catch (err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : "Internal server error";
+    console.error("Suggest API error:", err);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+// app/api/v1/answer/route.ts
+import { NextRequest } from "next/server";
+import { answer } from "@/lib/api-v1/answer";
+import { handleV1 } from "@/lib/api-v1/handler";
+import { parseAnswerRequest } from "@/lib/api-v1/request";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/v1/answer — a generated answer with its sources, as JSON. See
+ * lib/api-v1/types.ts and /api/v1/openapi.json.
+ */
+export async function POST(req: NextRequest) {
+  return handleV1(
+    req,
+    "answer",
+    (body) => {
+      const parsed = parseAnswerRequest(body);
+      return "error" in parsed ? parsed : { value: parsed.query };
+    },
+    answer
+  );
+}
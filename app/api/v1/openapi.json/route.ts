@@ -0,0 +1,12 @@
+// app/api/v1/openapi.json/route.ts
+import { NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/api-v1/openapi";
+
+export const runtime = "nodejs";
+
+/** GET /api/v1/openapi.json — the OpenAPI document of /api/v1. No API key needed. */
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument(), {
+    headers: { "Cache-Control": "public, max-age=300" },
+  });
+}
@@ -0,0 +1,23 @@
+// app/api/v1/search/route.ts
+import { NextRequest } from "next/server";
+import { handleV1 } from "@/lib/api-v1/handler";
+import { parseSearchRequest } from "@/lib/api-v1/request";
+import { search } from "@/lib/api-v1/search";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/v1/search — retrieval only: ranked professors and the chunks behind them
+ * for `query`, without calling an LLM. See lib/api-v1/types.ts and /api/v1/openapi.json.
+ */
+export async function POST(req: NextRequest) {
+  return handleV1(
+    req,
+    "search",
+    (body) => {
+      const parsed = parseSearchRequest(body);
+      return "error" in parsed ? parsed : { value: parsed.search };
+    },
+    search
+  );
+}
@@ -0,0 +1,185 @@
+// app/browse-results.tsx
+'use client';
+
+import { useState } from 'react';
+import NextLink from 'next/link';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Chip,
+  Link,
+  Button,
+  CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import { OpenInNew as OpenInNewIcon } from '@mui/icons-material';
+import { useLocale } from './locale-provider';
+import type { MatchForClient } from '@/lib/prof-query/types';
+
+type SortOrder = 'score' | 'name';
+
+type ProfessorMatches = {
+  docId: string;
+  professor: string;
+  url: string;
+  best: number; // score of their best match
+  matches: MatchForClient[]; // best first
+};
+
+function groupByProfessor(matches: MatchForClient[], sort: SortOrder) {
+  const groups = new Map<string, ProfessorMatches>();
+  for (const m of matches) {
+    const group = groups.get(m.docId);
+    if (group) {
+      group.matches.push(m);
+      group.best = Math.max(group.best, m.score);
+    } else {
+      groups.set(m.docId, { docId: m.docId, professor: m.professor, url: m.url, best: m.score, matches: [m] });
+    }
+  }
+  const list = Array.from(groups.values());
+  for (const group of list) group.matches.sort((a, b) => b.score - a.score);
+  return sort === 'name'
+    ? list.sort((a, b) => a.professor.localeCompare(b.professor))
+    : list.sort((a, b) => b.best - a.best);
+}
+
+const percent = (score: number) => `${(score * 100).toFixed(0)}%`;
+
+type BrowseResultsProps = {
+  matches: MatchForClient[];
+  hasMore: boolean;
+  // without it (e.g. on shared conversations) the loaded pages are all there is
+  onLoadMore?: () => Promise<boolean>;
+};
+
+/** Browse-mode results: every match, grouped by professor, with the next page on demand. */
+export function BrowseResults({ matches, hasMore, onLoadMore }: BrowseResultsProps) {
+  const theme = useTheme();
+  const { t } = useLocale();
+  const [sort, setSort] = useState<SortOrder>('score');
+  const [loading, setLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const groups = groupByProfessor(matches, sort);
+
+  async function loadMore() {
+    if (!onLoadMore) return;
+    setLoading(true);
+    setFailed(false);
+    const ok = await onLoadMore();
+    setLoading(false);
+    setFailed(!ok);
+  }
+
+  if (!matches.length) return null;
+
+  return (
+    <Box sx={{ mt: 1.5 }}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" spacing={1} sx={{ mb: 1 }}>
+        <Typography variant="caption" color="text.secondary" fontWeight={700}>
+          {t.browseCount(groups.length, matches.length)}
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={sort}
+          onChange={(_e, value: SortOrder | null) => value && setSort(value)}
+          sx={{ '& .MuiToggleButton-root': { py: 0.25, px: 1, fontSize: '0.7rem', textTransform: 'none' } }}
+        >
+          <ToggleButton value="score">{t.sortByScore}</ToggleButton>
+          <ToggleButton value="name">{t.sortByName}</ToggleButton>
+        </ToggleButtonGroup>
+      </Stack>
+
+      <Stack spacing={1}>
+        {groups.map((g) => (
+          <Card
+            key={g.docId}
+            variant="outlined"
+            sx={{ borderColor: alpha(theme.palette.grey[500], 0.16), boxShadow: 'none' }}
+          >
+            <CardContent sx={{ p: 1.5, '&:last-child': { pb: 1.5 } }}>
+              <Stack direction="row" justifyContent="space-between" alignItems="center" spacing={1}>
+                <Stack direction="row" spacing={1} alignItems="center" sx={{ minWidth: 0 }}>
+                  <Link
+                    component={NextLink}
+                    href={`/professors/${encodeURIComponent(g.docId)}`}
+                    sx={{ color: 'primary.main', fontWeight: 600, fontSize: '0.875rem' }}
+                  >
+                    {g.professor}
+                  </Link>
+                  {g.url && (
+                    <Link
+                      href={g.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title={t.openProfile}
+                      sx={{ display: 'flex', color: 'text.secondary' }}
+                    >
+                      <OpenInNewIcon sx={{ fontSize: 14 }} />
+                    </Link>
+                  )}
+                </Stack>
+                <Chip
+                  label={percent(g.best)}
+                  size="small"
+                  sx={{
+                    height: 24,
+                    bgcolor: alpha(theme.palette.success.main, 0.08),
+                    color: 'success.dark',
+                    fontWeight: 700,
+                    fontSize: '0.7rem',
+                  }}
+                />
+              </Stack>
+
+              <Stack spacing={0.75} sx={{ mt: 1 }}>
+                {g.matches.map((m, idx) => (
+                  <Stack key={idx} direction="row" spacing={1} alignItems="flex-start">
+                    <Typography variant="caption" color="text.secondary" sx={{ flex: 1, lineHeight: 1.5 }}>
+                      {m.chunkBlock && (
+                        <Box component="span" sx={{ fontWeight: 700 }}>
+                          {m.chunkBlock}:{' '}
+                        </Box>
+                      )}
+                      {m.snippet}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" sx={{ flexShrink: 0, fontWeight: 600 }}>
+                      {percent(m.score)}
+                    </Typography>
+                  </Stack>
+                ))}
+              </Stack>
+            </CardContent>
+          </Card>
+        ))}
+      </Stack>
+
+      {hasMore && onLoadMore && (
+        <Box sx={{ mt: 1, display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Button
+            size="small"
+            onClick={loadMore}
+            disabled={loading}
+            startIcon={loading ? <CircularProgress size={14} /> : undefined}
+            sx={{ fontWeight: 600, fontSize: '0.75rem' }}
+          >
+            {t.loadMore}
+          </Button>
+          {failed && (
+            <Typography variant="caption" color="error.main">
+              {t.loadMoreFailed}
+            </Typography>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,153 @@
+// app/conversation-sidebar.tsx
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  DeleteOutline as DeleteIcon,
+  Link as LinkIcon,
+} from '@mui/icons-material';
+import type { ConversationSummary } from './conversation-storage';
+import type { Locale } from './i18n';
+import { useLocale } from './locale-provider';
+
+type ConversationSidebarProps = {
+  conversations: ConversationSummary[];
+  currentId: string | null;
+  local: boolean; // saved in this browser only
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+};
+
+function formatDate(iso: string, locale: Locale) {
+  const date = new Date(iso);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString(locale, { day: 'numeric', month: 'short' });
+}
+
+export function ConversationSidebar({
+  conversations,
+  currentId,
+  local,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}: ConversationSidebarProps) {
+  const { locale, t } = useLocale();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  function startRename(c: ConversationSummary) {
+    setEditingId(c.id);
+    setDraft(c.title);
+  }
+
+  function finishRename() {
+    const title = draft.trim();
+    if (editingId && title) onRename(editingId, title);
+    setEditingId(null);
+  }
+
+  return (
+    <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+      <Box sx={{ p: 2 }}>
+        <Button fullWidth variant="outlined" startIcon={<AddIcon />} onClick={onNew}>
+          {t.newChat}
+        </Button>
+      </Box>
+
+      <List dense sx={{ flex: 1, overflowY: 'auto', px: 1 }}>
+        {conversations.map((c) =>
+          editingId === c.id ? (
+            <Box key={c.id} sx={{ px: 1, py: 0.5 }}>
+              <TextField
+                size="small"
+                fullWidth
+                autoFocus
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') finishRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+              />
+            </Box>
+          ) : (
+            <ListItemButton
+              key={c.id}
+              selected={c.id === currentId}
+              onClick={() => onSelect(c.id)}
+              sx={{
+                borderRadius: 1,
+                pr: 0.5,
+                '& .conversation-actions': { visibility: 'hidden' },
+                '&:hover .conversation-actions, &.Mui-selected .conversation-actions': {
+                  visibility: 'visible',
+                },
+              }}
+            >
+              <ListItemText
+                primary={c.title}
+                secondary={formatDate(c.updatedAt, locale)}
+                primaryTypographyProps={{ noWrap: true, fontSize: '0.8125rem', fontWeight: 600 }}
+                secondaryTypographyProps={{ fontSize: '0.7rem' }}
+              />
+              {c.shared && <LinkIcon titleAccess={t.shared} sx={{ fontSize: 14, color: 'text.secondary', mx: 0.5 }} />}
+              <Stack direction="row" className="conversation-actions">
+                <IconButton
+                  size="small"
+                  title={t.rename}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    startRename(c);
+                  }}
+                >
+                  <EditIcon sx={{ fontSize: 16 }} />
+                </IconButton>
+                <IconButton
+                  size="small"
+                  title={t.delete}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(c.id);
+                  }}
+                >
+                  <DeleteIcon sx={{ fontSize: 16 }} />
+                </IconButton>
+              </Stack>
+            </ListItemButton>
+          )
+        )}
+        {conversations.length === 0 && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', px: 2, py: 1 }}>
+            {t.noConversations}
+          </Typography>
+        )}
+      </List>
+
+      {local && (
+        <Typography variant="caption" color="text.secondary" sx={{ px: 2, py: 1.5 }}>
+          {t.savedLocally}
+        </Typography>
+      )}
+    </Box>
+  );
+}
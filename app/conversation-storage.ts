@@ -0,0 +1,151 @@
+// app/conversation-storage.ts
+import type { Message } from './message-bubble';
+
+export type SavedMessage = Omit<Message, 'streaming'>;
+
+export type Conversation = {
+  id: string;
+  title: string;
+  updatedAt: string;
+  shareId?: string | null;
+  messages: SavedMessage[];
+};
+
+export type ConversationSummary = {
+  id: string;
+  title: string;
+  updatedAt: string;
+  shared?: boolean;
+};
+
+/**
+ * Where the chat keeps its conversations: the server store (tied to an anonymous
+ * session cookie) when it is reachable, otherwise this browser's localStorage.
+ * Only server-side conversations can be shared.
+ */
+export type ConversationStorage = {
+  kind: 'server' | 'local';
+  list(): Promise<ConversationSummary[]>;
+  get(id: string): Promise<Conversation | null>;
+  save(conversation: Omit<Conversation, 'updatedAt'>): Promise<void>;
+  rename(id: string, title: string): Promise<void>;
+  remove(id: string): Promise<void>;
+  share(id: string): Promise<string>; // share URL
+};
+
+const LOCAL_KEY = 'tum-prof-conversations';
+const CURRENT_KEY = 'tum-prof-current-conversation';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `Request failed with ${res.status}`);
+  return data as T;
+}
+
+const serverStorage: ConversationStorage = {
+  kind: 'server',
+  async list() {
+    return (await request<{ conversations: ConversationSummary[] }>('/api/conversations'))
+      .conversations;
+  },
+  async get(id) {
+    return request<Conversation>(`/api/conversations/${encodeURIComponent(id)}`).catch(() => null);
+  },
+  async save({ id, title, messages }) {
+    await request(`/api/conversations/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ title, messages }),
+    });
+  },
+  async rename(id, title) {
+    await request(`/api/conversations/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ title }),
+    });
+  },
+  async remove(id) {
+    await request(`/api/conversations/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
+  async share(id) {
+    return (
+      await request<{ url: string }>(`/api/conversations/${encodeURIComponent(id)}/share`, {
+        method: 'POST',
+      })
+    ).url;
+  },
+};
+
+function readLocal(): Record<string, Conversation> {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writeLocal(all: Record<string, Conversation>) {
+  localStorage.setItem(LOCAL_KEY, JSON.stringify(all));
+}
+
+const localStorageBackend: ConversationStorage = {
+  kind: 'local',
+  async list() {
+    return Object.values(readLocal())
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map(({ id, title, updatedAt }) => ({ id, title, updatedAt }));
+  },
+  async get(id) {
+    return readLocal()[id] ?? null;
+  },
+  async save(conversation) {
+    const all = readLocal();
+    all[conversation.id] = { ...conversation, updatedAt: new Date().toISOString() };
+    writeLocal(all);
+  },
+  async rename(id, title) {
+    const all = readLocal();
+    if (all[id]) all[id] = { ...all[id], title, updatedAt: new Date().toISOString() };
+    writeLocal(all);
+  },
+  async remove(id) {
+    const all = readLocal();
+    delete all[id];
+    writeLocal(all);
+  },
+  async share() {
+    throw new Error('Sharing needs the conversation server, which is not reachable');
+  },
+};
+
+/** The server store if it answers, else localStorage. Decided once per page load. */
+export async function openConversationStorage(): Promise<ConversationStorage> {
+  try {
+    await serverStorage.list();
+    return serverStorage;
+  } catch {
+    return localStorageBackend;
+  }
+}
+
+// The open conversation survives a page refresh.
+export function getCurrentConversationId() {
+  return localStorage.getItem(CURRENT_KEY);
+}
+
+export function setCurrentConversationId(id: string | null) {
+  if (id) localStorage.setItem(CURRENT_KEY, id);
+  else localStorage.removeItem(CURRENT_KEY);
+}
+
+export function newConversationId() {
+  return crypto.randomUUID();
+}
+
+export function titleFromQuestion(question: string) {
+  const title = question.replace(/\s+/g, ' ').trim();
+  return title.length > 60 ? `${title.slice(0, 57)}...` : title;
+}
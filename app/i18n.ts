@@ -0,0 +1,203 @@
+// app/i18n.ts
+import { LANGUAGES, isLanguage, type Language } from '@/lib/prof-query/language';
+import type { RetrievalConfig } from '@/lib/prof-query/config';
+
+// UI strings of the chat page. Shared by the root layout (server) and the client
+// components, so nothing here may depend on the browser.
+
+export type Locale = Language;
+
+export const LOCALES: Locale[] = LANGUAGES;
+
+// Each language's name in itself, for the switcher
+export const LOCALE_NAMES: Record<Locale, string> = { en: 'English', de: 'Deutsch' };
+
+export const LOCALE_COOKIE = 'locale';
+
+/** The saved choice if there is one, else the browser's preferred supported language. */
+export function resolveLocale(saved: string | undefined, acceptLanguage: string | null): Locale {
+  if (isLanguage(saved)) return saved;
+  const preferred = (acceptLanguage ?? '')
+    .split(',')
+    .map((part) => part.split(';')[0].trim().slice(0, 2).toLowerCase())
+    .find(isLanguage);
+  return preferred ?? 'en';
+}
+
+type OptionText = { label: string; description: string };
+
+const en = {
+  title: 'TUM Professor Search',
+  description: 'Ask questions about TUM professors',
+  assistantName: 'TUM Professor Assistant',
+  tagline: 'Ask questions about TUM professors and their research',
+  welcome:
+    "Hello! I'm your TUM professor assistant. I can help you discover researchers based on their expertise.\n\nTry asking:",
+  examples: [
+    'Who works on quantum computing and cryptography?',
+    'Which professor focuses on AI for medical imaging?',
+    'Who is working on robotics for surgery?',
+  ],
+  placeholder: 'Ask something like: "Who works on quantum computing?"',
+  thinking: 'Thinking...',
+  you: 'You',
+  assistant: 'Assistant',
+  sources: (n: number) => `${n} source${n === 1 ? '' : 's'}`,
+  openProfile: 'Open TUM profile page',
+  aspect: 'Aspect',
+  notInSources: 'Not in the sources',
+  recommended: 'Recommended professors',
+  helpful: 'Helpful answer',
+  notHelpful: 'Wrong or unhelpful answer',
+  feedbackComment: 'What was wrong or missing? (optional)',
+  feedbackSend: 'Send',
+  feedbackThanks: 'Thanks for your feedback!',
+  feedbackFailed: 'Could not send your feedback',
+  modeAnswer: 'Answer',
+  modeBrowse: 'Browse results',
+  modeAnswerHint: 'Get a written answer with its sources',
+  modeBrowseHint: 'List the matching profile sections by professor, without an answer',
+  browsePlaceholder: 'Search the profiles, e.g. "quantum computing"',
+  browseResults: (question: string) => `Profile sections matching “${question}”`,
+  browseEmpty: 'No profile sections match this search.',
+  browseCount: (professors: number, matches: number) =>
+    `${matches} match${matches === 1 ? '' : 'es'} from ${professors} professor${professors === 1 ? '' : 's'}`,
+  sortByScore: 'Best match',
+  sortByName: 'Name',
+  loadMore: 'Load more results',
+  loadMoreFailed: 'Could not load more results',
+  suggestionKinds: { professor: 'Professor', chair: 'Chair', topic: 'Research topic' },
+  suggestionProfessors: (n: number) => `${n} professor${n === 1 ? '' : 's'}`,
+  conversations: 'Conversations',
+  newChat: 'New chat',
+  noConversations: 'Your conversations will appear here.',
+  savedLocally: 'Saved in this browser only.',
+  shared: 'Shared',
+  rename: 'Rename',
+  delete: 'Delete',
+  share: 'Copy a read-only link to this conversation',
+  browse: 'Browse all professors',
+  colorMode: 'Switch between light and dark mode',
+  language: 'Language',
+  shareCopied: (url: string) => `Share link copied: ${url}`,
+  saveFailed: (reason: string) => `Could not save this conversation: ${reason}`,
+  conversationGone: 'This conversation no longer exists.',
+  renameFailed: 'Could not rename the conversation',
+  deleteFailed: 'Could not delete the conversation',
+  shareFailed: 'Could not share the conversation',
+  requestFailed: (status: number) => `Request failed with ${status}`,
+  noAnswer: 'No answer returned.',
+  genericError: 'Something went wrong',
+  rateLimited: (seconds: number) =>
+    `You're asking faster than we can answer. You can send your question again in ${seconds} second${seconds === 1 ? '' : 's'}.`,
+  advanced: 'Advanced',
+  filters: 'Filters',
+  clearAll: 'Clear all',
+  facets: { school: 'School', department: 'Department', topics: 'Research area' },
+  retrievalOptions: 'Retrieval options',
+  resetOptions: 'Reset to defaults',
+  // English labels and descriptions come from the options schema
+  options: {} as Partial<Record<keyof RetrievalConfig, OptionText>>,
+};
+
+export type UiStrings = typeof en;
+
+const de: UiStrings = {
+  title: 'TUM Professorensuche',
+  description: 'Fragen zu Professorinnen und Professoren der TUM',
+  assistantName: 'TUM Professoren-Assistent',
+  tagline: 'Fragen Sie nach Professorinnen und Professoren der TUM und ihrer Forschung',
+  welcome:
+    'Hallo! Ich bin Ihr Assistent für die Professorinnen und Professoren der TUM. Ich helfe Ihnen, Forschende nach ihrer Expertise zu finden.\n\nFragen Sie zum Beispiel:',
+  examples: [
+    'Wer forscht an Quantencomputing und Kryptographie?',
+    'Welche Professur beschäftigt sich mit KI für die medizinische Bildgebung?',
+    'Wer arbeitet an Robotik für die Chirurgie?',
+  ],
+  placeholder: 'Fragen Sie zum Beispiel: „Wer forscht an Quantencomputing?“',
+  thinking: 'Einen Moment...',
+  you: 'Sie',
+  assistant: 'Assistent',
+  sources: (n: number) => `${n} ${n === 1 ? 'Quelle' : 'Quellen'}`,
+  openProfile: 'TUM-Profilseite öffnen',
+  aspect: 'Aspekt',
+  notInSources: 'Nicht in den Quellen',
+  recommended: 'Empfohlene Professorinnen und Professoren',
+  helpful: 'Hilfreiche Antwort',
+  notHelpful: 'Falsche oder wenig hilfreiche Antwort',
+  feedbackComment: 'Was war falsch oder hat gefehlt? (optional)',
+  feedbackSend: 'Senden',
+  feedbackThanks: 'Danke für Ihr Feedback!',
+  feedbackFailed: 'Ihr Feedback konnte nicht gesendet werden',
+  modeAnswer: 'Antwort',
+  modeBrowse: 'Treffer durchsuchen',
+  modeAnswerHint: 'Eine ausformulierte Antwort mit Quellen erhalten',
+  modeBrowseHint: 'Passende Profilabschnitte nach Professur auflisten, ohne Antwort',
+  browsePlaceholder: 'Profile durchsuchen, z. B. „Quantencomputing“',
+  browseResults: (question: string) => `Profilabschnitte zu „${question}“`,
+  browseEmpty: 'Keine Profilabschnitte passen zu dieser Suche.',
+  browseCount: (professors: number, matches: number) =>
+    `${matches} Treffer von ${professors} ${professors === 1 ? 'Professur' : 'Professuren'}`,
+  sortByScore: 'Relevanz',
+  sortByName: 'Name',
+  loadMore: 'Weitere Treffer laden',
+  loadMoreFailed: 'Weitere Treffer konnten nicht geladen werden',
+  suggestionKinds: { professor: 'Professur', chair: 'Lehrstuhl', topic: 'Forschungsthema' },
+  suggestionProfessors: (n: number) => `${n} ${n === 1 ? 'Professur' : 'Professuren'}`,
+  conversations: 'Unterhaltungen',
+  newChat: 'Neuer Chat',
+  noConversations: 'Hier erscheinen Ihre Unterhaltungen.',
+  savedLocally: 'Nur in diesem Browser gespeichert.',
+  shared: 'Geteilt',
+  rename: 'Umbenennen',
+  delete: 'Löschen',
+  share: 'Link zum Lesen dieser Unterhaltung kopieren',
+  browse: 'Alle Professorinnen und Professoren',
+  colorMode: 'Zwischen hellem und dunklem Design wechseln',
+  language: 'Sprache',
+  shareCopied: (url: string) => `Link kopiert: ${url}`,
+  saveFailed: (reason: string) => `Die Unterhaltung konnte nicht gespeichert werden: ${reason}`,
+  conversationGone: 'Diese Unterhaltung gibt es nicht mehr.',
+  renameFailed: 'Die Unterhaltung konnte nicht umbenannt werden',
+  deleteFailed: 'Die Unterhaltung konnte nicht gelöscht werden',
+  shareFailed: 'Die Unterhaltung konnte nicht geteilt werden',
+  requestFailed: (status: number) => `Anfrage fehlgeschlagen (${status})`,
+  noAnswer: 'Keine Antwort erhalten.',
+  genericError: 'Etwas ist schiefgelaufen',
+  rateLimited: (seconds: number) =>
+    `Sie fragen schneller, als wir antworten können. Sie können Ihre Frage in ${seconds} ${seconds === 1 ? 'Sekunde' : 'Sekunden'} erneut senden.`,
+  advanced: 'Erweitert',
+  filters: 'Filter',
+  clearAll: 'Alle entfernen',
+  facets: { school: 'School', department: 'Lehrstuhl', topics: 'Forschungsgebiet' },
+  retrievalOptions: 'Sucheinstellungen',
+  resetOptions: 'Zurücksetzen',
+  options: {
+    summaryTopK: {
+      label: 'Professuren',
+      description: 'Professuren, an die die Frage weitergeleitet wird',
+    },
+    chunkTopK: {
+      label: 'Abschnitte',
+      description: 'Profilabschnitte, die von diesen Professuren geladen werden',
+    },
+    minChunks: {
+      label: 'Mindestabschnitte',
+      description: 'Alle Professuren durchsuchen, wenn weniger Abschnitte gefunden werden',
+    },
+    pickCount: {
+      label: 'Quellen',
+      description: 'Abschnitte, die dem Modell als Quellen dienen',
+    },
+    diversity: {
+      label: 'Vielfalt',
+      description: 'Bevorzugt Quellen von verschiedenen Professuren und Abschnitten',
+    },
+    historyMessages: {
+      label: 'Verlauf',
+      description: 'Frühere Nachrichten, um Folgefragen zu verstehen',
+    },
+  },
+};
+
+export const STRINGS: Record<Locale, UiStrings> = { en, de };
@@ -1,16 +1,26 @@
 // app/layout.tsx
 import type { Metadata } from 'next';
 import { ReactNode } from 'react';
+import { cookies, headers } from 'next/headers';
+import LocaleProvider from './locale-provider';
 import ThemeProvider from './theme-provider';
+import { LOCALE_COOKIE, STRINGS, resolveLocale } from './i18n';
 
-export const metadata: Metadata = {
-  title: 'TUM Professor Search',
-  description: 'Ask questions about TUM professors',
-};
+async function requestLocale() {
+  const [cookieStore, headerList] = await Promise.all([cookies(), headers()]);
+  return resolveLocale(cookieStore.get(LOCALE_COOKIE)?.value, headerList.get('accept-language'));
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = STRINGS[await requestLocale()];
+  return { title: t.title, description: t.description };
+}
+
+export default async function RootLayout({ children }: { children: ReactNode }) {
+  const locale = await requestLocale();
 
-export default function RootLayout({ children }: { children: ReactNode }) {
   return (
-    <html lang="en">
+    <html lang={locale}>
       <head>
         <link rel="preconnect" href="https://fonts.googleapis.com" />
         <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
@@ -20,8 +30,10 @@ export default function RootLayout({ children }: { children: ReactNode }) {
         />
       </head>
       <body>
-        <ThemeProvider>{children}</ThemeProvider>
+        <LocaleProvider initialLocale={locale}>
+          <ThemeProvider>{children}</ThemeProvider>
+        </LocaleProvider>
       </body>
     </html>
   );
-}
\ No newline at end of file
+}
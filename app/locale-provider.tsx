@@ -0,0 +1,45 @@
+// app/locale-provider.tsx
+'use client';
+
+import { ReactNode, createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { LOCALE_COOKIE, STRINGS, type Locale, type UiStrings } from './i18n';
+
+// Locale context
+interface LocaleContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: UiStrings;
+}
+
+const LocaleContext = createContext<LocaleContextType>({
+  locale: 'en',
+  setLocale: () => {},
+  t: STRINGS.en,
+});
+
+export const useLocale = () => useContext(LocaleContext);
+
+/** `initialLocale` is resolved by the root layout, so the first render is already translated. */
+export default function LocaleProvider({
+  initialLocale,
+  children,
+}: {
+  initialLocale: Locale;
+  children: ReactNode;
+}) {
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    // the cookie lets the layout render the right language on the next visit
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=31536000; samesite=lax`;
+    document.documentElement.lang = next;
+  }, []);
+
+  const contextValue = useMemo(
+    () => ({ locale, setLocale, t: STRINGS[locale] }),
+    [locale, setLocale]
+  );
+
+  return <LocaleContext.Provider value={contextValue}>{children}</LocaleContext.Provider>;
+}
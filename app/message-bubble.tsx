@@ -0,0 +1,603 @@
+// app/message-bubble.tsx
+'use client';
+
+import { useState, ReactNode } from 'react';
+import NextLink from 'next/link';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Avatar,
+  Chip,
+  Link,
+  Collapse,
+  Button,
+  IconButton,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import {
+  ExpandMore as ExpandMoreIcon,
+  ExpandLess as ExpandLessIcon,
+  School as SchoolIcon,
+  Person as PersonIcon,
+  OpenInNew as OpenInNewIcon,
+  ThumbUpOutlined as ThumbUpOutlinedIcon,
+  ThumbUp as ThumbUpIcon,
+  ThumbDownOutlined as ThumbDownOutlinedIcon,
+  ThumbDown as ThumbDownIcon,
+} from '@mui/icons-material';
+import { BrowseResults } from './browse-results';
+import { useLocale } from './locale-provider';
+import type { BrowsePosition } from '@/lib/conversations/types';
+import type { FeedbackRating } from '@/lib/feedback/types';
+import type { Comparison, MatchForClient, Recommendation } from '@/lib/prof-query/types';
+
+// -------------------- Types --------------------
+
+export type Match = MatchForClient;
+
+export type Message = {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  matches?: Match[];
+  comparison?: Comparison; // shown as a table instead of `content`
+  recommendations?: Recommendation[]; // ranked professor cards above the sources
+  rewrittenQuestion?: string;
+  feedback?: FeedbackRating; // set once feedback was sent
+  browse?: BrowsePosition; // browse-mode results: `matches` grouped by professor, no answer
+  streaming?: boolean;
+};
+
+// -------------------- Message Bubble --------------------
+
+export type MessageBubbleProps = {
+  message: Message;
+  expandedId: string | null;
+  setExpandedId: (id: string | null) => void;
+  // without it (e.g. on shared conversations) there are no feedback buttons
+  onFeedback?: (message: Message, rating: FeedbackRating, comment: string) => Promise<boolean>;
+  onLoadMore?: (message: Message) => Promise<boolean>; // next page of browse-mode results
+};
+
+const sourceElementId = (messageId: string, n: number) => `source-${messageId}-${n}`;
+
+// Turns "[2]" markers into clickable superscripts; markers without a matching source stay text.
+function renderWithCitations(content: string, sourceCount: number, onCite: (n: number) => void) {
+  const parts: ReactNode[] = [];
+  let last = 0;
+
+  for (const m of content.matchAll(/\[(\d+)\]/g)) {
+    const n = Number(m[1]);
+    if (n < 1 || n > sourceCount) continue;
+    parts.push(content.slice(last, m.index));
+    parts.push(
+      <Box component="sup" key={`${m.index}-${n}`} sx={{ lineHeight: 0 }}>
+        <Link
+          component="button"
+          type="button"
+          onClick={() => onCite(n)}
+          sx={{
+            fontSize: '0.7rem',
+            fontWeight: 700,
+            color: 'primary.main',
+            px: 0.25,
+            verticalAlign: 'baseline',
+          }}
+        >
+          [{n}]
+        </Link>
+      </Box>
+    );
+    last = m.index + m[0].length;
+  }
+  parts.push(content.slice(last));
+  return parts;
+}
+
+type ComparisonTableProps = {
+  comparison: Comparison;
+  sourceCount: number;
+  onCite: (n: number) => void;
+};
+
+function ComparisonTable({ comparison, sourceCount, onCite }: ComparisonTableProps) {
+  const { t } = useLocale();
+  const withMarkers = (text: string, citations: number[]) =>
+    renderWithCitations(`${text}${citations.map((n) => `[${n}]`).join('')}`, sourceCount, onCite);
+
+  return (
+    <>
+      {comparison.summary && (
+        <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', lineHeight: 1.6, mb: 1.5 }}>
+          {renderWithCitations(comparison.summary, sourceCount, onCite)}
+        </Typography>
+      )}
+      <Box sx={{ overflowX: 'auto' }}>
+        <Table size="small" sx={{ '& td, & th': { verticalAlign: 'top', px: 1, fontSize: '0.8rem' } }}>
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 700 }}>{t.aspect}</TableCell>
+              {comparison.professors.map((p) => (
+                <TableCell key={p.docId} sx={{ fontWeight: 700 }}>
+                  <Link
+                    component={NextLink}
+                    href={`/professors/${encodeURIComponent(p.docId)}`}
+                    sx={{ color: 'primary.main' }}
+                  >
+                    {p.professor}
+                  </Link>
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {comparison.aspects.map((aspect) => (
+              <TableRow key={aspect.name}>
+                <TableCell component="th" scope="row" sx={{ fontWeight: 600 }}>
+                  {aspect.name}
+                </TableCell>
+                {aspect.cells.map((cell, i) => (
+                  <TableCell key={comparison.professors[i].docId}>
+                    {cell.text ? (
+                      withMarkers(cell.text, cell.citations)
+                    ) : (
+                      <Box component="span" sx={{ color: 'text.secondary' }}>
+                        {t.notInSources}
+                      </Box>
+                    )}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Box>
+    </>
+  );
+}
+
+type RecommendationListProps = {
+  messageId: string;
+  recommendations: Recommendation[];
+  matches: Match[];
+  highlighted: number | null;
+};
+
+// One card per recommended professor, holding that professor's numbered sources, so
+// citations in the answer scroll to the right card.
+function RecommendationList({ messageId, recommendations, matches, highlighted }: RecommendationListProps) {
+  const theme = useTheme();
+  const { t } = useLocale();
+
+  return (
+    <Box sx={{ mt: 1.5 }}>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1, fontWeight: 700 }}>
+        {t.recommended}
+      </Typography>
+      <Stack spacing={1}>
+        {recommendations.map((r, idx) => (
+          <Card
+            key={r.docId}
+            variant="outlined"
+            sx={{ borderColor: alpha(theme.palette.grey[500], 0.16), boxShadow: 'none' }}
+          >
+            <CardContent sx={{ p: 1.5, '&:last-child': { pb: 1.5 } }}>
+              <Stack direction="row" justifyContent="space-between" alignItems="center" spacing={1}>
+                <Stack direction="row" spacing={1} alignItems="center" sx={{ minWidth: 0 }}>
+                  <Typography variant="caption" color="text.secondary" fontWeight={700}>
+                    {idx + 1}.
+                  </Typography>
+                  <Link
+                    component={NextLink}
+                    href={`/professors/${encodeURIComponent(r.docId)}`}
+                    sx={{ color: 'primary.main', fontWeight: 600, fontSize: '0.875rem' }}
+                  >
+                    {r.professor}
+                  </Link>
+                  {r.url && (
+                    <Link
+                      href={r.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title={t.openProfile}
+                      sx={{ display: 'flex', color: 'text.secondary' }}
+                    >
+                      <OpenInNewIcon sx={{ fontSize: 14 }} />
+                    </Link>
+                  )}
+                </Stack>
+                <Chip
+                  label={`${(r.score * 100).toFixed(0)}%`}
+                  size="small"
+                  sx={{
+                    height: 24,
+                    bgcolor: alpha(theme.palette.success.main, 0.08),
+                    color: 'success.dark',
+                    fontWeight: 700,
+                    fontSize: '0.7rem',
+                  }}
+                />
+              </Stack>
+
+              <Typography variant="body2" sx={{ mt: 0.75, lineHeight: 1.5 }}>
+                {r.reason}
+              </Typography>
+
+              {r.sections.length > 0 && (
+                <Stack direction="row" spacing={0.5} useFlexGap flexWrap="wrap" sx={{ mt: 1 }}>
+                  {r.sections.map((section) => (
+                    <Chip key={section} label={section} size="small" variant="outlined" sx={{ height: 22, fontSize: '0.7rem' }} />
+                  ))}
+                </Stack>
+              )}
+
+              <Stack spacing={0.75} sx={{ mt: 1.25 }}>
+                {r.citations
+                  .filter((n) => matches[n - 1])
+                  .map((n) => (
+                    <Stack
+                      key={n}
+                      id={sourceElementId(messageId, n)}
+                      direction="row"
+                      spacing={1}
+                      sx={{
+                        p: 0.75,
+                        borderRadius: 1,
+                        border: 1,
+                        borderColor: highlighted === n ? 'primary.main' : 'transparent',
+                        scrollMarginTop: 16,
+                        transition: 'border-color 0.3s',
+                      }}
+                    >
+                      <Typography variant="caption" color="primary.main" fontWeight={700}>
+                        [{n}]
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" sx={{ lineHeight: 1.5 }}>
+                        {matches[n - 1].chunkBlock && (
+                          <Box component="span" sx={{ fontWeight: 700 }}>
+                            {matches[n - 1].chunkBlock}:{' '}
+                          </Box>
+                        )}
+                        {matches[n - 1].snippet}
+                      </Typography>
+                    </Stack>
+                  ))}
+              </Stack>
+            </CardContent>
+          </Card>
+        ))}
+      </Stack>
+    </Box>
+  );
+}
+
+type FeedbackControlsProps = {
+  sent?: FeedbackRating;
+  onSubmit: (rating: FeedbackRating, comment: string) => Promise<boolean>;
+};
+
+// Thumbs up/down; picking one opens an optional comment, and Send records both.
+function FeedbackControls({ sent, onSubmit }: FeedbackControlsProps) {
+  const { t } = useLocale();
+  const [rating, setRating] = useState<FeedbackRating | null>(null);
+  const [comment, setComment] = useState('');
+  const [sending, setSending] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const shown = sent ?? rating;
+
+  async function submit() {
+    if (!rating) return;
+    setSending(true);
+    setFailed(false);
+    const ok = await onSubmit(rating, comment.trim());
+    setSending(false);
+    setFailed(!ok);
+  }
+
+  return (
+    <Box sx={{ mt: 0.5 }}>
+      <Stack direction="row" spacing={0.5} alignItems="center">
+        <IconButton
+          size="small"
+          title={t.helpful}
+          disabled={!!sent || sending}
+          onClick={() => setRating('up')}
+          sx={{ color: shown === 'up' ? 'success.main' : 'text.secondary' }}
+        >
+          {shown === 'up' ? <ThumbUpIcon sx={{ fontSize: 16 }} /> : <ThumbUpOutlinedIcon sx={{ fontSize: 16 }} />}
+        </IconButton>
+        <IconButton
+          size="small"
+          title={t.notHelpful}
+          disabled={!!sent || sending}
+          onClick={() => setRating('down')}
+          sx={{ color: shown === 'down' ? 'error.main' : 'text.secondary' }}
+        >
+          {shown === 'down' ? (
+            <ThumbDownIcon sx={{ fontSize: 16 }} />
+          ) : (
+            <ThumbDownOutlinedIcon sx={{ fontSize: 16 }} />
+          )}
+        </IconButton>
+        {sent && (
+          <Typography variant="caption" color="text.secondary">
+            {t.feedbackThanks}
+          </Typography>
+        )}
+      </Stack>
+
+      <Collapse in={!!rating && !sent}>
+        <Stack direction="row" spacing={1} alignItems="flex-start" sx={{ mt: 0.5 }}>
+          <TextField
+            size="small"
+            fullWidth
+            multiline
+            maxRows={4}
+            placeholder={t.feedbackComment}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            slotProps={{ htmlInput: { maxLength: 2000 } }}
+          />
+          <Button size="small" variant="contained" onClick={submit} disabled={sending} sx={{ flexShrink: 0 }}>
+            {t.feedbackSend}
+          </Button>
+        </Stack>
+        {failed && (
+          <Typography variant="caption" color="error.main">
+            {t.feedbackFailed}
+          </Typography>
+        )}
+      </Collapse>
+    </Box>
+  );
+}
+
+export function MessageBubble({
+  message,
+  expandedId,
+  setExpandedId,
+  onFeedback,
+  onLoadMore,
+}: MessageBubbleProps) {
+  const theme = useTheme();
+  const { t } = useLocale();
+  const isUser = message.role === 'user';
+  const matches = message.matches || [];
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+  const [pendingScroll, setPendingScroll] = useState<number | null>(null);
+  // professor cards replace the per-chunk source list
+  const recommended = !isUser && !message.streaming && !!message.recommendations?.length;
+
+  function scrollToSource(n: number) {
+    document
+      .getElementById(sourceElementId(message.id, n))
+      ?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }
+
+  function openSource(n: number) {
+    setHighlighted(n);
+    if (recommended || expandedId === message.id) {
+      scrollToSource(n);
+    } else {
+      // wait for the Collapse to open, otherwise there is nothing to scroll to yet
+      setPendingScroll(n);
+      setExpandedId(message.id);
+    }
+  }
+
+  return (
+    <Stack
+      direction="row"
+      spacing={2}
+      alignItems="flex-start"
+      justifyContent={isUser ? 'flex-end' : 'flex-start'}
+    >
+      {!isUser && (
+        <Avatar sx={{ width: 36, height: 36, bgcolor: 'primary.main' }}>
+          <SchoolIcon sx={{ fontSize: 20 }} />
+        </Avatar>
+      )}
+
+      <Box sx={{ maxWidth: message.comparison ? '90%' : '75%', minWidth: 0 }}>
+        <Box
+          sx={{
+            bgcolor: isUser ? 'primary.main' : alpha(theme.palette.grey[500], 0.08),
+            color: isUser ? 'primary.contrastText' : 'text.primary',
+            borderRadius: 2,
+            px: 2.5,
+            py: 1.5,
+          }}
+        >
+          <Typography variant="caption" sx={{ display: 'block', mb: 0.5, opacity: 0.72, fontWeight: 600 }}>
+            {isUser ? t.you : t.assistant}
+          </Typography>
+          {message.comparison ? (
+            <ComparisonTable
+              comparison={message.comparison}
+              sourceCount={matches.length}
+              onCite={openSource}
+            />
+          ) : (
+            <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', lineHeight: 1.6 }}>
+              {isUser
+                ? message.content
+                : renderWithCitations(message.content, matches.length, openSource)}
+              {message.streaming && (
+                <Box
+                  component="span"
+                  sx={{
+                    display: 'inline-block',
+                    width: '0.5em',
+                    height: '1em',
+                    ml: 0.25,
+                    verticalAlign: 'text-bottom',
+                    bgcolor: 'text.secondary',
+                    animation: 'blink 1s steps(2, start) infinite',
+                    '@keyframes blink': { to: { visibility: 'hidden' } },
+                  }}
+                />
+              )}
+            </Typography>
+          )}
+        </Box>
+
+        {!isUser && onFeedback && !message.streaming && (
+          <FeedbackControls
+            sent={message.feedback}
+            onSubmit={(rating, comment) => onFeedback(message, rating, comment)}
+          />
+        )}
+
+        {recommended && (
+          <RecommendationList
+            messageId={message.id}
+            recommendations={message.recommendations ?? []}
+            matches={matches}
+            highlighted={highlighted}
+          />
+        )}
+
+        {message.browse && (
+          <BrowseResults
+            matches={matches}
+            hasMore={message.browse.hasMore}
+            onLoadMore={onLoadMore && (() => onLoadMore(message))}
+          />
+        )}
+
+        {!isUser && !recommended && !message.browse && matches.length > 0 && (
+          <Box sx={{ mt: 1.5 }}>
+            <Button
+              size="small"
+              onClick={() => setExpandedId(expandedId === message.id ? null : message.id)}
+              endIcon={
+                expandedId === message.id ? (
+                  <ExpandLessIcon sx={{ fontSize: 18 }} />
+                ) : (
+                  <ExpandMoreIcon sx={{ fontSize: 18 }} />
+                )
+              }
+              sx={{
+                color: 'text.secondary',
+                fontWeight: 600,
+                fontSize: '0.75rem',
+                '&:hover': { bgcolor: alpha(theme.palette.grey[500], 0.08) },
+              }}
+            >
+              {t.sources(matches.length)}
+            </Button>
+
+            <Collapse
+              in={expandedId === message.id}
+              onEntered={() => {
+                if (pendingScroll) scrollToSource(pendingScroll);
+                setPendingScroll(null);
+              }}
+            >
+              <Stack spacing={1.5} sx={{ mt: 1.5 }}>
+                {matches.map((m, idx) => (
+                  <Card
+                    key={m.url + idx}
+                    id={sourceElementId(message.id, idx + 1)}
+                    variant="outlined"
+                    sx={{
+                      borderColor:
+                        highlighted === idx + 1 ? 'primary.main' : alpha(theme.palette.grey[500], 0.16),
+                      boxShadow: 'none',
+                      scrollMarginTop: 16,
+                      transition: 'border-color 0.3s',
+                    }}
+                  >
+                    <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+                      <Stack direction="row" justifyContent="space-between" alignItems="flex-start" spacing={1}>
+                        <Stack direction="row" spacing={1.5} alignItems="center">
+                          <Avatar
+                            sx={{
+                              width: 32,
+                              height: 32,
+                              bgcolor: alpha(theme.palette.primary.main, 0.08),
+                              color: 'primary.main',
+                            }}
+                          >
+                            <Typography variant="caption" fontWeight={700}>
+                              {idx + 1}
+                            </Typography>
+                          </Avatar>
+                          <Link
+                            component={NextLink}
+                            href={m.docId ? `/professors/${encodeURIComponent(m.docId)}` : m.url}
+                            sx={{
+                              color: 'primary.main',
+                              fontWeight: 600,
+                              fontSize: '0.875rem',
+                              '&:hover': { color: 'primary.dark' },
+                            }}
+                          >
+                            {m.professor}
+                          </Link>
+                          {m.url && (
+                            <Link
+                              href={m.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              title={t.openProfile}
+                              sx={{ display: 'flex', color: 'text.secondary' }}
+                            >
+                              <OpenInNewIcon sx={{ fontSize: 14 }} />
+                            </Link>
+                          )}
+                        </Stack>
+                        <Chip
+                          label={`${(m.score * 100).toFixed(0)}%`}
+                          size="small"
+                          sx={{
+                            height: 24,
+                            bgcolor: alpha(theme.palette.success.main, 0.08),
+                            color: 'success.dark',
+                            fontWeight: 700,
+                            fontSize: '0.7rem',
+                          }}
+                        />
+                      </Stack>
+
+                      {m.chunkBlock && (
+                        <Typography
+                          variant="caption"
+                          color="text.secondary"
+                          sx={{ display: 'block', mt: 1, fontWeight: 700 }}
+                        >
+                          {m.chunkBlock}
+                        </Typography>
+                      )}
+
+                      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.75, lineHeight: 1.5 }}>
+                        {m.snippet}
+                      </Typography>
+                    </CardContent>
+                  </Card>
+                ))}
+              </Stack>
+            </Collapse>
+          </Box>
+        )}
+      </Box>
+
+      {isUser && (
+        <Avatar sx={{ width: 36, height: 36, bgcolor: 'secondary.main' }}>
+          <PersonIcon sx={{ fontSize: 20 }} />
+        </Avatar>
+      )}
+    </Stack>
+  );
+}
@@ -1,11 +1,11 @@
 // app/page.tsx
 'use client';
 
-import { useState, KeyboardEvent } from 'react';
+import { useEffect, useState, KeyboardEvent } from 'react';
+import NextLink from 'next/link';
 import {
   Box,
   Card,
-  CardContent,
   Typography,
   TextField,
   IconButton,
@@ -13,10 +13,17 @@ import {
   Avatar,
   Chip,
   Link,
-  Collapse,
   Button,
   CircularProgress,
   InputAdornment,
+  Menu,
+  MenuItem,
+  ListSubheader,
+  Drawer,
+  Snackbar,
+  Collapse,
+  ToggleButton,
+  ToggleButtonGroup,
   alpha,
   useTheme,
 } from '@mui/material';
@@ -24,33 +31,56 @@ import {
   Send as SendIcon,
   DarkMode as DarkModeIcon,
   LightMode as LightModeIcon,
-  ExpandMore as ExpandMoreIcon,
-  ExpandLess as ExpandLessIcon,
   School as SchoolIcon,
-  Person as PersonIcon,
-  OpenInNew as OpenInNewIcon,
+  Groups as GroupsIcon,
+  FilterList as FilterListIcon,
+  Check as CheckIcon,
+  History as HistoryIcon,
+  Share as ShareIcon,
+  Tune as TuneIcon,
+  Translate as TranslateIcon,
+  Forum as ForumIcon,
+  ManageSearch as ManageSearchIcon,
 } from '@mui/icons-material';
+import { AdvancedOptions, type OptionsSchema, type RetrievalOptions } from './advanced-options';
+import { ConversationSidebar } from './conversation-sidebar';
+import {
+  getCurrentConversationId,
+  newConversationId,
+  openConversationStorage,
+  setCurrentConversationId,
+  titleFromQuestion,
+  type ConversationStorage,
+  type ConversationSummary,
+} from './conversation-storage';
+import { LOCALES, LOCALE_NAMES } from './i18n';
+import { useLocale } from './locale-provider';
+import { MessageBubble, type Message } from './message-bubble';
+import { SuggestionPopper, applySuggestion, useSuggestions } from './query-suggestions';
 import { useColorMode } from './theme-provider';
+import { isApiError, parseStreamEvent } from '@/lib/prof-query/contract';
+import type { FeedbackRating } from '@/lib/feedback/types';
+import type { Suggestion } from '@/lib/suggest/types';
+import type {
+  BrowseResponse,
+  ChatMsg,
+  MatchForClient,
+  QueryMode,
+  QueryRequest,
+  StreamEvent,
+} from '@/lib/prof-query/types';
 
 // -------------------- Types --------------------
 
-type ApiRole = 'user' | 'assistant';
-type ApiMessage = { role: ApiRole; content: string };
+// Facet values from /api/facets; selected ones go into the `filters` of each query
+type FacetName = 'school' | 'department' | 'topics';
+type FacetValue = { value: string; count: number };
+type Facets = Record<FacetName, FacetValue[]>;
+type Filters = Record<FacetName, string[]>;
 
-type Match = {
-  score: number;
-  professor: string;
-  url: string;
-  chunkBlock: string;
-  snippet: string;
-};
+const FACET_NAMES: FacetName[] = ['school', 'department', 'topics'];
 
-type Message = {
-  id: string;
-  role: ApiRole;
-  content: string;
-  matches?: Match[];
-};
+const NO_FILTERS: Filters = { school: [], department: [], topics: [] };
 
 // -------------------- UI helpers --------------------
 
@@ -65,30 +95,213 @@ const scrollbarStyles = {
 
 const MAX_MESSAGES_TO_SEND = 12;
 
+const SIDEBAR_WIDTH = 260;
+
+// The text depends on the locale, so it's filled in when rendering
+const WELCOME_MESSAGE: Message = {
+  id: 'welcome',
+  role: 'assistant',
+  content: '',
+};
+
+async function readNdjson(res: Response, onEvent: (event: StreamEvent) => void) {
+  if (!res.body) throw new Error('Streaming is not supported by this browser');
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) onEvent(parseStreamEvent(line));
+    }
+  }
+  if (buffer.trim()) onEvent(parseStreamEvent(buffer));
+}
+
 // -------------------- Page --------------------
 
 export default function ChatPage() {
   const theme = useTheme();
   const { mode, toggleColorMode } = useColorMode();
+  const { locale, setLocale, t } = useLocale();
 
   const [input, setInput] = useState('');
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: 'welcome',
-      role: 'assistant',
-      content:
-        "Hello! I'm your TUM professor assistant. I can help you discover researchers based on their expertise.\n\nTry asking:\n• Who works on quantum computing and cryptography?\n• Which professor focuses on AI for medical imaging?\n• Who is working on robotics for surgery?",
-    },
-  ]);
+  const [queryMode, setQueryMode] = useState<QueryMode>('answer');
+  const [inputAnchor, setInputAnchor] = useState<HTMLDivElement | null>(null);
+  const typeahead = useSuggestions();
+  const [messages, setMessages] = useState<Message[]>([WELCOME_MESSAGE]);
   const [loading, setLoading] = useState(false);
+  const [streaming, setStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [facets, setFacets] = useState<Facets | null>(null);
+  const [filters, setFilters] = useState<Filters>(NO_FILTERS);
+  const [filterAnchor, setFilterAnchor] = useState<HTMLElement | null>(null);
+  const [localeAnchor, setLocaleAnchor] = useState<HTMLElement | null>(null);
+  const [optionSchema, setOptionSchema] = useState<OptionsSchema | null>(null);
+  const [options, setOptions] = useState<RetrievalOptions>({});
+  const [advancedOpen, setAdvancedOpen] = useState(false);
+  const [storage, setStorage] = useState<ConversationStorage | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [drawerOpen, setDrawerOpen] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  // set after a 429: when the next question may be sent, and a clock for the countdown
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [now, setNow] = useState(0);
+
+  const retrySeconds = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+
+  const hasFacets = !!facets && Object.values(facets).some((values) => values.length > 0);
+
+  const activeFilters = (Object.keys(filters) as FacetName[]).flatMap((facet) =>
+    filters[facet].map((value) => ({ facet, value }))
+  );
+
+  useEffect(() => {
+    // filters are optional; without facets the button just stays hidden
+    fetch('/api/facets')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: Facets | null) => setFacets(data))
+      .catch(() => setFacets(null));
+  }, []);
+
+  useEffect(() => {
+    // same for the advanced options: no schema, no panel
+    fetch('/api/prof-query/options')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { schema: OptionsSchema } | null) => setOptionSchema(data?.schema ?? null))
+      .catch(() => setOptionSchema(null));
+  }, []);
+
+  useEffect(() => {
+    // restore the conversation that was open before a refresh
+    openConversationStorage().then(async (s) => {
+      setStorage(s);
+      setConversations(await s.list().catch(() => []));
+      const currentId = getCurrentConversationId();
+      const current = currentId ? await s.get(currentId) : null;
+      if (current) {
+        setConversationId(current.id);
+        setMessages([WELCOME_MESSAGE, ...current.messages]);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!retryAt) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) setRetryAt(null);
+    }, 250);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  async function persist(id: string, all: Message[]) {
+    if (!storage) return;
+    const saved = all
+      .filter((m) => m.id !== WELCOME_MESSAGE.id && m.content)
+      .map((m) => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        matches: m.matches,
+        comparison: m.comparison,
+        recommendations: m.recommendations,
+        rewrittenQuestion: m.rewrittenQuestion,
+        feedback: m.feedback,
+        browse: m.browse,
+      }));
+    const firstQuestion = saved.find((m) => m.role === 'user')?.content ?? t.newChat;
+    const title =
+      conversations.find((c) => c.id === id)?.title ?? titleFromQuestion(firstQuestion);
+
+    try {
+      await storage.save({ id, title, messages: saved });
+      setCurrentConversationId(id);
+      setConversations(await storage.list());
+    } catch (err: unknown) {
+      setError(t.saveFailed(err instanceof Error ? err.message : String(err)));
+    }
+  }
+
+  function startNewChat() {
+    setConversationId(null);
+    setCurrentConversationId(null);
+    setMessages([WELCOME_MESSAGE]);
+    setError(null);
+    setDrawerOpen(false);
+  }
+
+  async function openConversation(id: string) {
+    if (!storage || loading) return;
+    const conversation = await storage.get(id);
+    setDrawerOpen(false);
+    if (!conversation) {
+      setError(t.conversationGone);
+      setConversations(await storage.list());
+      return;
+    }
+    setConversationId(conversation.id);
+    setCurrentConversationId(conversation.id);
+    setMessages([WELCOME_MESSAGE, ...conversation.messages]);
+    setError(null);
+  }
+
+  async function renameConversation(id: string, title: string) {
+    if (!storage) return;
+    try {
+      await storage.rename(id, title);
+      setConversations(await storage.list());
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.renameFailed);
+    }
+  }
+
+  async function deleteConversation(id: string) {
+    if (!storage) return;
+    try {
+      await storage.remove(id);
+      setConversations(await storage.list());
+      if (id === conversationId) startNewChat();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.deleteFailed);
+    }
+  }
+
+  async function shareConversation() {
+    if (!storage || !conversationId) return;
+    try {
+      const url = await storage.share(conversationId);
+      await navigator.clipboard.writeText(url).catch(() => {});
+      setNotice(t.shareCopied(url));
+      setConversations(await storage.list());
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.shareFailed);
+    }
+  }
+
+  function toggleFilter(facet: FacetName, value: string) {
+    setFilters((prev) => ({
+      ...prev,
+      [facet]: prev[facet].includes(value)
+        ? prev[facet].filter((v) => v !== value)
+        : [...prev[facet], value],
+    }));
+  }
 
   async function sendMessage() {
     const question = input.trim();
-    if (!question || loading) return;
+    if (!question || loading || retryAt) return;
 
     setInput('');
+    typeahead.close();
     setError(null);
     setLoading(true);
 
@@ -102,52 +315,253 @@ export default function ChatPage() {
     const nextMessages: Message[] = [...messages, userMsg];
     setMessages(nextMessages);
 
+    // a new chat gets its id with the first question; it's saved once the answer is in
+    const id = conversationId ?? newConversationId();
+    setConversationId(id);
+    let assistant: Message | null = null;
+    let rateLimited = false;
+
     try {
       // Build payload from nextMessages so it includes the new user message
-      const payloadMessages: ApiMessage[] = nextMessages
+      const payloadMessages: ChatMsg[] = nextMessages
         .filter((m) => m.id !== 'welcome')
-        .slice(-MAX_MESSAGES_TO_SEND)
+        .slice(-Math.max(MAX_MESSAGES_TO_SEND, options.historyMessages ?? 0))
         .map((m) => ({
-          role: (m.role === 'user' ? 'user' : 'assistant') as ApiRole,
+          role: m.role === 'user' ? 'user' : 'assistant',
           content: m.content,
         }));
 
+      const request: QueryRequest = {
+        messages: payloadMessages,
+        ...(queryMode === 'browse'
+          ? { mode: 'browse' }
+          : { stream: true, citations: true, recommend: true }),
+        ...(activeFilters.length ? { filters } : {}),
+        ...(Object.keys(options).length ? { options } : {}),
+        language: locale,
+      };
+
       const res = await fetch('/api/prof-query', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ messages: payloadMessages }),
+        body: JSON.stringify(request),
       });
 
       if (!res.ok) {
-        const data = await res.json().catch(() => ({}));
-        throw new Error(data.error || `Request failed with ${res.status}`);
+        const data: unknown = await res.json().catch(() => null);
+
+        if (isApiError(data) && data.code === 'RATE_LIMITED') {
+          // not an error worth showing: put the question back and count down instead
+          const seconds = Number(res.headers.get('Retry-After')) || data.retryAfter || 10;
+          rateLimited = true;
+          setMessages(messages);
+          setInput(question);
+          setNow(Date.now());
+          setRetryAt(Date.now() + seconds * 1000);
+          return;
+        }
+
+        throw new Error(isApiError(data) ? data.error : t.requestFailed(res.status));
       }
 
-      const data: { answer?: string; matches?: Match[] } = await res.json();
-
-      const assistantMsg: Message = {
-        id: `assistant-${Date.now()}`,
-        role: 'assistant',
-        content: data.answer || 'No answer returned.',
-        matches: Array.isArray(data.matches) ? data.matches : [],
-      };
+      const assistantId = `assistant-${Date.now()}`;
+
+      if (request.mode === 'browse') {
+        const data: BrowseResponse = await res.json();
+        assistant = {
+          id: assistantId,
+          role: 'assistant',
+          content: data.matches.length ? t.browseResults(data.rewrittenQuestion) : t.browseEmpty,
+          matches: data.matches,
+          rewrittenQuestion: data.rewrittenQuestion,
+          browse: { page: data.page, hasMore: data.hasMore, ...(activeFilters.length ? { filters } : {}) },
+        };
+        setMessages((prev) => [...prev, assistant!]);
+        return;
+      }
 
-      setMessages((prev) => [...prev, assistantMsg]);
+      const updateAssistant = (update: (m: Message) => Partial<Message>) =>
+        setMessages((prev) => prev.map((m) => (m.id === assistantId ? { ...m, ...update(m) } : m)));
+
+      try {
+        await readNdjson(res, (event) => {
+          switch (event.type) {
+            case 'meta':
+              // the bubble appears as soon as retrieval is done; tokens fill it in
+              setStreaming(true);
+              assistant = {
+                id: assistantId,
+                role: 'assistant',
+                content: '',
+                matches: Array.isArray(event.matches) ? event.matches : [],
+                rewrittenQuestion: event.rewrittenQuestion,
+              };
+              setMessages((prev) => [...prev, { ...assistant!, streaming: true }]);
+              break;
+            case 'token':
+              if (assistant) assistant.content += event.text;
+              updateAssistant((m) => ({ content: m.content + event.text }));
+              break;
+            case 'done':
+              if (assistant) {
+                assistant.content = event.answer || assistant.content || t.noAnswer;
+                assistant.comparison = event.comparison;
+                assistant.recommendations = event.recommendations;
+              }
+              updateAssistant((m) => ({
+                content: event.answer || m.content || t.noAnswer,
+                comparison: event.comparison,
+                recommendations: event.recommendations,
+                streaming: false,
+              }));
+              break;
+            case 'error':
+              throw new Error(event.error);
+          }
+        });
+      } finally {
+        // keep a partial answer if the stream broke off, drop an empty bubble
+        setMessages((prev) =>
+          prev
+            .filter((m) => m.id !== assistantId || m.content)
+            .map((m) => (m.id === assistantId ? { ...m, streaming: false } : m))
+        );
+      }
     } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : 'Something went wrong';
+      const errorMessage = err instanceof Error ? err.message : t.genericError;
       setError(errorMessage);
     } finally {
       setLoading(false);
+      setStreaming(false);
+      // partial answers are kept, like in the UI
+      if (!rateLimited) await persist(id, assistant ? [...nextMessages, assistant] : nextMessages);
+    }
+  }
+
+  // everything needed to replay the answer goes along, so bad ones can become eval cases
+  async function sendFeedback(message: Message, rating: FeedbackRating, comment: string) {
+    const index = messages.findIndex((m) => m.id === message.id);
+    const history = messages
+      .slice(0, index)
+      .filter((m) => m.id !== WELCOME_MESSAGE.id)
+      .map((m): ChatMsg => ({ role: m.role, content: m.content }));
+
+    try {
+      const res = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rating,
+          comment,
+          messageId: message.id,
+          conversationId,
+          messages: history,
+          rewrittenQuestion: message.rewrittenQuestion ?? null,
+          language: locale,
+          matches: message.matches ?? [],
+          answer: message.content,
+        }),
+      });
+      if (!res.ok) return false;
+    } catch {
+      return false;
+    }
+
+    const next = messages.map((m) => (m.id === message.id ? { ...m, feedback: rating } : m));
+    setMessages(next);
+    if (conversationId) await persist(conversationId, next);
+    return true;
+  }
+
+  // the next page of a browse-mode result list, for the question it was searched with
+  async function loadMoreResults(message: Message) {
+    const position = message.browse;
+    if (!position?.hasMore || !message.rewrittenQuestion) return false;
+
+    const request: QueryRequest = {
+      messages: [{ role: 'user', content: message.rewrittenQuestion }],
+      mode: 'browse',
+      page: position.page + 1,
+      ...(position.filters ? { filters: position.filters } : {}),
+      // the rewritten question is English, so it isn't rewritten again
+      language: 'en',
+    };
+
+    let data: BrowseResponse;
+    try {
+      const res = await fetch('/api/prof-query', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      if (!res.ok) return false;
+      data = await res.json();
+    } catch {
+      return false;
     }
+
+    // pages don't overlap, but re-ingesting between two of them can shift the ranking
+    const key = (m: MatchForClient) => m.chunkId ?? `${m.docId}:${m.snippet}`;
+    const shown = new Set((message.matches ?? []).map(key));
+    const added = data.matches.filter((m) => !shown.has(key(m)));
+    const next = messages.map((m) =>
+      m.id === message.id
+        ? {
+            ...m,
+            matches: [...(m.matches ?? []), ...added],
+            browse: { ...position, page: data.page, hasMore: data.hasMore },
+          }
+        : m
+    );
+    setMessages(next);
+    if (conversationId) await persist(conversationId, next);
+    return true;
+  }
+
+  function pickSuggestion(suggestion: Suggestion) {
+    setInput(applySuggestion(input, suggestion));
+    typeahead.close();
   }
 
   function handleKeyDown(e: KeyboardEvent<HTMLDivElement>) {
+    const { suggestions, active } = typeahead;
+    if (suggestions.length) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        typeahead.move(e.key === 'ArrowDown' ? 1 : -1);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        typeahead.close();
+        return;
+      }
+      // Enter sends the question unless a suggestion is highlighted
+      if ((e.key === 'Enter' || e.key === 'Tab') && active >= 0) {
+        e.preventDefault();
+        pickSuggestion(suggestions[active]);
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       sendMessage();
     }
   }
 
+  const sidebar = (
+    <ConversationSidebar
+      conversations={conversations}
+      currentId={conversationId}
+      local={storage?.kind === 'local'}
+      onSelect={openConversation}
+      onNew={startNewChat}
+      onRename={renameConversation}
+      onDelete={deleteConversation}
+    />
+  );
+
   return (
     <Box
       sx={{
@@ -162,10 +576,9 @@ export default function ChatPage() {
       <Card
         sx={{
           width: '100%',
-          maxWidth: 900,
+          maxWidth: 900 + SIDEBAR_WIDTH,
           height: { xs: '90vh', md: '85vh' },
           display: 'flex',
-          flexDirection: 'column',
           overflow: 'hidden',
           boxShadow: (theme) =>
             `0 0 2px 0 ${alpha(theme.palette.grey[500], 0.2)}, 0 12px 24px -4px ${alpha(
@@ -174,287 +587,389 @@ export default function ChatPage() {
             )}`,
         }}
       >
-        {/* Header */}
+        {/* Conversation history (a drawer on small screens) */}
         <Box
           sx={{
-            px: 3,
-            py: 2.5,
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'space-between',
-            borderBottom: '1px dashed',
+            width: SIDEBAR_WIDTH,
+            flexShrink: 0,
+            display: { xs: 'none', md: 'block' },
+            borderRight: '1px dashed',
             borderColor: 'divider',
           }}
         >
-          <Stack direction="row" spacing={2} alignItems="center">
-            <Avatar
-              sx={{
-                width: 48,
-                height: 48,
-                bgcolor: 'primary.main',
-                boxShadow: (theme) => `0 8px 16px 0 ${alpha(theme.palette.primary.main, 0.24)}`,
-              }}
-            >
-              <SchoolIcon />
-            </Avatar>
-            <Box>
-              <Typography variant="h6" fontWeight={700}>
-                TUM Professor Assistant
-              </Typography>
-              <Typography variant="body2" color="text.secondary">
-                Ask questions about TUM professors and their research
-              </Typography>
-            </Box>
-          </Stack>
-          <IconButton
-            onClick={toggleColorMode}
+          {sidebar}
+        </Box>
+
+        <Box sx={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column' }}>
+          {/* Header */}
+          <Box
             sx={{
-              bgcolor: alpha(theme.palette.grey[500], 0.08),
-              '&:hover': { bgcolor: alpha(theme.palette.grey[500], 0.16) },
+              px: 3,
+              py: 2.5,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              borderBottom: '1px dashed',
+              borderColor: 'divider',
             }}
           >
-            {mode === 'light' ? <DarkModeIcon /> : <LightModeIcon />}
-          </IconButton>
-        </Box>
-
-        {/* Messages Area */}
-        <Box sx={{ flex: 1, overflowY: 'auto', p: 3, ...scrollbarStyles }}>
-          <Stack spacing={3}>
-            {messages.map((m) => (
-              <MessageBubble
-                key={m.id}
-                message={m}
-                expandedId={expandedId}
-                setExpandedId={setExpandedId}
-              />
-            ))}
-            {loading && (
-              <Stack direction="row" spacing={2} alignItems="flex-start">
-                <Avatar sx={{ width: 36, height: 36, bgcolor: 'primary.main' }}>
-                  <SchoolIcon sx={{ fontSize: 20 }} />
-                </Avatar>
-                <Box
+            <Stack direction="row" spacing={2} alignItems="center">
+              <IconButton
+                onClick={() => setDrawerOpen(true)}
+                title={t.conversations}
+                sx={{ display: { md: 'none' }, ml: -1 }}
+              >
+                <HistoryIcon />
+              </IconButton>
+              <Avatar
+                sx={{
+                  width: 48,
+                  height: 48,
+                  bgcolor: 'primary.main',
+                  boxShadow: (theme) => `0 8px 16px 0 ${alpha(theme.palette.primary.main, 0.24)}`,
+                }}
+              >
+                <SchoolIcon />
+              </Avatar>
+              <Box>
+                <Typography variant="h6" fontWeight={700}>
+                  {t.assistantName}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {t.tagline}
+                </Typography>
+              </Box>
+            </Stack>
+            <Stack direction="row" spacing={1}>
+              {storage?.kind === 'server' && conversationId && !loading && messages.length > 1 && (
+                <IconButton
+                  onClick={shareConversation}
+                  title={t.share}
                   sx={{
                     bgcolor: alpha(theme.palette.grey[500], 0.08),
-                    borderRadius: 2,
-                    px: 2.5,
-                    py: 1.5,
-                    display: 'flex',
-                    alignItems: 'center',
-                    gap: 1.5,
+                    '&:hover': { bgcolor: alpha(theme.palette.grey[500], 0.16) },
                   }}
                 >
-                  <CircularProgress size={16} thickness={5} />
-                  <Typography variant="body2" color="text.secondary">
-                    Thinking...
-                  </Typography>
-                </Box>
-              </Stack>
-            )}
-          </Stack>
-        </Box>
-
-        {/* Error Message */}
-        {error && (
-          <Box sx={{ px: 3, pb: 1 }}>
-            <Typography
-              variant="caption"
-              sx={{
-                color: 'error.main',
-                display: 'block',
-                bgcolor: alpha(theme.palette.error.main, 0.08),
-                p: 1.5,
-                borderRadius: 1,
-              }}
-            >
-              {error}
-            </Typography>
+                  <ShareIcon />
+                </IconButton>
+              )}
+              <IconButton
+                component={NextLink}
+                href="/professors"
+                title={t.browse}
+                sx={{
+                  bgcolor: alpha(theme.palette.grey[500], 0.08),
+                  '&:hover': { bgcolor: alpha(theme.palette.grey[500], 0.16) },
+                }}
+              >
+                <GroupsIcon />
+              </IconButton>
+              <IconButton
+                onClick={(e) => setLocaleAnchor(e.currentTarget)}
+                title={t.language}
+                sx={{
+                  bgcolor: alpha(theme.palette.grey[500], 0.08),
+                  '&:hover': { bgcolor: alpha(theme.palette.grey[500], 0.16) },
+                }}
+              >
+                <TranslateIcon />
+              </IconButton>
+              <Menu
+                anchorEl={localeAnchor}
+                open={!!localeAnchor}
+                onClose={() => setLocaleAnchor(null)}
+              >
+                {LOCALES.map((l) => (
+                  <MenuItem
+                    key={l}
+                    dense
+                    selected={l === locale}
+                    lang={l}
+                    onClick={() => {
+                      setLocale(l);
+                      setLocaleAnchor(null);
+                    }}
+                  >
+                    {LOCALE_NAMES[l]}
+                  </MenuItem>
+                ))}
+              </Menu>
+              <IconButton
+                onClick={toggleColorMode}
+                title={t.colorMode}
+                sx={{
+                  bgcolor: alpha(theme.palette.grey[500], 0.08),
+                  '&:hover': { bgcolor: alpha(theme.palette.grey[500], 0.16) },
+                }}
+              >
+                {mode === 'light' ? <DarkModeIcon /> : <LightModeIcon />}
+              </IconButton>
+            </Stack>
           </Box>
-        )}
-
-        {/* Input Area */}
-        <Box sx={{ p: 3, pt: 2, borderTop: '1px dashed', borderColor: 'divider' }}>
-          <TextField
-            fullWidth
-            placeholder='Ask something like: "Who works on quantum computing?"'
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={handleKeyDown}
-            autoFocus
-            InputProps={{
-              endAdornment: (
-                <InputAdornment position="end">
-                  <IconButton
-                    onClick={sendMessage}
-                    disabled={!input.trim() || loading}
+
+          {/* Messages Area */}
+          <Box sx={{ flex: 1, overflowY: 'auto', p: 3, ...scrollbarStyles }}>
+            <Stack spacing={3}>
+              {messages.map((m) => (
+                <MessageBubble
+                  key={m.id}
+                  message={m.id === WELCOME_MESSAGE.id ? { ...m, content: t.welcome } : m}
+                  expandedId={expandedId}
+                  setExpandedId={setExpandedId}
+                  onFeedback={m.id === WELCOME_MESSAGE.id || m.browse ? undefined : sendFeedback}
+                  onLoadMore={loadMoreResults}
+                />
+              ))}
+              {messages.length === 1 && (
+                // example questions under the welcome message; a click puts one in the input
+                <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" sx={{ pl: 6.5, mt: -1.5 }}>
+                  {t.examples.map((example) => (
+                    <Chip
+                      key={example}
+                      label={example}
+                      variant="outlined"
+                      onClick={() => setInput(example)}
+                    />
+                  ))}
+                </Stack>
+              )}
+              {loading && !streaming && (
+                <Stack direction="row" spacing={2} alignItems="flex-start">
+                  <Avatar sx={{ width: 36, height: 36, bgcolor: 'primary.main' }}>
+                    <SchoolIcon sx={{ fontSize: 20 }} />
+                  </Avatar>
+                  <Box
                     sx={{
-                      bgcolor: 'primary.main',
-                      color: 'primary.contrastText',
-                      '&:hover': { bgcolor: 'primary.dark' },
-                      '&.Mui-disabled': {
-                        bgcolor: alpha(theme.palette.grey[500], 0.24),
-                        color: alpha(theme.palette.grey[500], 0.8),
-                      },
+                      bgcolor: alpha(theme.palette.grey[500], 0.08),
+                      borderRadius: 2,
+                      px: 2.5,
+                      py: 1.5,
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 1.5,
                     }}
                   >
-                    <SendIcon sx={{ fontSize: 20 }} />
-                  </IconButton>
-                </InputAdornment>
-              ),
-              sx: { pr: 1 },
-            }}
-          />
-        </Box>
-      </Card>
-    </Box>
-  );
-}
-
-// -------------------- Message Bubble --------------------
-
-type MessageBubbleProps = {
-  message: Message;
-  expandedId: string | null;
-  setExpandedId: (id: string | null) => void;
-};
-
-function MessageBubble({ message, expandedId, setExpandedId }: MessageBubbleProps) {
-  const theme = useTheme();
-  const isUser = message.role === 'user';
-  const matches = message.matches || [];
-
-  return (
-    <Stack
-      direction="row"
-      spacing={2}
-      alignItems="flex-start"
-      justifyContent={isUser ? 'flex-end' : 'flex-start'}
-    >
-      {!isUser && (
-        <Avatar sx={{ width: 36, height: 36, bgcolor: 'primary.main' }}>
-          <SchoolIcon sx={{ fontSize: 20 }} />
-        </Avatar>
-      )}
-
-      <Box sx={{ maxWidth: '75%' }}>
-        <Box
-          sx={{
-            bgcolor: isUser ? 'primary.main' : alpha(theme.palette.grey[500], 0.08),
-            color: isUser ? 'primary.contrastText' : 'text.primary',
-            borderRadius: 2,
-            px: 2.5,
-            py: 1.5,
-          }}
-        >
-          <Typography variant="caption" sx={{ display: 'block', mb: 0.5, opacity: 0.72, fontWeight: 600 }}>
-            {isUser ? 'You' : 'Assistant'}
-          </Typography>
-          <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', lineHeight: 1.6 }}>
-            {message.content}
-          </Typography>
-        </Box>
+                    <CircularProgress size={16} thickness={5} />
+                    <Typography variant="body2" color="text.secondary">
+                      {t.thinking}
+                    </Typography>
+                  </Box>
+                </Stack>
+              )}
+            </Stack>
+          </Box>
 
-        {!isUser && matches.length > 0 && (
-          <Box sx={{ mt: 1.5 }}>
-            <Button
-              size="small"
-              onClick={() => setExpandedId(expandedId === message.id ? null : message.id)}
-              endIcon={
-                expandedId === message.id ? (
-                  <ExpandLessIcon sx={{ fontSize: 18 }} />
-                ) : (
-                  <ExpandMoreIcon sx={{ fontSize: 18 }} />
-                )
-              }
-              sx={{
-                color: 'text.secondary',
-                fontWeight: 600,
-                fontSize: '0.75rem',
-                '&:hover': { bgcolor: alpha(theme.palette.grey[500], 0.08) },
-              }}
-            >
-              {matches.length} source{matches.length > 1 ? 's' : ''}
-            </Button>
-
-            <Collapse in={expandedId === message.id}>
-              <Stack spacing={1.5} sx={{ mt: 1.5 }}>
-                {matches.map((m, idx) => (
-                  <Card
-                    key={m.url + idx}
-                    variant="outlined"
-                    sx={{ borderColor: alpha(theme.palette.grey[500], 0.16), boxShadow: 'none' }}
-                  >
-                    <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
-                      <Stack direction="row" justifyContent="space-between" alignItems="flex-start" spacing={1}>
-                        <Stack direction="row" spacing={1.5} alignItems="center">
-                          <Avatar
-                            sx={{
-                              width: 32,
-                              height: 32,
-                              bgcolor: alpha(theme.palette.primary.main, 0.08),
-                              color: 'primary.main',
-                            }}
-                          >
-                            <PersonIcon sx={{ fontSize: 18 }} />
-                          </Avatar>
-                          <Link
-                            href={m.url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            sx={{
-                              color: 'primary.main',
-                              fontWeight: 600,
-                              fontSize: '0.875rem',
-                              display: 'flex',
-                              alignItems: 'center',
-                              gap: 0.5,
-                              '&:hover': { color: 'primary.dark' },
-                            }}
-                          >
-                            {m.professor}
-                            <OpenInNewIcon sx={{ fontSize: 14 }} />
-                          </Link>
-                        </Stack>
-                        <Chip
-                          label={`${(m.score * 100).toFixed(0)}%`}
-                          size="small"
+          {/* Error Message */}
+          {error && (
+            <Box sx={{ px: 3, pb: 1 }}>
+              <Typography
+                variant="caption"
+                sx={{
+                  color: 'error.main',
+                  display: 'block',
+                  bgcolor: alpha(theme.palette.error.main, 0.08),
+                  p: 1.5,
+                  borderRadius: 1,
+                }}
+              >
+                {error}
+              </Typography>
+            </Box>
+          )}
+
+          {/* Rate limit countdown */}
+          {retryAt && (
+            <Box sx={{ px: 3, pb: 1 }}>
+              <Typography
+                variant="caption"
+                sx={{
+                  color: 'warning.dark',
+                  display: 'block',
+                  bgcolor: alpha(theme.palette.warning.main, 0.12),
+                  p: 1.5,
+                  borderRadius: 1,
+                }}
+              >
+                {t.rateLimited(retrySeconds)}
+              </Typography>
+            </Box>
+          )}
+
+          {/* Input Area */}
+          <Box sx={{ p: 3, pt: 2, borderTop: '1px dashed', borderColor: 'divider' }}>
+            <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" alignItems="center" sx={{ mb: 1.5 }}>
+              {/* browse mode skips the answer and lists the matches by professor */}
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={queryMode}
+                onChange={(_e, value: QueryMode | null) => value && setQueryMode(value)}
+                sx={{
+                  '& .MuiToggleButton-root': { py: 0.25, px: 1, gap: 0.5, fontSize: '0.75rem', textTransform: 'none' },
+                }}
+              >
+                <ToggleButton value="answer" title={t.modeAnswerHint}>
+                  <ForumIcon sx={{ fontSize: 16 }} />
+                  {t.modeAnswer}
+                </ToggleButton>
+                <ToggleButton value="browse" title={t.modeBrowseHint}>
+                  <ManageSearchIcon sx={{ fontSize: 16 }} />
+                  {t.modeBrowse}
+                </ToggleButton>
+              </ToggleButtonGroup>
+              {optionSchema && (
+                <Button
+                  size="small"
+                  startIcon={<TuneIcon sx={{ fontSize: 18 }} />}
+                  onClick={() => setAdvancedOpen((open) => !open)}
+                  sx={{
+                    color: Object.keys(options).length ? 'primary.main' : 'text.secondary',
+                    fontWeight: 600,
+                    fontSize: '0.75rem',
+                  }}
+                >
+                  {t.advanced}
+                  {Object.keys(options).length ? ` (${Object.keys(options).length})` : ''}
+                </Button>
+              )}
+              {hasFacets && (
+                <Button
+                  size="small"
+                  startIcon={<FilterListIcon sx={{ fontSize: 18 }} />}
+                  onClick={(e) => setFilterAnchor(e.currentTarget)}
+                  sx={{ color: 'text.secondary', fontWeight: 600, fontSize: '0.75rem' }}
+                >
+                  {t.filters}
+                </Button>
+              )}
+              {activeFilters.map(({ facet, value }) => (
+                <Chip
+                  key={`${facet}-${value}`}
+                  label={value}
+                  title={t.facets[facet]}
+                  size="small"
+                  color="primary"
+                  variant="outlined"
+                  onDelete={() => toggleFilter(facet, value)}
+                />
+              ))}
+              {activeFilters.length > 1 && (
+                <Link
+                  component="button"
+                  type="button"
+                  variant="caption"
+                  onClick={() => setFilters(NO_FILTERS)}
+                  sx={{ color: 'text.secondary' }}
+                >
+                  {t.clearAll}
+                </Link>
+              )}
+              <Menu
+                anchorEl={filterAnchor}
+                open={!!filterAnchor && !!facets}
+                onClose={() => setFilterAnchor(null)}
+                slotProps={{ paper: { sx: { maxHeight: 420, minWidth: 280 } } }}
+              >
+                {FACET_NAMES
+                  .filter((facet) => facets?.[facet]?.length)
+                  .flatMap((facet) => [
+                    <ListSubheader key={facet}>{t.facets[facet]}</ListSubheader>,
+                    ...(facets?.[facet] ?? []).map((f) => (
+                      <MenuItem
+                        key={`${facet}-${f.value}`}
+                        dense
+                        selected={filters[facet].includes(f.value)}
+                        onClick={() => toggleFilter(facet, f.value)}
+                        sx={{ gap: 1 }}
+                      >
+                        <CheckIcon
                           sx={{
-                            height: 24,
-                            bgcolor: alpha(theme.palette.success.main, 0.08),
-                            color: 'success.dark',
-                            fontWeight: 700,
-                            fontSize: '0.7rem',
+                            fontSize: 16,
+                            visibility: filters[facet].includes(f.value) ? 'visible' : 'hidden',
                           }}
                         />
-                      </Stack>
-
-                      {m.chunkBlock && (
-                        <Typography
-                          variant="caption"
-                          color="text.secondary"
-                          sx={{ display: 'block', mt: 1, fontWeight: 700 }}
-                        >
-                          {m.chunkBlock}
+                        <Box sx={{ flex: 1 }}>{f.value}</Box>
+                        <Typography variant="caption" color="text.secondary">
+                          {f.count}
                         </Typography>
-                      )}
-
-                      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.75, lineHeight: 1.5 }}>
-                        {m.snippet}
-                      </Typography>
-                    </CardContent>
-                  </Card>
-                ))}
-              </Stack>
-            </Collapse>
+                      </MenuItem>
+                    )),
+                  ])}
+              </Menu>
+            </Stack>
+            {optionSchema && (
+              <Collapse in={advancedOpen} unmountOnExit>
+                <AdvancedOptions schema={optionSchema} values={options} onChange={setOptions} />
+              </Collapse>
+            )}
+            <TextField
+              ref={setInputAnchor}
+              fullWidth
+              placeholder={queryMode === 'browse' ? t.browsePlaceholder : t.placeholder}
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value);
+                typeahead.update(e.target.value);
+              }}
+              onKeyDown={handleKeyDown}
+              onBlur={typeahead.close}
+              autoFocus
+              slotProps={{
+                htmlInput: {
+                  role: 'combobox',
+                  'aria-autocomplete': 'list',
+                  'aria-expanded': typeahead.suggestions.length > 0,
+                  'aria-controls': 'query-suggestions',
+                  'aria-activedescendant':
+                    typeahead.active >= 0 ? `query-suggestion-${typeahead.active}` : undefined,
+                },
+              }}
+              InputProps={{
+                endAdornment: (
+                  <InputAdornment position="end">
+                    <IconButton
+                      onClick={sendMessage}
+                      disabled={!input.trim() || loading || !!retryAt}
+                      sx={{
+                        bgcolor: 'primary.main',
+                        color: 'primary.contrastText',
+                        '&:hover': { bgcolor: 'primary.dark' },
+                        '&.Mui-disabled': {
+                          bgcolor: alpha(theme.palette.grey[500], 0.24),
+                          color: alpha(theme.palette.grey[500], 0.8),
+                        },
+                      }}
+                    >
+                      <SendIcon sx={{ fontSize: 20 }} />
+                    </IconButton>
+                  </InputAdornment>
+                ),
+                sx: { pr: 1 },
+              }}
+            />
           </Box>
-        )}
-      </Box>
-
-      {isUser && (
-        <Avatar sx={{ width: 36, height: 36, bgcolor: 'secondary.main' }}>
-          <PersonIcon sx={{ fontSize: 20 }} />
-        </Avatar>
-      )}
-    </Stack>
+        </Box>
+      </Card>
+
+      <SuggestionPopper
+        anchorEl={inputAnchor}
+        suggestions={typeahead.suggestions}
+        active={typeahead.active}
+        onHover={typeahead.setActive}
+        onPick={pickSuggestion}
+      />
+
+      <Drawer open={drawerOpen} onClose={() => setDrawerOpen(false)}>
+        <Box sx={{ width: SIDEBAR_WIDTH, height: '100%' }}>{sidebar}</Box>
+      </Drawer>
+
+      <Snackbar
+        open={!!notice}
+        autoHideDuration={5000}
+        onClose={() => setNotice(null)}
+        message={notice}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      />
+    </Box>
   );
 }
@@ -0,0 +1,181 @@
+// app/professors/[docId]/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import NextLink from 'next/link';
+import { useParams } from 'next/navigation';
+import {
+  Box,
+  Card,
+  Typography,
+  IconButton,
+  Stack,
+  Avatar,
+  Chip,
+  Link,
+  Button,
+  CircularProgress,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Person as PersonIcon,
+  OpenInNew as OpenInNewIcon,
+} from '@mui/icons-material';
+
+// -------------------- Types --------------------
+
+type ProfessorDetail = {
+  docId: string;
+  professor: string;
+  url: string;
+  chair: string;
+  school: string;
+  department: string;
+  topics: string[];
+  keywords: string[];
+  summary: string;
+  sections: { chunkBlock: string; text: string }[];
+};
+
+// -------------------- Page --------------------
+
+export default function ProfessorPage() {
+  const theme = useTheme();
+  const { docId } = useParams<{ docId: string }>();
+
+  const [professor, setProfessor] = useState<ProfessorDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/professors/${encodeURIComponent(docId)}`)
+      .then(async (res) => {
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || `Request failed with ${res.status}`);
+        if (!cancelled) setProfessor(body as ProfessorDetail);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Something went wrong');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [docId]);
+
+  return (
+    <Box sx={{ minHeight: '100vh', bgcolor: 'background.default', p: { xs: 2, md: 3 } }}>
+      <Card sx={{ maxWidth: 900, mx: 'auto' }}>
+        {/* Header */}
+        <Box
+          sx={{
+            px: 3,
+            py: 2.5,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 2,
+            borderBottom: '1px dashed',
+            borderColor: 'divider',
+          }}
+        >
+          <IconButton component={NextLink} href="/professors" title="Back to directory">
+            <ArrowBackIcon />
+          </IconButton>
+          <Avatar sx={{ width: 48, height: 48, bgcolor: 'primary.main' }}>
+            <PersonIcon />
+          </Avatar>
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <Typography variant="h6" fontWeight={700}>
+              {professor?.professor ?? (error ? 'Professor not found' : 'Loading...')}
+            </Typography>
+            {professor && (professor.chair || professor.department || professor.school) && (
+              <Typography variant="body2" color="text.secondary">
+                {[professor.chair, professor.department, professor.school].filter(Boolean).join(' · ')}
+              </Typography>
+            )}
+          </Box>
+          {professor?.url && (
+            <Button
+              component={Link}
+              href={professor.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              size="small"
+              endIcon={<OpenInNewIcon sx={{ fontSize: 16 }} />}
+            >
+              TUM profile
+            </Button>
+          )}
+        </Box>
+
+        <Box sx={{ p: 3 }}>
+          {error && (
+            <Typography
+              variant="caption"
+              sx={{
+                color: 'error.main',
+                display: 'block',
+                bgcolor: alpha(theme.palette.error.main, 0.08),
+                p: 1.5,
+                borderRadius: 1,
+              }}
+            >
+              {error}
+            </Typography>
+          )}
+
+          {!professor && !error && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+              <CircularProgress size={24} />
+            </Box>
+          )}
+
+          {professor && (
+            <Stack spacing={3}>
+              {professor.keywords.length > 0 && (
+                <Stack direction="row" spacing={0.75} useFlexGap flexWrap="wrap">
+                  {professor.keywords.map((k) => (
+                    <Chip key={k} label={k} size="small" />
+                  ))}
+                </Stack>
+              )}
+
+              {professor.summary && (
+                <Box
+                  sx={{
+                    bgcolor: alpha(theme.palette.primary.main, 0.06),
+                    borderRadius: 2,
+                    px: 2.5,
+                    py: 2,
+                  }}
+                >
+                  <Typography variant="body2" sx={{ lineHeight: 1.6 }}>
+                    {professor.summary}
+                  </Typography>
+                </Box>
+              )}
+
+              {professor.sections.map((s) => (
+                <Box key={s.chunkBlock}>
+                  <Typography variant="subtitle2" fontWeight={700} sx={{ mb: 0.75 }}>
+                    {s.chunkBlock}
+                  </Typography>
+                  <Typography
+                    variant="body2"
+                    color="text.secondary"
+                    sx={{ whiteSpace: 'pre-wrap', lineHeight: 1.6 }}
+                  >
+                    {s.text}
+                  </Typography>
+                </Box>
+              ))}
+            </Stack>
+          )}
+        </Box>
+      </Card>
+    </Box>
+  );
+}
@@ -0,0 +1,224 @@
+// app/professors/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import NextLink from 'next/link';
+import {
+  Box,
+  Card,
+  CardActionArea,
+  CardContent,
+  Typography,
+  TextField,
+  IconButton,
+  Stack,
+  Avatar,
+  Chip,
+  CircularProgress,
+  InputAdornment,
+  Pagination,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Groups as GroupsIcon,
+  Search as SearchIcon,
+} from '@mui/icons-material';
+
+// -------------------- Types --------------------
+
+type ProfessorListItem = {
+  docId: string;
+  professor: string;
+  url: string;
+  chair: string;
+  school: string;
+  department: string;
+  topics: string[];
+  keywords: string[];
+};
+
+type DirectoryPage = {
+  professors: ProfessorListItem[];
+  page: number;
+  pageSize: number;
+  total: number;
+};
+
+const PAGE_SIZE = 20;
+
+// -------------------- Page --------------------
+
+export default function ProfessorsPage() {
+  const theme = useTheme();
+
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<DirectoryPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // don't hit the API on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedQuery(query.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+    if (debouncedQuery) params.set('q', debouncedQuery);
+
+    fetch(`/api/professors?${params}`)
+      .then(async (res) => {
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || `Request failed with ${res.status}`);
+        if (!cancelled) {
+          setData(body as DirectoryPage);
+          setError(null);
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Something went wrong');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [page, debouncedQuery]);
+
+  const pageCount = data ? Math.ceil(data.total / data.pageSize) : 0;
+
+  return (
+    <Box sx={{ minHeight: '100vh', bgcolor: 'background.default', p: { xs: 2, md: 3 } }}>
+      <Card sx={{ maxWidth: 900, mx: 'auto' }}>
+        {/* Header */}
+        <Box
+          sx={{
+            px: 3,
+            py: 2.5,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 2,
+            borderBottom: '1px dashed',
+            borderColor: 'divider',
+          }}
+        >
+          <IconButton component={NextLink} href="/" title="Back to chat">
+            <ArrowBackIcon />
+          </IconButton>
+          <Avatar sx={{ width: 48, height: 48, bgcolor: 'primary.main' }}>
+            <GroupsIcon />
+          </Avatar>
+          <Box>
+            <Typography variant="h6" fontWeight={700}>
+              Professor Directory
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {data ? `${data.total} professor${data.total === 1 ? '' : 's'} indexed` : 'Loading...'}
+            </Typography>
+          </Box>
+        </Box>
+
+        <Box sx={{ p: 3 }}>
+          <TextField
+            fullWidth
+            size="small"
+            placeholder="Filter by name, chair or research topic"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setLoading(true);
+            }}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon sx={{ fontSize: 20 }} />
+                </InputAdornment>
+              ),
+            }}
+          />
+
+          {error && (
+            <Typography
+              variant="caption"
+              sx={{
+                color: 'error.main',
+                display: 'block',
+                bgcolor: alpha(theme.palette.error.main, 0.08),
+                p: 1.5,
+                mt: 2,
+                borderRadius: 1,
+              }}
+            >
+              {error}
+            </Typography>
+          )}
+
+          {loading && !data ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : (
+            <Stack spacing={1.5} sx={{ mt: 2, opacity: loading ? 0.6 : 1 }}>
+              {data?.professors.map((p) => (
+                <Card
+                  key={p.docId}
+                  variant="outlined"
+                  sx={{ borderColor: alpha(theme.palette.grey[500], 0.16), boxShadow: 'none' }}
+                >
+                  <CardActionArea component={NextLink} href={`/professors/${encodeURIComponent(p.docId)}`}>
+                    <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+                      <Typography variant="subtitle2" fontWeight={700} color="primary.main">
+                        {p.professor}
+                      </Typography>
+                      {(p.chair || p.department || p.school) && (
+                        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.25 }}>
+                          {[p.chair, p.department, p.school].filter(Boolean).join(' · ')}
+                        </Typography>
+                      )}
+                      {p.keywords.length > 0 && (
+                        <Stack direction="row" spacing={0.75} useFlexGap flexWrap="wrap" sx={{ mt: 1 }}>
+                          {p.keywords.map((k) => (
+                            <Chip key={k} label={k} size="small" sx={{ height: 22, fontSize: '0.7rem' }} />
+                          ))}
+                        </Stack>
+                      )}
+                    </CardContent>
+                  </CardActionArea>
+                </Card>
+              ))}
+              {data && data.professors.length === 0 && (
+                <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+                  No professors match your filter.
+                </Typography>
+              )}
+            </Stack>
+          )}
+
+          {pageCount > 1 && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', mt: 3 }}>
+              <Pagination
+                count={pageCount}
+                page={page}
+                onChange={(_e, value) => {
+                  setPage(value);
+                  setLoading(true);
+                }}
+                color="primary"
+              />
+            </Box>
+          )}
+        </Box>
+      </Card>
+    </Box>
+  );
+}
@@ -0,0 +1,136 @@
+// app/query-suggestions.tsx
+'use client';
+
+import { useRef, useState } from 'react';
+import { ListItemIcon, ListItemText, MenuItem, MenuList, Paper, Popper } from '@mui/material';
+import {
+  Person as PersonIcon,
+  AccountBalance as AccountBalanceIcon,
+  Label as LabelIcon,
+} from '@mui/icons-material';
+import { useLocale } from './locale-provider';
+import type { Suggestion, SuggestionKind } from '@/lib/suggest/types';
+
+const DEBOUNCE_MS = 150;
+
+// The server completes at most the last 3 words, so there's no need to send more
+const TAIL_WORDS = 3;
+
+const KIND_ICONS: Record<SuggestionKind, typeof PersonIcon> = {
+  professor: PersonIcon,
+  chair: AccountBalanceIcon,
+  topic: LabelIcon,
+};
+
+/** `input` with the words the suggestion completes replaced by it. */
+export function applySuggestion(input: string, suggestion: Suggestion) {
+  const words = input.trimEnd().split(/(\s+)/);
+  // split keeps the separators, so each word takes two slots except the first
+  const kept = words.slice(0, Math.max(0, words.length - suggestion.replaces * 2 + 1)).join('');
+  return `${kept}${suggestion.text} `;
+}
+
+/**
+ * Suggestions for the text being typed, fetched from /api/suggest a moment after the
+ * last keystroke. `active` is the highlighted one (-1 for none).
+ */
+export function useSuggestions() {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [active, setActive] = useState(-1);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const latest = useRef('');
+
+  function close() {
+    if (timer.current) clearTimeout(timer.current);
+    latest.current = '';
+    setSuggestions([]);
+    setActive(-1);
+  }
+
+  function update(text: string) {
+    // nothing to complete after a space or before the second letter
+    const tail = text.split(/\s+/).slice(-TAIL_WORDS).join(' ');
+    if (/\s$/.test(text) || (tail.split(' ').pop() ?? '').length < 2) {
+      close();
+      return;
+    }
+
+    if (timer.current) clearTimeout(timer.current);
+    latest.current = text;
+    timer.current = setTimeout(() => {
+      fetch(`/api/suggest?q=${encodeURIComponent(tail)}`)
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data: { suggestions: Suggestion[] } | null) => {
+          // a slower response for older text must not replace newer suggestions
+          if (latest.current !== text) return;
+          setSuggestions(data?.suggestions ?? []);
+          setActive(-1);
+        })
+        .catch(() => setSuggestions([]));
+    }, DEBOUNCE_MS);
+  }
+
+  // wraps around through "none highlighted", like a browser's own autocomplete
+  function move(delta: number) {
+    const slots = suggestions.length + 1;
+    setActive((i) => ((i + 1 + delta + slots) % slots) - 1);
+  }
+
+  return { suggestions, active, setActive, update, close, move };
+}
+
+type SuggestionPopperProps = {
+  anchorEl: HTMLElement | null;
+  suggestions: Suggestion[];
+  active: number;
+  onHover: (index: number) => void;
+  onPick: (suggestion: Suggestion) => void;
+};
+
+/** The dropdown, above the input since that sits at the bottom; picking keeps the focus in it. */
+export function SuggestionPopper({ anchorEl, suggestions, active, onHover, onPick }: SuggestionPopperProps) {
+  const { t } = useLocale();
+
+  return (
+    <Popper
+      open={!!anchorEl && suggestions.length > 0}
+      anchorEl={anchorEl}
+      placement="top-start"
+      sx={{ zIndex: (theme) => theme.zIndex.modal, width: anchorEl?.clientWidth }}
+    >
+      <Paper elevation={8} sx={{ mb: 0.5, maxHeight: 320, overflowY: 'auto' }}>
+        <MenuList dense id="query-suggestions" role="listbox">
+          {suggestions.map((s, i) => {
+            const Icon = KIND_ICONS[s.kind];
+            return (
+              <MenuItem
+                key={`${s.kind}-${s.docId ?? s.text}`}
+                id={`query-suggestion-${i}`}
+                role="option"
+                selected={i === active}
+                aria-selected={i === active}
+                onMouseEnter={() => onHover(i)}
+                // mousedown would blur the input first
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => onPick(s)}
+              >
+                <ListItemIcon>
+                  <Icon sx={{ fontSize: 18 }} />
+                </ListItemIcon>
+                <ListItemText
+                  primary={s.text}
+                  secondary={
+                    s.kind === 'professor'
+                      ? t.suggestionKinds.professor
+                      : `${t.suggestionKinds[s.kind]} · ${t.suggestionProfessors(s.professors)}`
+                  }
+                  slotProps={{ secondary: { sx: { fontSize: '0.7rem' } } }}
+                />
+              </MenuItem>
+            );
+          })}
+        </MenuList>
+      </Paper>
+    </Popper>
+  );
+}
@@ -0,0 +1,131 @@
+// app/share/[shareId]/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import NextLink from 'next/link';
+import { useParams } from 'next/navigation';
+import {
+  Box,
+  Card,
+  Typography,
+  Stack,
+  Avatar,
+  Chip,
+  Button,
+  CircularProgress,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import { School as SchoolIcon } from '@mui/icons-material';
+import { MessageBubble, type Message } from '../../message-bubble';
+
+// -------------------- Types --------------------
+
+type SharedConversation = {
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: Message[];
+};
+
+// -------------------- Page --------------------
+
+export default function SharedConversationPage() {
+  const theme = useTheme();
+  const { shareId } = useParams<{ shareId: string }>();
+
+  const [conversation, setConversation] = useState<SharedConversation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/share/${encodeURIComponent(shareId)}`)
+      .then(async (res) => {
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || `Request failed with ${res.status}`);
+        if (!cancelled) setConversation(body as SharedConversation);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Something went wrong');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [shareId]);
+
+  return (
+    <Box sx={{ minHeight: '100vh', bgcolor: 'background.default', p: { xs: 2, md: 3 } }}>
+      <Card sx={{ maxWidth: 900, mx: 'auto' }}>
+        {/* Header */}
+        <Box
+          sx={{
+            px: 3,
+            py: 2.5,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 2,
+            borderBottom: '1px dashed',
+            borderColor: 'divider',
+          }}
+        >
+          <Avatar sx={{ width: 48, height: 48, bgcolor: 'primary.main' }}>
+            <SchoolIcon />
+          </Avatar>
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <Typography variant="h6" fontWeight={700} noWrap>
+              {conversation?.title ?? (error ? 'Conversation not found' : 'Loading...')}
+            </Typography>
+            {conversation && (
+              <Typography variant="body2" color="text.secondary">
+                Shared conversation · {new Date(conversation.updatedAt).toLocaleString()}
+              </Typography>
+            )}
+          </Box>
+          <Chip label="Read-only" size="small" />
+          <Button component={NextLink} href="/" size="small" variant="outlined">
+            Ask your own question
+          </Button>
+        </Box>
+
+        <Box sx={{ p: 3 }}>
+          {error && (
+            <Typography
+              variant="caption"
+              sx={{
+                color: 'error.main',
+                display: 'block',
+                bgcolor: alpha(theme.palette.error.main, 0.08),
+                p: 1.5,
+                borderRadius: 1,
+              }}
+            >
+              {error}
+            </Typography>
+          )}
+
+          {!conversation && !error && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+              <CircularProgress size={24} />
+            </Box>
+          )}
+
+          {conversation && (
+            <Stack spacing={3}>
+              {conversation.messages.map((m) => (
+                <MessageBubble
+                  key={m.id}
+                  message={m}
+                  expandedId={expandedId}
+                  setExpandedId={setExpandedId}
+                />
+              ))}
+            </Stack>
+          )}
+        </Box>
+      </Card>
+    </Box>
+  );
+}
@@ -0,0 +1,17 @@
+// lib/admin.ts
+import { timingSafeEqual } from "crypto";
+
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || "";
+
+/**
+ * Admin endpoints require `Authorization: Bearer <ADMIN_TOKEN>`.
+ * With no ADMIN_TOKEN configured they are disabled entirely.
+ */
+export function isAdminRequest(req: Request) {
+  if (!ADMIN_TOKEN) return false;
+  const header = req.headers.get("authorization") || "";
+  const token = header.replace(/^Bearer\s+/i, "");
+  const a = Buffer.from(token);
+  const b = Buffer.from(ADMIN_TOKEN);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,38 @@
+// lib/analytics/index-stats.ts
+import { DEFAULT_MANIFEST_PATH, loadManifest } from "../ingest/manifest";
+import { getVectorStore } from "../vector-store";
+import type { IndexStats } from "./types";
+
+/**
+ * What is in the index, by reading the metadata of every vector page by page. That is
+ * one fetch per page of ids, so this is for the admin dashboard, not for every request.
+ */
+export async function indexStats(manifestPath = DEFAULT_MANIFEST_PATH): Promise<IndexStats> {
+  const store = getVectorStore();
+  const byKind: Record<string, number> = {};
+  const docs = new Map<string, { professor: string; summaries: number; chunks: number }>();
+
+  for await (const ids of store.listIds()) {
+    for (const { metadata } of await store.fetch(ids)) {
+      byKind[metadata.kind] = (byKind[metadata.kind] ?? 0) + 1;
+      const doc = docs.get(metadata.doc_id) ?? { professor: metadata.professor, summaries: 0, chunks: 0 };
+      if (metadata.kind === "profile_summary") doc.summaries++;
+      else doc.chunks++;
+      docs.set(metadata.doc_id, doc);
+    }
+  }
+
+  const [stats, manifest] = await Promise.all([store.stats(), loadManifest(manifestPath)]);
+  return {
+    store: store.name,
+    dimension: stats.dimension,
+    totalVectors: stats.totalCount,
+    byKind,
+    professors: docs.size,
+    incomplete: Array.from(docs.entries())
+      .filter(([, d]) => !d.summaries || !d.chunks)
+      .map(([docId, d]) => ({ docId, ...d })),
+    lastIngestion: manifest.updatedAt,
+    manifestProfessors: Object.keys(manifest.professors).length,
+  };
+}
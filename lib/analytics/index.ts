@@ -0,0 +1,29 @@
+// lib/analytics/index.ts
+import { log } from "../telemetry";
+import { createJsonlQueryLog } from "./jsonl-log";
+import type { QueryLog, QueryLogEntry } from "./types";
+
+export type * from "./types";
+export { createJsonlQueryLog } from "./jsonl-log";
+export { indexStats } from "./index-stats";
+export { summarizeQueries } from "./summary";
+
+export const DEFAULT_QUERY_LOG_PATH = process.env.QUERY_LOG_FILE || "data/query-log.jsonl";
+
+// the log keeps rewritten questions; QUERY_LOG=off for deployments that mustn't
+const QUERY_LOG_ENABLED = process.env.QUERY_LOG !== "off";
+
+let queryLog: QueryLog | null = null;
+
+export function getQueryLog() {
+  queryLog ??= createJsonlQueryLog(DEFAULT_QUERY_LOG_PATH);
+  return queryLog;
+}
+
+/** Log an answered question. Never fails the request it is called from. */
+export async function recordQuery(entry: Omit<QueryLogEntry, "at">) {
+  if (!QUERY_LOG_ENABLED) return;
+  await getQueryLog()
+    .append({ at: new Date().toISOString(), ...entry })
+    .catch((err: unknown) => log("warn", "query_log_failed", { err }));
+}
@@ -0,0 +1,45 @@
+// lib/analytics/jsonl-log.ts
+import { promises as fs } from "fs";
+import path from "path";
+import type { QueryLog, QueryLogEntry } from "./types";
+
+/**
+ * One JSON line per question, appended. Appends are serialized so lines never
+ * interleave; a line that doesn't parse (e.g. cut off by a crash) is skipped on read.
+ */
+export function createJsonlQueryLog(file: string): QueryLog {
+  let writing: Promise<void> = Promise.resolve();
+
+  return {
+    append(entry) {
+      writing = writing
+        .catch(() => {})
+        .then(async () => {
+          await fs.mkdir(path.dirname(file), { recursive: true });
+          await fs.appendFile(file, JSON.stringify(entry) + "\n");
+        });
+      return writing;
+    },
+
+    async read(since) {
+      let raw: string;
+      try {
+        raw = await fs.readFile(file, "utf8");
+      } catch (err: unknown) {
+        if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return [];
+        throw err;
+      }
+
+      const after = since?.toISOString();
+      return raw.split("\n").flatMap((line) => {
+        if (!line.trim()) return [];
+        try {
+          const entry = JSON.parse(line) as QueryLogEntry;
+          return !after || entry.at >= after ? [entry] : [];
+        } catch {
+          return [];
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,53 @@
+// lib/analytics/summary.ts
+import { normalizeQuestion } from "../prof-query/retrieval";
+import type { ProfessorHits, QueryAnalytics, QueryLogEntry, QuestionCount } from "./types";
+
+/** Questions grouped the way the answer cache groups them, most asked first. */
+function countQuestions(entries: QueryLogEntry[], limit: number): QuestionCount[] {
+  const counts = new Map<string, QuestionCount>();
+  for (const e of entries) {
+    const key = normalizeQuestion(e.rewrittenQuestion);
+    const count = counts.get(key) ?? { question: e.rewrittenQuestion, count: 0, lastAt: e.at };
+    count.count++;
+    // entries are oldest first: show the latest wording
+    count.question = e.rewrittenQuestion;
+    count.lastAt = e.at;
+    counts.set(key, count);
+  }
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || b.lastAt.localeCompare(a.lastAt))
+    .slice(0, limit);
+}
+
+function countProfessors(entries: QueryLogEntry[]): ProfessorHits[] {
+  const hits = new Map<string, ProfessorHits>();
+  for (const e of entries) {
+    for (const { docId, professor } of e.picked) {
+      const h = hits.get(docId) ?? { docId, professor, hits: 0, queries: 0 };
+      h.hits++;
+      hits.set(docId, h);
+    }
+    for (const docId of new Set(e.picked.map((p) => p.docId))) hits.get(docId)!.queries++;
+  }
+  return Array.from(hits.values()).sort((a, b) => b.hits - a.hits || b.queries - a.queries);
+}
+
+export function summarizeQueries(
+  entries: QueryLogEntry[],
+  since: Date | null,
+  limit = 20
+): QueryAnalytics {
+  const noInfo = entries.filter((e) => e.noInfo);
+  const broadened = entries.filter((e) => e.broadened);
+  return {
+    since: since?.toISOString() ?? null,
+    queries: entries.length,
+    cached: entries.filter((e) => e.cached).length,
+    noInfo: noInfo.length,
+    broadened: broadened.length,
+    topQuestions: countQuestions(entries, limit),
+    noInfoQuestions: countQuestions(noInfo, limit),
+    broadenedQuestions: countQuestions(broadened, limit),
+    professors: countProfessors(entries),
+  };
+}
@@ -0,0 +1,52 @@
+// lib/analytics/types.ts
+import type { Language } from "../prof-query/language";
+
+/** One answered question, as the admin dashboard aggregates it. */
+export type QueryLogEntry = {
+  at: string;
+  rewrittenQuestion: string;
+  language: Language;
+  cached: boolean; // answered from the answer cache
+  noInfo: boolean; // the answer says the profiles don't cover the question
+  broadened: boolean | null; // routing found too few chunks; null for cached answers
+  picked: { docId: string; professor: string }[]; // one per source chunk
+};
+
+export interface QueryLog {
+  append(entry: QueryLogEntry): Promise<void>;
+  // oldest first
+  read(since?: Date): Promise<QueryLogEntry[]>;
+}
+
+export type QuestionCount = { question: string; count: number; lastAt: string };
+
+export type ProfessorHits = {
+  docId: string;
+  professor: string;
+  hits: number; // source chunks picked
+  queries: number; // questions with at least one of their chunks picked
+};
+
+export type QueryAnalytics = {
+  since: string | null;
+  queries: number;
+  cached: number;
+  noInfo: number;
+  broadened: number;
+  topQuestions: QuestionCount[];
+  noInfoQuestions: QuestionCount[];
+  broadenedQuestions: QuestionCount[];
+  professors: ProfessorHits[]; // most hits first
+};
+
+export type IndexStats = {
+  store: string;
+  dimension: number;
+  totalVectors: number;
+  byKind: Record<string, number>;
+  professors: number; // distinct doc_ids
+  // professors with a summary but no chunks, or the other way round
+  incomplete: { docId: string; professor: string; summaries: number; chunks: number }[];
+  lastIngestion: string | null; // from the ingest manifest
+  manifestProfessors: number;
+};
@@ -0,0 +1,7 @@
+// lib/api-keys/hash.ts
+import { createHash } from "crypto";
+
+// Keys are long and random, so a plain hash is enough; no salt or slow KDF needed.
+export function hashApiKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
@@ -0,0 +1,65 @@
+// lib/api-keys/index.ts
+import { hashApiKey } from "./hash";
+import { createJsonApiKeyStore } from "./json-store";
+import type { ApiKeyQuota, ApiKeyStore } from "./types";
+
+export type * from "./types";
+export { createJsonApiKeyStore } from "./json-store";
+export { hashApiKey } from "./hash";
+
+export const DEFAULT_API_KEYS_PATH = process.env.API_KEYS_FILE || "data/api-keys.json";
+
+function limitFromEnv(variable: string, fallback: number) {
+  const value = Number(process.env[variable]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/** Quota of keys created without one. */
+export const DEFAULT_API_KEY_QUOTA: ApiKeyQuota = {
+  perMinute: limitFromEnv("API_KEY_PER_MINUTE", 30),
+  perDay: limitFromEnv("API_KEY_PER_DAY", 1000),
+};
+
+const MAX_NAME_LENGTH = 120;
+
+let store: ApiKeyStore | null = null;
+
+export function getApiKeyStore() {
+  store ??= createJsonApiKeyStore(DEFAULT_API_KEYS_PATH);
+  return store;
+}
+
+/** The key sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`, if any. */
+export function apiKeyFromRequest(req: Request) {
+  const bearer = req.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer || req.headers.get("x-api-key")?.trim() || null;
+}
+
+/** The active key matching `key`, or null. */
+export function findApiKey(key: string) {
+  return getApiKeyStore().findByHash(hashApiKey(key));
+}
+
+/** Validate the body of a create request; the quota defaults per field. */
+export function parseApiKeyInput(
+  body: unknown
+): { input: { name: string; quota: ApiKeyQuota } } | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+  const name = typeof b.name === "string" ? b.name.replace(/\s+/g, " ").trim() : "";
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return { error: `"name" must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` };
+  }
+
+  const raw = (b.quota ?? {}) as Record<string, unknown>;
+  if (typeof raw !== "object" || Array.isArray(raw)) return { error: '"quota" must be an object' };
+  const quota = { ...DEFAULT_API_KEY_QUOTA };
+  for (const field of ["perMinute", "perDay"] as const) {
+    if (raw[field] === undefined) continue;
+    const value = raw[field];
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+      return { error: `"quota.${field}" must be a positive integer` };
+    }
+    quota[field] = value;
+  }
+  return { input: { name, quota } };
+}
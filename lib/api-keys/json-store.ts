@@ -0,0 +1,146 @@
+// lib/api-keys/json-store.ts
+import { randomBytes, randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { hashApiKey } from "./hash";
+import type { ApiKeyInfo, ApiKeyQuota, ApiKeyStore } from "./types";
+
+const KEY_PREFIX = "tp_";
+
+// Usage counts are written at most this often; a crash loses at most this much usage
+const USAGE_FLUSH_MS = 5000;
+
+type StoredKey = {
+  id: string;
+  name: string;
+  prefix: string;
+  hash: string; // sha256 of the key; the key itself is never stored
+  quota: ApiKeyQuota;
+  createdAt: string;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+  usage: { day: string; count: number };
+};
+
+type KeyFile = {
+  version: 1;
+  keys: Record<string, StoredKey>;
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+function toInfo(k: StoredKey): ApiKeyInfo {
+  return {
+    id: k.id,
+    name: k.name,
+    prefix: k.prefix,
+    quota: k.quota,
+    createdAt: k.createdAt,
+    revokedAt: k.revokedAt,
+    lastUsedAt: k.lastUsedAt,
+    usedToday: k.usage.day === today() ? k.usage.count : 0,
+  };
+}
+
+/**
+ * API keys in one JSON file, read once and kept in memory like the conversation store.
+ * Usage counts are written back in batches, every USAGE_FLUSH_MS; keys must be managed
+ * through this store (the admin API), not by editing the file while the server runs.
+ */
+export function createJsonApiKeyStore(file: string): ApiKeyStore {
+  let data: Promise<KeyFile> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function load() {
+    data ??= fs
+      .readFile(file, "utf8")
+      .then((raw) => {
+        const parsed = JSON.parse(raw) as KeyFile;
+        if (parsed?.version === 1 && parsed.keys) return parsed;
+        throw new Error(`Unsupported API key store format in ${file}`);
+      })
+      .catch((err: unknown) => {
+        if ((err as NodeJS.ErrnoException)?.code === "ENOENT") {
+          return { version: 1 as const, keys: {} };
+        }
+        data = null; // retry on the next call instead of caching the failure
+        throw err;
+      });
+    return data;
+  }
+
+  function persist(current: KeyFile) {
+    // this write includes any usage counted since the last one
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = null;
+    writing = writing
+      .catch(() => {})
+      .then(async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        const tmp = `${file}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(current, null, 2));
+        await fs.rename(tmp, file);
+      });
+    return writing;
+  }
+
+  function persistUsageSoon(current: KeyFile) {
+    flushTimer ??= setTimeout(() => {
+      persist(current).catch((err: unknown) => console.error("API key usage write failed:", err));
+    }, USAGE_FLUSH_MS);
+    flushTimer.unref?.();
+  }
+
+  return {
+    async create(name, quota) {
+      const current = await load();
+      const key = KEY_PREFIX + randomBytes(24).toString("base64url");
+      const k: StoredKey = {
+        id: randomUUID(),
+        name,
+        prefix: key.slice(0, KEY_PREFIX.length + 6),
+        hash: hashApiKey(key),
+        quota,
+        createdAt: new Date().toISOString(),
+        revokedAt: null,
+        lastUsedAt: null,
+        usage: { day: today(), count: 0 },
+      };
+      current.keys[k.id] = k;
+      await persist(current);
+      return { key, info: toInfo(k) };
+    },
+
+    async list() {
+      const all = Object.values((await load()).keys);
+      return all.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).map(toInfo);
+    },
+
+    async revoke(id) {
+      const current = await load();
+      const k = current.keys[id];
+      if (!k) return null;
+      k.revokedAt ??= new Date().toISOString();
+      await persist(current);
+      return toInfo(k);
+    },
+
+    async findByHash(hash) {
+      const k = Object.values((await load()).keys).find((k) => k.hash === hash);
+      return k && !k.revokedAt ? toInfo(k) : null;
+    },
+
+    async use(id) {
+      const current = await load();
+      const k = current.keys[id];
+      if (!k) return null;
+      if (k.usage.day !== today()) k.usage = { day: today(), count: 0 };
+      if (k.usage.count >= k.quota.perDay) return null;
+      k.usage.count++;
+      k.lastUsedAt = new Date().toISOString();
+      persistUsageSoon(current);
+      return { usedToday: k.usage.count };
+    },
+  };
+}
@@ -0,0 +1,30 @@
+// lib/api-keys/types.ts
+
+export type ApiKeyQuota = {
+  perMinute: number;
+  perDay: number; // UTC days
+};
+
+/** An API key as listed to admins; the key itself is only shown once, when created. */
+export type ApiKeyInfo = {
+  id: string;
+  name: string; // who it was issued to
+  prefix: string; // first characters of the key, to recognize it
+  quota: ApiKeyQuota;
+  createdAt: string;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+  usedToday: number;
+};
+
+export type ApiKeyCreated = { key: string; info: ApiKeyInfo };
+
+export interface ApiKeyStore {
+  create(name: string, quota: ApiKeyQuota): Promise<ApiKeyCreated>;
+  list(): Promise<ApiKeyInfo[]>;
+  revoke(id: string): Promise<ApiKeyInfo | null>;
+  // the active key with this hash, or null
+  findByHash(hash: string): Promise<ApiKeyInfo | null>;
+  /** Count one request for today; null when the daily quota is used up. */
+  use(id: string): Promise<{ usedToday: number } | null>;
+}
@@ -0,0 +1,43 @@
+// lib/api-v1/answer.ts
+import { cleanCitations } from "../prof-query/citations";
+import { lookupAnswer, storeAnswer } from "../prof-query/answer-cache";
+import { detectLanguage } from "../prof-query/language";
+import { askLLM, NO_INFO_ANSWERS, standaloneQuestion } from "../prof-query/llm";
+import type { ParsedQuery } from "../prof-query/request";
+import { buildContext, matchesToClient, retrieve } from "../prof-query/retrieval";
+import { NO_TRACE, type Trace } from "../telemetry";
+import type { AnswerResponse } from "./types";
+
+/**
+ * Answer one question like the chat does, minus streaming, comparisons and
+ * recommendations. A single English question skips the rewrite and costs one LLM call.
+ */
+export async function answer(query: ParsedQuery, trace: Trace = NO_TRACE): Promise<AnswerResponse> {
+  const { messages, filters, config } = query;
+  const question = messages[messages.length - 1].content;
+  const language = detectLanguage(question, query.language);
+  const options = { citations: query.citations, language };
+  trace.set({ messages: messages.length, language });
+
+  const rewrittenQuestion = await standaloneQuestion(messages, language, config.historyMessages, trace);
+  trace.set({ rewrittenQuestion });
+
+  const lookup = await lookupAnswer(rewrittenQuestion, filters, config, options);
+  trace.set({ answerCache: lookup.status });
+  if (lookup.hit) {
+    const { answer, citations, matches } = lookup.hit;
+    return { answer, citations, matches, rewrittenQuestion, language };
+  }
+
+  const { picked } = await retrieve(rewrittenQuestion, filters, config, trace);
+  trace.set({ picked: picked.length });
+  if (!picked.length) {
+    return { answer: NO_INFO_ANSWERS[language], citations: [], matches: [], rewrittenQuestion, language };
+  }
+
+  const matches = matchesToClient(picked);
+  const raw = await askLLM(rewrittenQuestion, buildContext(picked), options, trace);
+  const { answer, cited } = cleanCitations(raw, options.citations ? picked.length : 0);
+  await storeAnswer(lookup.key, { answer, citations: cited, matches });
+  return { answer, citations: cited, matches, rewrittenQuestion, language };
+}
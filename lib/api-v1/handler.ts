@@ -0,0 +1,101 @@
+// lib/api-v1/handler.ts
+import { NextResponse } from "next/server";
+import { apiKeyFromRequest, findApiKey, getApiKeyStore, type ApiKeyInfo } from "../api-keys";
+import { API_ERROR_STATUS, toApiError } from "../prof-query/contract";
+import { readJsonBody } from "../prof-query/request";
+import type { ApiError } from "../prof-query/types";
+import { getRateLimitStore } from "../rate-limit";
+import { createTrace, log, type Trace } from "../telemetry";
+
+type Parse<T> = (body: unknown) => { value: T } | { error: ApiError };
+type Run<T> = (request: T, trace: Trace) => Promise<unknown>;
+
+function secondsUntilUtcMidnight() {
+  const now = new Date();
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+/** Take one request from the key's per-minute bucket and its daily quota. */
+async function checkQuota(key: ApiKeyInfo): Promise<{ remaining: number } | { error: ApiError }> {
+  const { perMinute, perDay } = key.quota;
+  const minute = await getRateLimitStore().take(`v1:key:${key.id}`, {
+    capacity: perMinute,
+    refillPerSecond: perMinute / 60,
+  });
+  if (!minute.allowed) {
+    const retryAfter = Math.ceil(minute.retryAfterMs / 1000);
+    return {
+      error: {
+        error: `This key allows ${perMinute} requests per minute. Please wait ${retryAfter} seconds.`,
+        code: "QUOTA_EXCEEDED",
+        retryAfter,
+      },
+    };
+  }
+
+  const used = await getApiKeyStore().use(key.id);
+  if (!used) {
+    return {
+      error: {
+        error: `This key's quota of ${perDay} requests per day is used up.`,
+        code: "QUOTA_EXCEEDED",
+        retryAfter: secondsUntilUtcMidnight(),
+      },
+    };
+  }
+  return { remaining: perDay - used.usedToday };
+}
+
+/**
+ * The shared part of every /api/v1 endpoint: API key, body, quota, errors and the
+ * trace. `parse` validates the JSON body before the quota is taken, so a rejected
+ * request costs the key nothing; `run` gets its result and returns the response body.
+ */
+export async function handleV1<T>(
+  req: Request,
+  route: string,
+  parse: Parse<T>,
+  run: Run<T>
+): Promise<NextResponse> {
+  const trace = createTrace(`v1/${route}`, req);
+  const headers = new Headers({ "X-Trace-Id": trace.id });
+
+  const respond = (body: unknown, status: number) => {
+    trace.end(status);
+    return NextResponse.json(body, { status, headers });
+  };
+  const fail = (error: ApiError) => {
+    trace.set({ code: error.code });
+    if (error.retryAfter) headers.set("Retry-After", String(error.retryAfter));
+    return respond(error, API_ERROR_STATUS[error.code]);
+  };
+
+  try {
+    const presented = apiKeyFromRequest(req);
+    const key = presented ? await findApiKey(presented) : null;
+    if (!key) {
+      return fail({
+        error: presented ? "Unknown or revoked API key" : "Send an API key as Authorization: Bearer <key>",
+        code: "UNAUTHORIZED",
+      });
+    }
+    trace.set({ apiKey: key.id });
+
+    const read = await readJsonBody(req);
+    if ("error" in read) return fail(read.error);
+    const parsed = parse(read.body);
+    if ("error" in parsed) return fail(parsed.error);
+
+    const quota = await checkQuota(key);
+    if ("error" in quota) return fail(quota.error);
+    headers.set("X-Quota-Limit", String(key.quota.perDay));
+    headers.set("X-Quota-Remaining", String(quota.remaining));
+
+    return respond(await run(parsed.value, trace), 200);
+  } catch (err: unknown) {
+    const error = toApiError(err);
+    log("error", "v1_failed", { traceId: trace.id, route, code: error.code, err });
+    return fail(error);
+  }
+}
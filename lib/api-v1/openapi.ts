@@ -0,0 +1,250 @@
+// lib/api-v1/openapi.ts
+import { DEFAULT_API_KEY_QUOTA } from "../api-keys";
+import { RETRIEVAL_OPTIONS_SCHEMA } from "../prof-query/config";
+import { API_ERROR_STATUS } from "../prof-query/contract";
+import { FACET_FIELDS } from "../prof-query/filters";
+import { LANGUAGES } from "../prof-query/language";
+import { MAX_BODY_BYTES, MAX_MESSAGE_CHARS, MAX_MESSAGES } from "../prof-query/limits";
+import type { ApiErrorCode } from "../prof-query/types";
+
+export const API_VERSION = "1.0.0";
+
+type Schema = Record<string, unknown>;
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const string = (description?: string): Schema => ({ type: "string", ...(description ? { description } : {}) });
+
+const chunkRefs = (description: string): Schema => ({
+  type: "array",
+  items: { type: "integer", minimum: 1 },
+  description,
+});
+
+// Built from the same constants the validators use, so the document can't drift from
+// what the endpoints accept.
+const SCHEMAS: Record<string, Schema> = {
+  Filters: {
+    type: "object",
+    description:
+      "Facet filters. Values within one facet are ORed, different facets are ANDed. See GET /api/facets for the values.",
+    additionalProperties: false,
+    properties: Object.fromEntries(
+      FACET_FIELDS.map((field) => [
+        field,
+        { oneOf: [{ type: "string" }, { type: "array", items: { type: "string" } }] },
+      ])
+    ),
+  },
+  Options: {
+    type: "object",
+    description: "Retrieval options; each defaults to the server's setting.",
+    additionalProperties: false,
+    properties: Object.fromEntries(
+      Object.entries(RETRIEVAL_OPTIONS_SCHEMA).map(([name, option]) => [
+        name,
+        {
+          type: option.type,
+          minimum: option.min,
+          maximum: option.max,
+          default: option.default,
+          description: option.description,
+        },
+      ])
+    ),
+  },
+  Language: { type: "string", enum: LANGUAGES },
+  Match: {
+    type: "object",
+    description: "A picked profile chunk.",
+    required: ["chunkId", "score", "docId", "professor", "url", "chunkBlock", "snippet"],
+    properties: {
+      chunkId: string("Id of the chunk in the index"),
+      score: { type: "number", description: "Rerank score, higher is better" },
+      docId: string("Professor id, as in /professors/{docId}"),
+      professor: string(),
+      url: string("TUM profile page"),
+      chunkBlock: string("Profile section"),
+      snippet: string(),
+    },
+  },
+  Professor: {
+    type: "object",
+    required: ["docId", "professor", "url", "score", "sections", "chunks"],
+    properties: {
+      docId: string(),
+      professor: string(),
+      url: string(),
+      score: { type: "number", minimum: 0, maximum: 1, description: "Aggregated over their chunks" },
+      sections: { type: "array", items: { type: "string" } },
+      chunks: chunkRefs("Their chunks: n refers to matches[n - 1]"),
+    },
+  },
+  SearchRequest: {
+    type: "object",
+    required: ["query"],
+    properties: {
+      query: { type: "string", maxLength: MAX_MESSAGE_CHARS, description: "Searched as is, in English works best" },
+      filters: ref("Filters"),
+      options: ref("Options"),
+    },
+  },
+  SearchResponse: {
+    type: "object",
+    required: ["query", "professors", "matches"],
+    properties: {
+      query: string(),
+      professors: { type: "array", items: ref("Professor"), description: "Best first" },
+      matches: { type: "array", items: ref("Match"), description: "Best first" },
+    },
+  },
+  AnswerRequest: {
+    type: "object",
+    required: ["question"],
+    properties: {
+      question: { type: "string", maxLength: MAX_MESSAGE_CHARS },
+      history: {
+        type: "array",
+        maxItems: MAX_MESSAGES - 1,
+        description: "Earlier turns, oldest first, for follow-up questions",
+        items: {
+          type: "object",
+          required: ["role", "content"],
+          properties: {
+            role: { type: "string", enum: ["user", "assistant"] },
+            content: { type: "string", maxLength: MAX_MESSAGE_CHARS },
+          },
+        },
+      },
+      filters: ref("Filters"),
+      options: ref("Options"),
+      language: { ...ref("Language"), description: "Used when the question's language is unclear" },
+      citations: { type: "boolean", default: false, description: "Cite matches as [n] in the answer" },
+    },
+  },
+  AnswerResponse: {
+    type: "object",
+    required: ["answer", "citations", "matches", "rewrittenQuestion", "language"],
+    properties: {
+      answer: string(),
+      citations: chunkRefs("Cited matches: [n] refers to matches[n - 1]"),
+      matches: { type: "array", items: ref("Match") },
+      rewrittenQuestion: string("What the index was searched with"),
+      language: ref("Language"),
+    },
+  },
+  Error: {
+    type: "object",
+    required: ["error", "code"],
+    properties: {
+      error: string("For people; branch on `code`"),
+      code: { type: "string", enum: Object.keys(API_ERROR_STATUS) },
+      fields: {
+        type: "array",
+        description: "INVALID_OPTIONS: every invalid field",
+        items: {
+          type: "object",
+          properties: { field: string(), message: string() },
+        },
+      },
+      retryAfter: { type: "integer", description: "QUOTA_EXCEEDED: seconds, also sent as Retry-After" },
+    },
+  },
+};
+
+/** Error responses of an endpoint, one per HTTP status, listing the codes behind it. */
+function errorResponses(codes: ApiErrorCode[]) {
+  const byStatus = new Map<number, ApiErrorCode[]>();
+  for (const code of codes) {
+    const status = API_ERROR_STATUS[code];
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+  return Object.fromEntries(
+    Array.from(byStatus.entries()).map(([status, list]) => [
+      String(status),
+      {
+        description: list.join(", "),
+        content: { "application/json": { schema: ref("Error") } },
+      },
+    ])
+  );
+}
+
+const COMMON_ERRORS: ApiErrorCode[] = [
+  "INVALID_JSON",
+  "INVALID_QUERY",
+  "INVALID_FILTERS",
+  "INVALID_OPTIONS",
+  "BODY_TOO_LARGE",
+  "UNAUTHORIZED",
+  "QUOTA_EXCEEDED",
+  "UPSTREAM_EMBEDDING_FAILED",
+  "UPSTREAM_VECTOR_STORE_FAILED",
+  "UPSTREAM_RERANK_FAILED",
+  "INTERNAL_ERROR",
+];
+
+function operation(summary: string, description: string, name: string, errors: ApiErrorCode[]) {
+  return {
+    post: {
+      summary,
+      description,
+      operationId: name.charAt(0).toLowerCase() + name.slice(1),
+      requestBody: {
+        required: true,
+        content: { "application/json": { schema: ref(`${name}Request`) } },
+      },
+      responses: {
+        "200": {
+          description: "OK",
+          headers: {
+            "X-Quota-Limit": { schema: { type: "integer" }, description: "Requests per day" },
+            "X-Quota-Remaining": { schema: { type: "integer" }, description: "Requests left today (UTC)" },
+            "X-Trace-Id": { schema: { type: "string" }, description: "Quote it when reporting a problem" },
+          },
+          content: { "application/json": { schema: ref(`${name}Response`) } },
+        },
+        ...errorResponses(errors),
+      },
+    },
+  };
+}
+
+/** The OpenAPI 3.1 document of /api/v1. */
+export function buildOpenApiDocument() {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "TUM Professor Search API",
+      version: API_VERSION,
+      description:
+        `Search TUM professor profiles and get answers grounded in them. Every request needs an API key. ` +
+        `Keys have a per-minute and a daily quota (by default ${DEFAULT_API_KEY_QUOTA.perMinute} per minute ` +
+        `and ${DEFAULT_API_KEY_QUOTA.perDay} per day). Bodies can have at most ${MAX_BODY_BYTES} bytes.`,
+    },
+    security: [{ bearer: [] }, { apiKey: [] }],
+    paths: {
+      "/api/v1/search": operation(
+        "Find professors",
+        "Retrieval only, no LLM call: the query is routed to professors via their profile " +
+          "summaries, then their chunks are fetched, reranked and picked.",
+        "Search",
+        COMMON_ERRORS
+      ),
+      "/api/v1/answer": operation(
+        "Answer a question",
+        "A generated answer with the chunks it is based on. A single English question costs one " +
+          "LLM call; follow-ups and other languages are rewritten first, which costs another.",
+        "Answer",
+        [...COMMON_ERRORS, "INVALID_MESSAGES", "INVALID_LANGUAGE", "MESSAGES_TOO_LARGE", "UPSTREAM_LLM_FAILED"]
+      ),
+    },
+    components: {
+      securitySchemes: {
+        bearer: { type: "http", scheme: "bearer", description: "Authorization: Bearer <key>" },
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: SCHEMAS,
+    },
+  };
+}
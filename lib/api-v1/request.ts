@@ -0,0 +1,84 @@
+// lib/api-v1/request.ts
+import { parseRetrievalOptions, type RetrievalConfig } from "../prof-query/config";
+import { parseFilters, type QueryFilters } from "../prof-query/filters";
+import { MAX_MESSAGE_CHARS } from "../prof-query/limits";
+import { parseQueryRequest, type ParsedQuery } from "../prof-query/request";
+import type { ApiError } from "../prof-query/types";
+
+export type ParsedSearch = { query: string; filters: QueryFilters; config: RetrievalConfig };
+
+function badRequest(raw: unknown): ApiError | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { error: "Request body must be a JSON object", code: "INVALID_JSON" };
+  }
+  return null;
+}
+
+function checkText(value: unknown, field: string): ApiError | null {
+  if (typeof value !== "string" || !value.trim()) {
+    return { error: `Missing or empty "${field}"`, code: "INVALID_QUERY" };
+  }
+  if (value.length > MAX_MESSAGE_CHARS) {
+    return { error: `"${field}" can have at most ${MAX_MESSAGE_CHARS} characters`, code: "INVALID_QUERY" };
+  }
+  return null;
+}
+
+/** Validate a POST /api/v1/search body (see SearchRequest). */
+export function parseSearchRequest(body: unknown): { search: ParsedSearch } | { error: ApiError } {
+  const invalid = badRequest(body);
+  if (invalid) return { error: invalid };
+  const raw = body as Record<string, unknown>;
+
+  const queryError = checkText(raw.query, "query");
+  if (queryError) return { error: queryError };
+
+  const parsedFilters = parseFilters(raw.filters);
+  if ("error" in parsedFilters) {
+    return { error: { error: parsedFilters.error, code: "INVALID_FILTERS" } };
+  }
+  const parsedOptions = parseRetrievalOptions(raw.options);
+  if ("error" in parsedOptions) {
+    const { error, fields } = parsedOptions;
+    return { error: { error, code: "INVALID_OPTIONS", fields } };
+  }
+
+  return {
+    search: {
+      query: (raw.query as string).trim(),
+      filters: parsedFilters.filters,
+      config: parsedOptions.config,
+    },
+  };
+}
+
+/**
+ * Validate a POST /api/v1/answer body (see AnswerRequest). The question and history
+ * become chat messages, so they are checked like those of /api/prof-query.
+ */
+export function parseAnswerRequest(body: unknown): { query: ParsedQuery } | { error: ApiError } {
+  const invalid = badRequest(body);
+  if (invalid) return { error: invalid };
+  const raw = body as Record<string, unknown>;
+
+  const questionError = checkText(raw.question, "question");
+  if (questionError) return { error: questionError };
+
+  const history = raw.history ?? [];
+  const valid =
+    Array.isArray(history) &&
+    history.every((m) => (m?.role === "user" || m?.role === "assistant") && typeof m?.content === "string");
+  if (!valid) {
+    return {
+      error: { error: '"history" must be a list of user and assistant messages', code: "INVALID_MESSAGES" },
+    };
+  }
+
+  return parseQueryRequest({
+    messages: [...(history as unknown[]), { role: "user", content: raw.question }],
+    citations: raw.citations,
+    filters: raw.filters,
+    options: raw.options,
+    language: raw.language,
+  });
+}
@@ -0,0 +1,31 @@
+// lib/api-v1/search.ts
+import { rankProfessors } from "../prof-query/recommend";
+import { matchesToClient, retrieve } from "../prof-query/retrieval";
+import { NO_TRACE, type Trace } from "../telemetry";
+import type { VectorMatch } from "../vector-store";
+import type { ParsedSearch } from "./request";
+import type { SearchProfessor, SearchResponse } from "./types";
+
+export function professorsOf(picked: VectorMatch[]): SearchProfessor[] {
+  return rankProfessors(picked).map(({ docId, professor, url, score, sections, citations }) => ({
+    docId,
+    professor,
+    url,
+    score,
+    sections,
+    chunks: citations,
+  }));
+}
+
+/**
+ * The chat's retrieval without any LLM call: the query is embedded as given and goes
+ * through the same summary → chunk routing, rerank and pick.
+ */
+export async function search(
+  { query, filters, config }: ParsedSearch,
+  trace: Trace = NO_TRACE
+): Promise<SearchResponse> {
+  const { picked } = await retrieve(query, filters, config, trace);
+  trace.set({ picked: picked.length });
+  return { query, professors: professorsOf(picked), matches: matchesToClient(picked) };
+}
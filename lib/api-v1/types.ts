@@ -0,0 +1,49 @@
+// lib/api-v1/types.ts
+import type { RetrievalConfig } from "../prof-query/config";
+import type { QueryFilters } from "../prof-query/filters";
+import type { Language } from "../prof-query/language";
+import type { MatchForClient } from "../prof-query/types";
+
+// Wire types of the public /api/v1 endpoints. Unlike /api/prof-query, these are a
+// promise to other teams: add optional fields, never change or remove existing ones.
+
+/** Body of POST /api/v1/search. */
+export type SearchRequest = {
+  query: string; // searched as is: no rewrite, no translation
+  filters?: QueryFilters;
+  options?: Partial<RetrievalConfig>;
+};
+
+/** A professor behind the matched chunks, ranked by their aggregated score. */
+export type SearchProfessor = {
+  docId: string;
+  professor: string;
+  url: string;
+  score: number; // 0-1, aggregated over their chunks
+  sections: string[]; // profile sections their chunks come from
+  chunks: number[]; // their chunks: n refers to matches[n - 1]
+};
+
+export type SearchResponse = {
+  query: string;
+  professors: SearchProfessor[]; // best first
+  matches: MatchForClient[]; // picked chunks, best first
+};
+
+/** Body of POST /api/v1/answer. */
+export type AnswerRequest = {
+  question: string;
+  history?: { role: "user" | "assistant"; content: string }[]; // earlier turns, oldest first
+  filters?: QueryFilters;
+  options?: Partial<RetrievalConfig>;
+  language?: Language; // used when the question's language is unclear
+  citations?: boolean; // cite matches as [n] in the answer
+};
+
+export type AnswerResponse = {
+  answer: string;
+  citations: number[]; // [n] in the answer refers to matches[n - 1]
+  matches: MatchForClient[];
+  rewrittenQuestion: string; // what the index was searched with
+  language: Language; // of the answer
+};
@@ -0,0 +1,43 @@
+// lib/cache/disk.ts
+import { promises as fs } from "fs";
+import path from "path";
+import type { Cache } from "./types";
+
+/**
+ * One JSON file per entry under `<dir>/<name>/`, so the cache survives restarts and is
+ * shared by every process on the machine. Expired entries are deleted when read.
+ */
+export function createDiskCache<T>(dir: string, name: string, options: { ttlMs: number }): Cache<T> {
+  const root = path.join(dir, name);
+  const fileFor = (key: string) => path.join(root, `${key}.json`);
+
+  return {
+    name,
+
+    async get(key) {
+      try {
+        const entry = JSON.parse(await fs.readFile(fileFor(key), "utf8")) as {
+          value: T;
+          expiresAt: number;
+        };
+        if (entry.expiresAt > Date.now()) return entry.value;
+        await fs.rm(fileFor(key), { force: true });
+      } catch (err: unknown) {
+        if ((err as NodeJS.ErrnoException)?.code !== "ENOENT") throw err;
+      }
+      return undefined;
+    },
+
+    async set(key, value) {
+      await fs.mkdir(root, { recursive: true });
+      const file = fileFor(key);
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify({ value, expiresAt: Date.now() + options.ttlMs }));
+      await fs.rename(tmp, file);
+    },
+
+    async clear() {
+      await fs.rm(root, { recursive: true, force: true });
+    },
+  };
+}
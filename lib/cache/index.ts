@@ -0,0 +1,111 @@
+// lib/cache/index.ts
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { DEFAULT_MANIFEST_PATH } from "../ingest/manifest";
+import { createDiskCache } from "./disk";
+import { createMemoryCache } from "./memory";
+import type { Cache, CacheStatus } from "./types";
+
+export type * from "./types";
+export { createDiskCache } from "./disk";
+export { createMemoryCache } from "./memory";
+
+export type CacheName = "embedding" | "retrieval" | "answer";
+
+export const DEFAULT_CACHE_DIR = process.env.CACHE_DIR || "data/cache";
+
+function secondsFromEnv(variable: string, fallback: number) {
+  const raw = process.env[variable];
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// TTLs in seconds; 0 disables that cache. Answers are only cached when asked for,
+// since a cached answer ignores prompt and model changes until it expires.
+const TTL_SECONDS: Record<CacheName, number> = {
+  embedding: secondsFromEnv("EMBEDDING_CACHE_TTL", 24 * 60 * 60),
+  retrieval: secondsFromEnv("RETRIEVAL_CACHE_TTL", 60 * 60),
+  answer: secondsFromEnv("ANSWER_CACHE_TTL", 0),
+};
+
+const MAX_MEMORY_ENTRIES = Number(process.env.CACHE_MAX_ENTRIES) || 1000;
+
+const caches = new Map<CacheName, Cache<unknown> | null>();
+
+function createCache(name: CacheName): Cache<unknown> | null {
+  const ttlMs = TTL_SECONDS[name] * 1000;
+  if (!ttlMs) return null;
+
+  switch (process.env.CACHE_BACKEND || "memory") {
+    case "none":
+      return null;
+    case "memory":
+      return createMemoryCache(name, { ttlMs, maxEntries: MAX_MEMORY_ENTRIES });
+    case "disk":
+      return createDiskCache(DEFAULT_CACHE_DIR, name, { ttlMs });
+    default:
+      throw new Error(
+        `Invalid CACHE_BACKEND "${process.env.CACHE_BACKEND}" (expected memory, disk, none)`
+      );
+  }
+}
+
+/**
+ * Cache selected by CACHE_BACKEND: `memory` (default, per process), `disk` (JSON files
+ * under CACHE_DIR) or `none`. Returns null when the cache is disabled.
+ */
+export function getCache<T>(name: CacheName): Cache<T> | null {
+  if (!caches.has(name)) caches.set(name, createCache(name));
+  return caches.get(name) as Cache<T> | null;
+}
+
+/**
+ * Changes whenever ingestion writes the manifest, i.e. whenever the index changed.
+ * It is part of every key, so entries from before a re-ingestion are never read again,
+ * even by processes that didn't run the ingestion.
+ */
+async function indexGeneration() {
+  try {
+    return String((await fs.stat(DEFAULT_MANIFEST_PATH)).mtimeMs);
+  } catch {
+    return "0";
+  }
+}
+
+export async function cacheKey(...parts: unknown[]) {
+  return createHash("sha256")
+    .update(JSON.stringify([await indexGeneration(), ...parts]))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * Read-through helper: returns the cached value or computes and stores it. Cache
+ * errors are logged and otherwise ignored; a broken cache must not fail a request.
+ */
+export async function cached<T>(
+  cache: Cache<T> | null,
+  key: string,
+  compute: () => Promise<T>
+): Promise<{ value: T; status: CacheStatus }> {
+  if (!cache) return { value: await compute(), status: "off" };
+
+  const hit = await cache.get(key).catch((err: unknown) => {
+    console.error(`Cache ${cache.name} read error:`, err);
+    return undefined;
+  });
+  if (hit !== undefined) return { value: hit, status: "hit" };
+
+  const value = await compute();
+  await cache.set(key, value).catch((err: unknown) => {
+    console.error(`Cache ${cache.name} write error:`, err);
+  });
+  return { value, status: "miss" };
+}
+
+/** Drop every entry (ingestion calls this after changing the index). */
+export async function clearCaches() {
+  for (const name of Object.keys(TTL_SECONDS) as CacheName[]) {
+    await getCache(name)?.clear();
+  }
+}
@@ -0,0 +1,35 @@
+// lib/cache/memory.ts
+import type { Cache } from "./types";
+
+/** Per-process LRU cache; entries expire `ttlMs` after they were set. */
+export function createMemoryCache<T>(
+  name: string,
+  options: { ttlMs: number; maxEntries: number }
+): Cache<T> {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+
+  return {
+    name,
+
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+      entries.set(key, entry); // re-insert: Map order is the LRU order
+      return entry.value;
+    },
+
+    async set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + options.ttlMs });
+      while (entries.size > options.maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+
+    async clear() {
+      entries.clear();
+    },
+  };
+}
@@ -0,0 +1,14 @@
+// lib/cache/types.ts
+
+export type CacheStatus = "hit" | "miss" | "off";
+
+/**
+ * A key-value cache with a fixed TTL per cache. Keys are opaque strings (see
+ * `cacheKey`); values must survive a JSON round trip so any backend can store them.
+ */
+export interface Cache<T> {
+  readonly name: string;
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,111 @@
+// lib/conversations/index.ts
+import { isComparison, isMatchForClient, isRecommendation } from "../prof-query/contract";
+import { parseFilters } from "../prof-query/filters";
+import { BROWSE_PAGE_SIZE, MAX_BROWSE_PAGES } from "../prof-query/limits";
+import { createJsonConversationStore } from "./json-store";
+import type {
+  BrowsePosition,
+  ConversationInput,
+  ConversationMessage,
+  ConversationStore,
+} from "./types";
+
+export type * from "./types";
+export { createJsonConversationStore } from "./json-store";
+
+export const DEFAULT_CONVERSATIONS_PATH = process.env.CONVERSATIONS_FILE || "data/conversations.json";
+
+export const MAX_TITLE_LENGTH = 120;
+const MAX_MESSAGES = 200;
+const MAX_CONTENT_LENGTH = 20000;
+// a browse list with every page loaded has the most
+const MAX_MATCHES = BROWSE_PAGE_SIZE * MAX_BROWSE_PAGES;
+
+// Every save sends the whole chat with its source cards, so it gets more room than a query
+export const MAX_CONVERSATION_BYTES = 1024 * 1024;
+export const MAX_RENAME_BYTES = 1024;
+export const MAX_CONVERSATIONS_PER_SESSION = 200;
+
+let store: ConversationStore | null = null;
+
+export function getConversationStore() {
+  store ??= createJsonConversationStore(DEFAULT_CONVERSATIONS_PATH);
+  return store;
+}
+
+/** Conversation ids are generated by the client, so they are checked before use. */
+export function isValidConversationId(id: string) {
+  return /^[\w-]{8,64}$/.test(id);
+}
+
+export function cleanTitle(raw: unknown) {
+  if (typeof raw !== "string") return null;
+  const title = raw.replace(/\s+/g, " ").trim().slice(0, MAX_TITLE_LENGTH);
+  return title || null;
+}
+
+function isBrowsePosition(raw: unknown) {
+  if (!raw || typeof raw !== "object") return false;
+  const b = raw as Record<string, unknown>;
+  return (
+    Number.isInteger(b.page) &&
+    typeof b.hasMore === "boolean" &&
+    (b.filters === undefined || "filters" in parseFilters(b.filters))
+  );
+}
+
+function parseMessage(raw: unknown): ConversationMessage | null {
+  if (!raw || typeof raw !== "object") return null;
+  const m = raw as Record<string, unknown>;
+  if (typeof m.id !== "string" || typeof m.content !== "string") return null;
+  if (m.role !== "user" && m.role !== "assistant") return null;
+  if (m.content.length > MAX_CONTENT_LENGTH) return null;
+  if (m.matches !== undefined && !(Array.isArray(m.matches) && m.matches.every(isMatchForClient))) {
+    return null;
+  }
+  if ((m.matches?.length ?? 0) > MAX_MATCHES) return null;
+  if (
+    m.recommendations !== undefined &&
+    !(Array.isArray(m.recommendations) && m.recommendations.every(isRecommendation))
+  ) {
+    return null;
+  }
+  if (m.comparison !== undefined && !isComparison(m.comparison)) return null;
+  if (m.rewrittenQuestion !== undefined && typeof m.rewrittenQuestion !== "string") return null;
+  if (m.feedback !== undefined && m.feedback !== "up" && m.feedback !== "down") return null;
+  if (m.browse !== undefined && !isBrowsePosition(m.browse)) return null;
+  return {
+    id: m.id,
+    role: m.role,
+    content: m.content,
+    ...(m.matches ? { matches: m.matches } : {}),
+    ...(m.comparison ? { comparison: m.comparison } : {}),
+    ...(m.recommendations ? { recommendations: m.recommendations } : {}),
+    ...(m.rewrittenQuestion ? { rewrittenQuestion: m.rewrittenQuestion } : {}),
+    ...(m.feedback ? { feedback: m.feedback } : {}),
+    ...(m.browse ? { browse: m.browse as BrowsePosition } : {}),
+  };
+}
+
+/** Validate the body of a save request. Returns an error message for anything else. */
+export function parseConversationInput(
+  id: string,
+  body: unknown
+): { input: ConversationInput } | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+  const title = cleanTitle(b.title);
+  if (!title) return { error: 'Missing or invalid "title"' };
+
+  if (!Array.isArray(b.messages)) return { error: 'Missing or invalid "messages" array' };
+  if (b.messages.length > MAX_MESSAGES) {
+    return { error: `A conversation can have at most ${MAX_MESSAGES} messages` };
+  }
+
+  const messages: ConversationMessage[] = [];
+  for (const [i, raw] of b.messages.entries()) {
+    const message = parseMessage(raw);
+    if (!message) return { error: `Invalid message at index ${i}` };
+    messages.push(message);
+  }
+  return { input: { id, title, messages } };
+}
@@ -0,0 +1,147 @@
+// lib/conversations/json-store.ts
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { Conversation, ConversationStore, ConversationSummary } from "./types";
+
+type StoredConversation = Conversation & { sessionId: string };
+
+type ConversationFile = {
+  version: 1;
+  conversations: Record<string, StoredConversation>;
+};
+
+function toConversation(c: StoredConversation): Conversation {
+  return {
+    id: c.id,
+    title: c.title,
+    createdAt: c.createdAt,
+    updatedAt: c.updatedAt,
+    shareId: c.shareId,
+    messages: c.messages,
+  };
+}
+
+function toSummary(c: StoredConversation): ConversationSummary {
+  return {
+    id: c.id,
+    title: c.title,
+    updatedAt: c.updatedAt,
+    messageCount: c.messages.length,
+    shared: !!c.shareId,
+  };
+}
+
+/**
+ * All conversations in one JSON file. It is read once and kept in memory; writes are
+ * serialized and go through a temp file, so concurrent requests can't interleave
+ * partial writes.
+ */
+export function createJsonConversationStore(file: string): ConversationStore {
+  let data: Promise<ConversationFile> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  function load() {
+    data ??= fs
+      .readFile(file, "utf8")
+      .then((raw) => {
+        const parsed = JSON.parse(raw) as ConversationFile;
+        if (parsed?.version === 1 && parsed.conversations) return parsed;
+        throw new Error(`Unsupported conversation store format in ${file}`);
+      })
+      .catch((err: unknown) => {
+        if ((err as NodeJS.ErrnoException)?.code === "ENOENT") {
+          return { version: 1 as const, conversations: {} };
+        }
+        data = null; // retry on the next call instead of caching the failure
+        throw err;
+      });
+    return data;
+  }
+
+  function persist(current: ConversationFile) {
+    writing = writing
+      .catch(() => {})
+      .then(async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        const tmp = `${file}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(current));
+        await fs.rename(tmp, file);
+      });
+    return writing;
+  }
+
+  async function owned(sessionId: string, id: string) {
+    const c = (await load()).conversations[id];
+    return c && c.sessionId === sessionId ? c : null;
+  }
+
+  return {
+    async list(sessionId) {
+      const all = Object.values((await load()).conversations);
+      return all
+        .filter((c) => c.sessionId === sessionId)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(toSummary);
+    },
+
+    async get(sessionId, id) {
+      const c = await owned(sessionId, id);
+      return c ? toConversation(c) : null;
+    },
+
+    async save(sessionId, input) {
+      const current = await load();
+      const prev = current.conversations[input.id];
+      if (prev && prev.sessionId !== sessionId) return null;
+
+      const now = new Date().toISOString();
+      const c: StoredConversation = {
+        id: input.id,
+        sessionId,
+        title: input.title,
+        createdAt: prev?.createdAt ?? now,
+        updatedAt: now,
+        shareId: prev?.shareId ?? null,
+        messages: input.messages,
+      };
+      current.conversations[c.id] = c;
+      await persist(current);
+      return toConversation(c);
+    },
+
+    async rename(sessionId, id, title) {
+      const c = await owned(sessionId, id);
+      if (!c) return null;
+      c.title = title;
+      c.updatedAt = new Date().toISOString();
+      await persist(await load());
+      return toConversation(c);
+    },
+
+    async delete(sessionId, id) {
+      const current = await load();
+      if (!(await owned(sessionId, id))) return false;
+      delete current.conversations[id];
+      await persist(current);
+      return true;
+    },
+
+    async share(sessionId, id) {
+      const c = await owned(sessionId, id);
+      if (!c) return null;
+      if (!c.shareId) {
+        // unguessable, and unrelated to the conversation id the owner's browser knows
+        c.shareId = randomBytes(12).toString("base64url");
+        await persist(await load());
+      }
+      return c.shareId;
+    },
+
+    async getShared(shareId) {
+      const all = Object.values((await load()).conversations);
+      const c = all.find((c) => c.shareId === shareId);
+      return c ? toConversation(c) : null;
+    },
+  };
+}
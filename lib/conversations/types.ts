@@ -0,0 +1,55 @@
+// lib/conversations/types.ts
+import type { FeedbackRating } from "../feedback/types";
+import type { QueryFilters } from "../prof-query/filters";
+import type { Comparison, MatchForClient, Recommendation } from "../prof-query/types";
+
+/** Where a browse-mode result list stands, so more pages can be loaded later. */
+export type BrowsePosition = {
+  page: number; // pages loaded into `matches`
+  hasMore: boolean;
+  filters?: QueryFilters; // of the original request
+};
+
+/** A chat message as the UI shows it, including the source cards of an answer. */
+export type ConversationMessage = {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  matches?: MatchForClient[];
+  comparison?: Comparison;
+  recommendations?: Recommendation[];
+  rewrittenQuestion?: string;
+  feedback?: FeedbackRating; // the rating this browser gave the answer
+  browse?: BrowsePosition; // set on browse-mode results instead of an answer
+};
+
+export type Conversation = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  shareId: string | null; // set once the conversation has been shared
+  messages: ConversationMessage[];
+};
+
+export type ConversationSummary = Pick<Conversation, "id" | "title" | "updatedAt"> & {
+  messageCount: number;
+  shared: boolean;
+};
+
+export type ConversationInput = Pick<Conversation, "id" | "title" | "messages">;
+
+/**
+ * Saved conversations, owned by an anonymous session id. Every method except
+ * `getShared` only sees the given session's conversations.
+ */
+export interface ConversationStore {
+  list(sessionId: string): Promise<ConversationSummary[]>;
+  get(sessionId: string, id: string): Promise<Conversation | null>;
+  // create or replace; null when the id belongs to another session
+  save(sessionId: string, input: ConversationInput): Promise<Conversation | null>;
+  rename(sessionId: string, id: string, title: string): Promise<Conversation | null>;
+  delete(sessionId: string, id: string): Promise<boolean>;
+  share(sessionId: string, id: string): Promise<string | null>; // returns the share id
+  getShared(shareId: string): Promise<Conversation | null>;
+}
@@ -0,0 +1,182 @@
+// lib/directory/index.ts
+import { chairName } from "../ingest/keywords";
+import {
+  DEFAULT_LEXICAL_INDEX_PATH,
+  getIndexedProfessors,
+  tokenize,
+  type LexicalRecord,
+} from "../lexical";
+
+export type ProfessorListItem = {
+  docId: string;
+  professor: string;
+  url: string;
+  chair: string;
+  school: string;
+  department: string;
+  topics: string[];
+  keywords: string[];
+};
+
+export type ProfessorSection = { chunkBlock: string; text: string };
+
+export type ProfessorDetail = ProfessorListItem & {
+  summary: string;
+  sections: ProfessorSection[];
+};
+
+const KEYWORD_COUNT = 6;
+
+type Entry = { summary?: LexicalRecord; chunks: LexicalRecord[] };
+
+function entries(professors: Record<string, { records: LexicalRecord[] }>) {
+  return Object.entries(professors).map(([docId, p]) => {
+    const entry: Entry = { chunks: [] };
+    for (const r of p.records) {
+      if (r.metadata.kind === "profile_summary") entry.summary = r;
+      else entry.chunks.push(r);
+    }
+    return { docId, entry };
+  });
+}
+
+/**
+ * Distinctive summary terms: tf-idf over all summaries, so words every profile uses
+ * ("research", "university") don't crowd out the actual topics.
+ */
+function keywordExtractor(summaries: string[]) {
+  const df = new Map<string, number>();
+  for (const s of summaries) for (const t of new Set(tokenize(s))) df.set(t, (df.get(t) ?? 0) + 1);
+
+  return (summary: string, exclude: string[]) => {
+    const skip = new Set(exclude.flatMap(tokenize));
+    const tf = new Map<string, number>();
+    for (const t of tokenize(summary)) {
+      if (t.length < 4 || /^\d+$/.test(t) || skip.has(t)) continue;
+      tf.set(t, (tf.get(t) ?? 0) + 1);
+    }
+    return Array.from(tf.entries())
+      .map(([t, n]) => ({ t, w: n * Math.log(1 + summaries.length / (df.get(t) ?? 1)) }))
+      .sort((a, b) => b.w - a.w || a.t.localeCompare(b.t))
+      .slice(0, KEYWORD_COUNT)
+      .map((k) => k.t);
+  };
+}
+
+function toListItem(docId: string, entry: Entry, keywords: string[]): ProfessorListItem {
+  const md = entry.summary?.metadata ?? entry.chunks[0]?.metadata;
+  const texts = [entry.summary?.metadata.text ?? "", ...entry.chunks.map((c) => c.metadata.text)];
+  return {
+    docId,
+    professor: md?.professor ?? docId,
+    url: md?.source_url ?? "",
+    chair: chairName(texts),
+    school: md?.school ?? "",
+    department: md?.department ?? "",
+    topics: md?.topics ?? [],
+    keywords,
+  };
+}
+
+type Directory = { entry: Entry; item: ProfessorListItem }[];
+
+let cached: { mtimeMs: number; directory: Directory } | null = null;
+
+/**
+ * The directory is built from the lexical index file, which every ingestion writes
+ * whatever the vector store; without it there is nothing to list, which is an error
+ * rather than an empty directory. Rebuilt when ingestion rewrites the file.
+ */
+async function loadDirectory(): Promise<Directory> {
+  const indexed = await getIndexedProfessors();
+  if (!indexed) {
+    throw new Error(
+      `No lexical index at ${DEFAULT_LEXICAL_INDEX_PATH}; run \`npm run ingest\` to build the directory`
+    );
+  }
+  if (cached?.mtimeMs === indexed.mtimeMs) return cached.directory;
+
+  const all = entries(indexed.professors);
+  const extract = keywordExtractor(all.map((e) => e.entry.summary?.metadata.text ?? ""));
+  const directory = all.map(({ docId, entry }) => {
+    const md = entry.summary?.metadata;
+    return { entry, item: toListItem(docId, entry, extract(md?.text ?? "", [md?.professor ?? ""])) };
+  });
+  cached = { mtimeMs: indexed.mtimeMs, directory };
+  return directory;
+}
+
+/** All indexed professors, sorted by surname, optionally filtered by a name/keyword query. */
+export async function listProfessors(params: { q?: string; page: number; pageSize: number }) {
+  let items = (await loadDirectory()).map((d) => d.item);
+
+  const q = params.q?.trim().toLowerCase();
+  if (q) {
+    items = items.filter((p) =>
+      [p.professor, p.chair, p.school, p.department, ...p.topics, ...p.keywords].some((f) =>
+        f.toLowerCase().includes(q)
+      )
+    );
+  }
+
+  // sort by surname, which is how people scan a staff list
+  const surname = (name: string) => name.trim().split(/\s+/).pop() ?? name;
+  items.sort(
+    (a, b) =>
+      surname(a.professor).localeCompare(surname(b.professor), "de") ||
+      a.professor.localeCompare(b.professor, "de")
+  );
+
+  const start = (params.page - 1) * params.pageSize;
+  return {
+    professors: items.slice(start, start + params.pageSize),
+    page: params.page,
+    pageSize: params.pageSize,
+    total: items.length,
+  };
+}
+
+/**
+ * One professor's summary plus all their chunks, merged per section. Sections keep the
+ * order they have on the profile page. Returns null for an unknown doc_id.
+ */
+export async function getProfessor(docId: string): Promise<ProfessorDetail | null> {
+  const found = (await loadDirectory()).find((d) => d.item.docId === docId);
+  if (!found) return null;
+
+  const sections = new Map<string, string[]>();
+  for (const c of found.entry.chunks) {
+    const block = c.metadata.chunk_block || "Other";
+    if (!sections.has(block)) sections.set(block, []);
+    sections.get(block)!.push(c.metadata.text);
+  }
+
+  return {
+    ...found.item,
+    summary: found.entry.summary?.metadata.text ?? "",
+    sections: Array.from(sections, ([chunkBlock, texts]) => ({
+      chunkBlock,
+      text: texts.join("\n"),
+    })),
+  };
+}
+
+export type FacetValue = { value: string; count: number };
+
+function countValues(values: string[]) {
+  const counts = new Map<string, number>();
+  for (const v of values) if (v) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort(
+    (a, b) => b.count - a.count || a.value.localeCompare(b.value, "de")
+  );
+}
+
+/** Every facet value present in the index, with the number of professors that have it. */
+export async function listFacets() {
+  const items = (await loadDirectory()).map((d) => d.item);
+  return {
+    school: countValues(items.map((p) => p.school)),
+    department: countValues(items.map((p) => p.department)),
+    topics: countValues(items.flatMap((p) => p.topics)),
+  };
+}
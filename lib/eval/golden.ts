@@ -0,0 +1,73 @@
+// lib/eval/golden.ts
+import { promises as fs } from "fs";
+import { parseFilters } from "../prof-query/filters";
+import { isLanguage, LANGUAGES } from "../prof-query/language";
+import type { GoldenSet } from "./types";
+
+export const DEFAULT_GOLDEN_PATH = process.env.EVAL_GOLDEN_SET || "eval/golden.json";
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function caseProblems(raw: Record<string, unknown>, index: number) {
+  const where = `case ${typeof raw.id === "string" ? `"${raw.id}"` : index}`;
+  const problems: string[] = [];
+
+  if (typeof raw.id !== "string" || !raw.id) {
+    problems.push(`${where}: "id" must be a non-empty string`);
+  }
+  if (typeof raw.question !== "string" || !raw.question.trim()) {
+    problems.push(`${where}: "question" must be a non-empty string`);
+  }
+  if (raw.history !== undefined) {
+    const valid =
+      Array.isArray(raw.history) &&
+      raw.history.every(
+        (m) => (m?.role === "user" || m?.role === "assistant") && typeof m?.content === "string"
+      );
+    if (!valid) problems.push(`${where}: "history" must be a list of user/assistant messages`);
+  }
+  for (const field of ["expectedDocIds", "expectedFacts"]) {
+    if (raw[field] !== undefined && !isStringArray(raw[field])) {
+      problems.push(`${where}: "${field}" must be a list of strings`);
+    }
+  }
+  if (raw.expectNoInfo !== undefined && typeof raw.expectNoInfo !== "boolean") {
+    problems.push(`${where}: "expectNoInfo" must be a boolean`);
+  }
+  if (raw.expectNoInfo === true && isStringArray(raw.expectedDocIds) && raw.expectedDocIds.length) {
+    problems.push(`${where}: a case can't expect both professors and no information`);
+  }
+  if (raw.language !== undefined && !isLanguage(raw.language)) {
+    problems.push(`${where}: "language" must be one of ${LANGUAGES.join(", ")}`);
+  }
+  const filters = parseFilters(raw.filters);
+  if ("error" in filters) problems.push(`${where}: ${filters.error}`);
+
+  return problems;
+}
+
+/** Read and validate a golden set; all problems are reported at once. */
+export async function loadGoldenSet(file = DEFAULT_GOLDEN_PATH): Promise<GoldenSet> {
+  const data = JSON.parse(await fs.readFile(file, "utf8")) as Partial<GoldenSet> | null;
+
+  const problems: string[] = [];
+  if (typeof data?.name !== "string") problems.push('"name" must be a string');
+  if (!Number.isInteger(data?.version)) problems.push('"version" must be an integer');
+  if (!Array.isArray(data?.cases) || !data.cases.length) {
+    problems.push('"cases" must be a non-empty list');
+  }
+
+  const cases = Array.isArray(data?.cases) ? data.cases : [];
+  cases.forEach((c, i) => problems.push(...caseProblems((c ?? {}) as Record<string, unknown>, i)));
+
+  const ids = cases.map((c) => c?.id);
+  const duplicates = ids.filter((id, i) => ids.indexOf(id) !== i);
+  if (duplicates.length) problems.push(`duplicate case ids: ${[...new Set(duplicates)].join(", ")}`);
+
+  if (problems.length) {
+    throw new Error(`Invalid golden set ${file}:\n  ${problems.join("\n  ")}`);
+  }
+  return data as GoldenSet;
+}
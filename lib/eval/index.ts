@@ -0,0 +1,7 @@
+// lib/eval/index.ts
+export type * from "./types";
+export { DEFAULT_GOLDEN_PATH, loadGoldenSet } from "./golden";
+export { judgeFaithfulness, parseJudgement, type Judgement } from "./judge";
+export { diffReports, formatEvalReport, summarize } from "./report";
+export { runEvaluation, type EvalOptions } from "./run";
+export { isNoInfoAnswer } from "../prof-query/llm";
@@ -0,0 +1,46 @@
+// lib/eval/judge.ts
+import { getChatProvider } from "../providers";
+
+export type Judgement = { supported: number; unsupported: number; score: number };
+
+export function parseJudgement(text: string): Judgement | null {
+  const json = text.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+  try {
+    const { supported, unsupported } = JSON.parse(json) as Record<string, unknown>;
+    if (!Number.isInteger(supported) || !Number.isInteger(unsupported)) return null;
+    const [s, u] = [Math.max(0, supported as number), Math.max(0, unsupported as number)];
+    // an answer without claims can't be unfaithful
+    return { supported: s, unsupported: u, score: s + u ? s / (s + u) : 1 };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ask the chat model how many claims of `answer` the context supports. Uses the same
+ * provider as the answers, so with the fake provider this is a word-overlap heuristic.
+ * Returns null when the reply can't be parsed.
+ */
+export async function judgeFaithfulness(question: string, context: string, answer: string) {
+  const { text } = await getChatProvider().complete({
+    task: "judge",
+    temperature: 0,
+    messages: [
+      {
+        role: "system",
+        content:
+          "You check answers about TUM professors against the context they were written from.\n" +
+          "Split the answer into its factual claims. A claim is supported if the context states it " +
+          "or it follows directly from the context; anything else is unsupported, even if true.\n" +
+          "Saying that the information is not available is not a claim.\n" +
+          'Return ONLY JSON: {"supported": <number of supported claims>, "unsupported": <number>}.',
+      },
+      {
+        role: "user",
+        content: `Question:\n${question}\n\nContext:\n${context}\n\nAnswer:\n${answer}`,
+      },
+    ],
+  });
+  return parseJudgement(text);
+}
@@ -0,0 +1,157 @@
+// lib/eval/report.ts
+import type {
+  CaseChange,
+  CaseResult,
+  EvalDiff,
+  EvalReport,
+  EvalSummary,
+  MetricName,
+} from "./types";
+
+const METRICS: { name: MetricName; label: string; of: (r: CaseResult) => number | null }[] = [
+  { name: "routingRecallAt3", label: "Routing recall@3", of: (r) => r.routingRecall },
+  // reports from before it was split out have no name routing
+  {
+    name: "nameRoutingRecallAt3",
+    label: "Name routing recall@3",
+    of: (r) => r.nameRoutingRecall ?? null,
+  },
+  { name: "chunkRecall", label: "Chunk recall", of: (r) => r.chunkRecall },
+  { name: "noInfoAccuracy", label: '"No info" accuracy', of: (r) => (r.noInfoCorrect ? 1 : 0) },
+  { name: "faithfulness", label: "Faithfulness", of: (r) => r.faithfulness },
+];
+
+// Changes smaller than this are noise (e.g. one claim more or less in a long answer).
+const CHANGE_THRESHOLD = 0.01;
+
+function mean(values: (number | null)[]) {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length ? present.reduce((a, b) => a + b, 0) / present.length : null;
+}
+
+/** Averages over the cases each metric applies to; failed cases are left out. */
+export function summarize(results: CaseResult[]): EvalSummary {
+  const ok = results.filter((r) => !r.error);
+  const summary = { cases: results.length, errors: results.length - ok.length } as EvalSummary;
+  for (const metric of METRICS) summary[metric.name] = mean(ok.map(metric.of));
+  return summary;
+}
+
+/** Compare a run against an earlier one, metric by metric and case by case. */
+export function diffReports(baseline: EvalReport, current: EvalReport): EvalDiff {
+  const before = new Map(baseline.cases.map((c) => [c.id, c]));
+  const after = new Map(current.cases.map((c) => [c.id, c]));
+
+  const regressions: CaseChange[] = [];
+  const improvements: CaseChange[] = [];
+  for (const [id, now] of after) {
+    const then = before.get(id);
+    if (!then) continue;
+    for (const metric of METRICS) {
+      const [b, a] = [metric.of(then), metric.of(now)];
+      if (b === null || a === null || Math.abs(a - b) < CHANGE_THRESHOLD) continue;
+      (a < b ? regressions : improvements).push({ id, metric: metric.name, before: b, after: a });
+    }
+  }
+
+  const summary = {} as EvalDiff["summary"];
+  for (const { name } of METRICS) {
+    const [b, a] = [baseline.summary[name] ?? null, current.summary[name]];
+    summary[name] = { before: b, after: a, delta: a !== null && b !== null ? a - b : null };
+  }
+
+  return {
+    baseline: { startedAt: baseline.startedAt, goldenVersion: baseline.golden.version },
+    sameGoldenVersion: baseline.golden.version === current.golden.version,
+    summary,
+    regressions,
+    improvements,
+    added: [...after.keys()].filter((id) => !before.has(id)),
+    removed: [...before.keys()].filter((id) => !after.has(id)),
+  };
+}
+
+function pct(value: number | null) {
+  return value === null ? "–" : `${(value * 100).toFixed(1)}%`;
+}
+
+function signedPct(value: number | null) {
+  if (value === null) return "–";
+  const points = value * 100;
+  return `${points >= 0 ? "+" : ""}${points.toFixed(1)} pts`;
+}
+
+function routing(c: CaseResult) {
+  return c.routedByName ? `${pct(c.nameRoutingRecall)} (by name)` : pct(c.routingRecall);
+}
+
+function cell(text: string) {
+  return text.replace(/\|/g, "\\|").replace(/\s+/g, " ");
+}
+
+function changeLines(title: string, changes: CaseChange[]) {
+  if (!changes.length) return [];
+  const label = (name: MetricName) => METRICS.find((m) => m.name === name)!.label;
+  return [
+    `### ${title}`,
+    "",
+    ...changes.map((c) => `- \`${c.id}\` ${label(c.metric)}: ${pct(c.before)} → ${pct(c.after)}`),
+    "",
+  ];
+}
+
+/** Markdown report: summary, comparison with the baseline (if any) and per-case results. */
+export function formatEvalReport(report: EvalReport, diff?: EvalDiff) {
+  const { summary } = report;
+  const lines = [
+    `# Evaluation: ${report.golden.name} v${report.golden.version}`,
+    "",
+    `Run ${report.startedAt} · chat ${report.providers.chat} · embeddings ${report.providers.embeddings}` +
+      ` · ${report.providers.vectorStore} store · reranker ${report.providers.reranker}`,
+    "",
+    `${summary.cases} cases, ${summary.errors} errors${report.judged ? "" : " · faithfulness not judged"}`,
+    "",
+    diff ? "| Metric | Value | Baseline | Change |" : "| Metric | Value |",
+    diff ? "| --- | --- | --- | --- |" : "| --- | --- |",
+    ...METRICS.map(({ name, label }) =>
+      diff
+        ? `| ${label} | ${pct(summary[name])} | ${pct(diff.summary[name].before)} | ${signedPct(diff.summary[name].delta)} |`
+        : `| ${label} | ${pct(summary[name])} |`
+    ),
+    "",
+  ];
+
+  if (diff) {
+    lines.push(`## Compared with the run of ${diff.baseline.startedAt}`, "");
+    if (!diff.sameGoldenVersion) {
+      lines.push(
+        `> The baseline used golden set v${diff.baseline.goldenVersion}; case results may not be comparable.`,
+        ""
+      );
+    }
+    lines.push(
+      ...changeLines("Regressions", diff.regressions),
+      ...changeLines("Improvements", diff.improvements)
+    );
+    if (!diff.regressions.length && !diff.improvements.length) lines.push("No case changed.", "");
+    if (diff.added.length) lines.push(`New cases: ${diff.added.join(", ")}`, "");
+    if (diff.removed.length) lines.push(`Removed cases: ${diff.removed.join(", ")}`, "");
+  }
+
+  lines.push(
+    "## Cases",
+    "",
+    "| Case | Routed | Routing | Chunks | No info | Faithful | Missing facts |",
+    "| --- | --- | --- | --- | --- | --- | --- |",
+    ...report.cases.map((c) =>
+      c.error
+        ? `| \`${c.id}\` | error: ${cell(c.error)} | | | | | |`
+        : `| \`${c.id}\` | ${c.routedDocIds.join(", ") || "–"} | ${routing(c)} | ` +
+          `${pct(c.chunkRecall)} | ${c.noInfo ? "yes" : "no"}${c.noInfoCorrect ? "" : " ✗"} | ` +
+          `${pct(c.faithfulness)} | ${cell(c.missingFacts.join(", ")) || "–"} |`
+    ),
+    ""
+  );
+
+  return lines.join("\n");
+}
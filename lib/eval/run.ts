@@ -0,0 +1,149 @@
+// lib/eval/run.ts
+import { getReranker } from "../rerank";
+import { getChatProvider, getEmbeddingProvider } from "../providers";
+import { cleanCitations } from "../prof-query/citations";
+import { askComparison } from "../prof-query/compare";
+import { DEFAULT_RETRIEVAL_CONFIG, type RetrievalConfig } from "../prof-query/config";
+import { detectLanguage } from "../prof-query/language";
+import { askLLM, isNoInfoAnswer, NO_INFO_ANSWERS, rewriteToStandalone } from "../prof-query/llm";
+import { buildContext, retrieve } from "../prof-query/retrieval";
+import { getVectorStore } from "../vector-store";
+import { DEFAULT_GOLDEN_PATH, loadGoldenSet } from "./golden";
+import { judgeFaithfulness } from "./judge";
+import { summarize } from "./report";
+import type { CaseResult, EvalReport, GoldenCase } from "./types";
+
+// Routing is scored on the first 3 professors, whatever summaryTopK is set to.
+const ROUTING_K = 3;
+
+export type EvalOptions = {
+  goldenPath?: string;
+  config?: RetrievalConfig;
+  judge?: boolean; // LLM-judged faithfulness; one extra completion per answered case
+  limit?: number;
+  log?: (line: string) => void;
+};
+
+function normalize(text: string) {
+  return text.toLowerCase().replace(/\s+/g, " ");
+}
+
+function recall(expected: string[], found: (item: string) => boolean) {
+  return expected.length ? expected.filter(found).length / expected.length : null;
+}
+
+/**
+ * One golden case through the same steps as a non-streaming POST /api/prof-query:
+ * rewrite, retrieve, answer with citations, or compare when retrieval detected a
+ * comparison. The answer cache is not consulted.
+ */
+async function runCase(c: GoldenCase, config: RetrievalConfig, judge: boolean): Promise<CaseResult> {
+  const start = performance.now();
+  const messages = [...(c.history ?? []), { role: "user" as const, content: c.question }];
+
+  const language = c.language ?? detectLanguage(c.question);
+  const rewrittenQuestion = await rewriteToStandalone(messages, config.historyMessages);
+  const retrieval = await retrieve(rewrittenQuestion, c.filters ?? {}, config);
+  const { picked, docIds, byName } = retrieval;
+  const context = picked.length ? buildContext(picked) : "";
+
+  // like the route, an unusable comparison falls back to a normal answer
+  const comparison =
+    retrieval.compared && picked.length
+      ? await askComparison(rewrittenQuestion, context, picked, docIds, language)
+      : null;
+  const answer = picked.length
+    ? cleanCitations(
+        comparison?.answer ??
+          (await askLLM(rewrittenQuestion, context, { citations: true, language })),
+        picked.length
+      ).answer
+    : NO_INFO_ANSWERS[language];
+  const noInfo = isNoInfoAnswer(answer);
+
+  const routedDocIds = docIds.slice(0, ROUTING_K);
+  const routingRecall = recall(c.expectedDocIds ?? [], (id) => routedDocIds.includes(id));
+  const chunkText = normalize(picked.map((m) => m.metadata.text).join("\n"));
+  const facts = c.expectedFacts ?? [];
+  const missingFacts = facts.filter((f) => !chunkText.includes(normalize(f)));
+
+  const judgement = judge && !noInfo ? await judgeFaithfulness(rewrittenQuestion, context, answer) : null;
+
+  return {
+    id: c.id,
+    question: c.question,
+    rewrittenQuestion,
+    routedDocIds: docIds,
+    routedByName: byName,
+    pickedDocIds: Array.from(new Set(picked.map((m) => m.metadata.doc_id))),
+    answer,
+    // a name match says nothing about how well the summaries route
+    routingRecall: byName ? null : routingRecall,
+    nameRoutingRecall: byName ? routingRecall : null,
+    chunkRecall: recall(facts, (f) => !missingFacts.includes(f)),
+    missingFacts,
+    noInfo,
+    noInfoCorrect: noInfo === !!c.expectNoInfo,
+    faithfulness: judgement?.score ?? null,
+    ms: Math.round(performance.now() - start),
+  };
+}
+
+/** Run every case of the golden set and summarize the results. */
+export async function runEvaluation(options: EvalOptions = {}): Promise<EvalReport> {
+  const goldenPath = options.goldenPath ?? DEFAULT_GOLDEN_PATH;
+  const config = options.config ?? DEFAULT_RETRIEVAL_CONFIG;
+  const judge = options.judge ?? true;
+  const log = options.log ?? (() => {});
+
+  const golden = await loadGoldenSet(goldenPath);
+  const cases = golden.cases.slice(0, options.limit ?? golden.cases.length);
+  const startedAt = new Date().toISOString();
+
+  const results: CaseResult[] = [];
+  for (const [i, c] of cases.entries()) {
+    try {
+      results.push(await runCase(c, config, judge));
+    } catch (err: unknown) {
+      // a failing case is reported, not fatal: the rest of the run is still useful
+      results.push({
+        id: c.id,
+        question: c.question,
+        rewrittenQuestion: "",
+        routedDocIds: [],
+        routedByName: false,
+        pickedDocIds: [],
+        answer: "",
+        routingRecall: null,
+        nameRoutingRecall: null,
+        chunkRecall: null,
+        missingFacts: [],
+        noInfo: false,
+        noInfoCorrect: false,
+        faithfulness: null,
+        ms: 0,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+    const r = results[results.length - 1];
+    log(`[${i + 1}/${cases.length}] ${c.id}: ${r.error ? `error: ${r.error}` : `${r.ms} ms`}`);
+  }
+
+  const chat = getChatProvider();
+  const embeddings = getEmbeddingProvider();
+  return {
+    version: 1,
+    startedAt,
+    golden: { name: golden.name, version: golden.version, file: goldenPath },
+    providers: {
+      chat: `${chat.name}/${chat.model}`,
+      embeddings: `${embeddings.name}/${embeddings.model}`,
+      vectorStore: getVectorStore().name,
+      reranker: getReranker().name,
+    },
+    config,
+    judged: judge,
+    summary: summarize(results),
+    cases: results,
+  };
+}
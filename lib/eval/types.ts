@@ -0,0 +1,83 @@
+// lib/eval/types.ts
+import type { RetrievalConfig } from "../prof-query/config";
+import type { QueryFilters } from "../prof-query/filters";
+import type { Language } from "../prof-query/language";
+import type { ChatMsg } from "../prof-query/types";
+
+/** One question of the golden set. */
+export type GoldenCase = {
+  id: string;
+  question: string;
+  history?: ChatMsg[]; // earlier turns, for follow-up questions
+  filters?: QueryFilters;
+  language?: Language; // of the answer; detected from the question by default
+  expectedDocIds?: string[]; // professors that should be routed to and cited
+  expectedFacts?: string[]; // strings that should appear in the picked chunks
+  expectNoInfo?: boolean; // the index can't answer this; expect the "no information" answer
+};
+
+export type GoldenSet = {
+  name: string;
+  version: number; // bump when cases change meaning, so runs of different versions aren't compared blindly
+  cases: GoldenCase[];
+};
+
+export type CaseResult = {
+  id: string;
+  question: string;
+  rewrittenQuestion: string;
+  routedDocIds: string[];
+  routedByName: boolean; // named professors were routed to, not the summary matches
+  pickedDocIds: string[];
+  answer: string;
+  // null when the case has nothing to measure it against
+  routingRecall: number | null; // expected doc ids among the first 3 routed on summaries
+  nameRoutingRecall: number | null; // the same for cases routed by name
+  chunkRecall: number | null; // expected facts found in the picked chunks
+  missingFacts: string[];
+  noInfo: boolean;
+  noInfoCorrect: boolean; // answered "no information" exactly when expected to
+  faithfulness: number | null; // share of the answer's claims the judge found in the context
+  ms: number;
+  error?: string;
+};
+
+export type EvalSummary = {
+  cases: number;
+  errors: number;
+  routingRecallAt3: number | null;
+  nameRoutingRecallAt3: number | null;
+  chunkRecall: number | null;
+  noInfoAccuracy: number | null;
+  faithfulness: number | null;
+};
+
+export type EvalReport = {
+  version: 1;
+  startedAt: string;
+  golden: { name: string; version: number; file: string };
+  providers: { chat: string; embeddings: string; vectorStore: string; reranker: string };
+  config: RetrievalConfig;
+  judged: boolean;
+  summary: EvalSummary;
+  cases: CaseResult[];
+};
+
+export type MetricName = Exclude<keyof EvalSummary, "cases" | "errors">;
+
+export type CaseChange = {
+  id: string;
+  metric: MetricName;
+  before: number | null;
+  after: number | null;
+};
+
+export type EvalDiff = {
+  baseline: { startedAt: string; goldenVersion: number };
+  sameGoldenVersion: boolean;
+  summary: Record<MetricName, { before: number | null; after: number | null; delta: number | null }>;
+  regressions: CaseChange[];
+  improvements: CaseChange[];
+  added: string[]; // case ids only in the current run
+  removed: string[];
+};
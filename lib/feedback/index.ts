@@ -0,0 +1,86 @@
+// lib/feedback/index.ts
+import { isLanguage } from "../prof-query/language";
+import { checkMessageLimits } from "../prof-query/limits";
+import type { ChatMsg, MatchForClient } from "../prof-query/types";
+import { createJsonFeedbackStore } from "./json-store";
+import type { FeedbackInput, FeedbackStore } from "./types";
+
+export type * from "./types";
+export { createJsonFeedbackStore } from "./json-store";
+
+export const DEFAULT_FEEDBACK_PATH = process.env.FEEDBACK_FILE || "data/feedback.json";
+
+export const MAX_COMMENT_LENGTH = 2000;
+const MAX_ANSWER_LENGTH = 20000;
+const MAX_MATCHES = 50;
+
+let store: FeedbackStore | null = null;
+
+export function getFeedbackStore() {
+  store ??= createJsonFeedbackStore(DEFAULT_FEEDBACK_PATH);
+  return store;
+}
+
+function isMessage(m: unknown): m is ChatMsg {
+  const { role, content } = (m ?? {}) as Record<string, unknown>;
+  return (role === "user" || role === "assistant") && typeof content === "string";
+}
+
+function isMatch(m: unknown): m is MatchForClient {
+  const { professor, score, snippet } = (m ?? {}) as Record<string, unknown>;
+  return typeof professor === "string" && typeof score === "number" && typeof snippet === "string";
+}
+
+/** Validate the body of a feedback request. Returns an error message for anything else. */
+export function parseFeedbackInput(body: unknown): { input: FeedbackInput } | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  if (b.rating !== "up" && b.rating !== "down") return { error: '"rating" must be "up" or "down"' };
+  if (b.comment !== undefined && typeof b.comment !== "string") {
+    return { error: '"comment" must be a string' };
+  }
+  const comment = (b.comment ?? "").trim();
+  if (comment.length > MAX_COMMENT_LENGTH) {
+    return { error: `"comment" can have at most ${MAX_COMMENT_LENGTH} characters` };
+  }
+  if (typeof b.messageId !== "string" || !b.messageId) {
+    return { error: 'Missing or invalid "messageId"' };
+  }
+  if (b.conversationId != null && typeof b.conversationId !== "string") {
+    return { error: '"conversationId" must be a string' };
+  }
+
+  if (!Array.isArray(b.messages) || !b.messages.length || !b.messages.every(isMessage)) {
+    return { error: 'Missing or invalid "messages" array' };
+  }
+  const tooLarge = checkMessageLimits(b.messages);
+  if (tooLarge) return { error: tooLarge };
+
+  if (b.rewrittenQuestion != null && typeof b.rewrittenQuestion !== "string") {
+    return { error: '"rewrittenQuestion" must be a string' };
+  }
+  if (b.language != null && !isLanguage(b.language)) return { error: 'Invalid "language"' };
+  if (b.matches !== undefined && !(Array.isArray(b.matches) && b.matches.every(isMatch))) {
+    return { error: '"matches" must be a list of sources' };
+  }
+  if ((b.matches?.length ?? 0) > MAX_MATCHES) {
+    return { error: `Send at most ${MAX_MATCHES} matches` };
+  }
+  if (typeof b.answer !== "string" || b.answer.length > MAX_ANSWER_LENGTH) {
+    return { error: 'Missing or invalid "answer"' };
+  }
+
+  return {
+    input: {
+      rating: b.rating,
+      comment,
+      messageId: b.messageId,
+      conversationId: b.conversationId ?? null,
+      messages: b.messages.map((m) => ({ role: m.role, content: m.content })),
+      rewrittenQuestion: b.rewrittenQuestion ?? null,
+      language: b.language ?? null,
+      matches: b.matches ?? [],
+      answer: b.answer,
+    },
+  };
+}
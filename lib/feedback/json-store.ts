@@ -0,0 +1,69 @@
+// lib/feedback/json-store.ts
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { Feedback, FeedbackStore } from "./types";
+
+// the session is kept to spot floods from one browser, but never handed out
+type StoredFeedback = { sessionId: string; feedback: Feedback };
+
+type FeedbackFile = {
+  version: 1;
+  feedback: StoredFeedback[];
+};
+
+/**
+ * All feedback in one JSON file, appended to in memory and written through a temp file,
+ * like the conversation store.
+ */
+export function createJsonFeedbackStore(file: string): FeedbackStore {
+  let data: Promise<FeedbackFile> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  function load() {
+    data ??= fs
+      .readFile(file, "utf8")
+      .then((raw) => {
+        const parsed = JSON.parse(raw) as FeedbackFile;
+        if (parsed?.version === 1 && Array.isArray(parsed.feedback)) return parsed;
+        throw new Error(`Unsupported feedback store format in ${file}`);
+      })
+      .catch((err: unknown) => {
+        if ((err as NodeJS.ErrnoException)?.code === "ENOENT") {
+          return { version: 1 as const, feedback: [] };
+        }
+        data = null; // retry on the next call instead of caching the failure
+        throw err;
+      });
+    return data;
+  }
+
+  function persist(current: FeedbackFile) {
+    writing = writing
+      .catch(() => {})
+      .then(async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        const tmp = `${file}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(current));
+        await fs.rename(tmp, file);
+      });
+    return writing;
+  }
+
+  return {
+    async add(sessionId, input) {
+      const current = await load();
+      const feedback: Feedback = { ...input, id: randomUUID(), createdAt: new Date().toISOString() };
+      current.feedback.push({ sessionId, feedback });
+      await persist(current);
+      return feedback;
+    },
+
+    async list(filter = {}) {
+      const all = (await load()).feedback.map((stored) => stored.feedback);
+      return all
+        .filter((f) => !filter.rating || f.rating === filter.rating)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+  };
+}
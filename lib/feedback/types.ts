@@ -0,0 +1,32 @@
+// lib/feedback/types.ts
+import type { Language } from "../prof-query/language";
+import type { ChatMsg, MatchForClient } from "../prof-query/types";
+
+export type FeedbackRating = "up" | "down";
+
+/**
+ * What a user said about one answer, with everything needed to reproduce it: the chat up
+ * to the question, how it was rewritten, the sources it got and the answer itself.
+ */
+export type FeedbackInput = {
+  rating: FeedbackRating;
+  comment: string; // may be empty
+  messageId: string; // the assistant message in the client's conversation
+  conversationId: string | null;
+  messages: ChatMsg[]; // up to and including the question that was answered
+  rewrittenQuestion: string | null; // null for answers saved before it was kept
+  language: Language | null;
+  matches: MatchForClient[];
+  answer: string;
+};
+
+export type Feedback = FeedbackInput & {
+  id: string;
+  createdAt: string;
+};
+
+export interface FeedbackStore {
+  add(sessionId: string, input: FeedbackInput): Promise<Feedback>;
+  // newest first
+  list(filter?: { rating?: FeedbackRating }): Promise<Feedback[]>;
+}
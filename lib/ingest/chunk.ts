@@ -0,0 +1,59 @@
+// lib/ingest/chunk.ts
+import type { ProfileSection } from "./sources";
+
+export type ProfileChunk = { block: string; text: string };
+
+// ~300 tokens; small enough that a chunk stays on one topic, large enough to be useful context
+const MAX_CHUNK_CHARS = 1200;
+
+function splitLongParagraph(paragraph: string, max: number) {
+  const sentences = paragraph.match(/[^.!?]+[.!?]+(\s+|$)|[^.!?]+$/g) || [paragraph];
+  const parts: string[] = [];
+  let current = "";
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > max) {
+      parts.push(current.trim());
+      current = "";
+    }
+    // a single run-on "sentence" longer than max gets hard-cut
+    for (let i = 0; i < sentence.length; i += max) {
+      const piece = sentence.slice(i, i + max);
+      if (current && current.length + piece.length > max) {
+        parts.push(current.trim());
+        current = "";
+      }
+      current += piece;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Split each section into chunks of at most MAX_CHUNK_CHARS, packing whole paragraphs.
+ * Every chunk keeps its section name as `block` (→ `chunk_block` in the index).
+ */
+export function chunkSections(sections: ProfileSection[], max = MAX_CHUNK_CHARS) {
+  const chunks: ProfileChunk[] = [];
+
+  for (const section of sections) {
+    const paragraphs = section.text
+      .split(/\n+/)
+      .map((p) => p.trim())
+      .filter(Boolean)
+      .flatMap((p) => (p.length > max ? splitLongParagraph(p, max) : [p]));
+
+    let current = "";
+    for (const p of paragraphs) {
+      if (current && current.length + p.length + 1 > max) {
+        chunks.push({ block: section.block, text: current });
+        current = "";
+      }
+      current = current ? `${current}\n${p}` : p;
+    }
+    if (current) chunks.push({ block: section.block, text: current });
+  }
+
+  return chunks;
+}
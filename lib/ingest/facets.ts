@@ -0,0 +1,86 @@
+// lib/ingest/facets.ts
+import type { ProfessorProfile } from "./sources";
+
+export type ProfileFacets = {
+  school: string;
+  department: string;
+  topics: string[];
+};
+
+// TUM's schools; the first pattern that matches names the school. Older pages still
+// use the faculty names, so those map to the school that absorbed them.
+const SCHOOLS: [name: string, pattern: RegExp][] = [
+  [
+    "School of Computation, Information and Technology",
+    /School of Computation|Computation, Information and Technology|\bCIT\b|Department of (?:Informatics|Computer Science|Mathematics|Electrical (?:and|&) Computer Engineering)|Fakultät für (?:Informatik|Mathematik|Elektrotechnik)/i,
+  ],
+  [
+    "School of Engineering and Design",
+    /School of Engineering and Design|Department of (?:Mechanical|Civil|Aerospace|Architecture|Engineering Physics)|Fakultät für (?:Maschinenwesen|Architektur|Bau)/i,
+  ],
+  [
+    "School of Natural Sciences",
+    /School of Natural Sciences|Department of (?:Physics|Chemistry)|Fakultät für (?:Physik|Chemie)/i,
+  ],
+  ["School of Life Sciences", /School of Life Sciences|Wissenschaftszentrum Weihenstephan/i],
+  [
+    "School of Medicine and Health",
+    /School of Medicine|Klinikum rechts der Isar|Fakultät für Medizin|Department of (?:Sport|Health)/i,
+  ],
+  ["School of Management", /School of Management|Fakultät für Wirtschaftswissenschaften/i],
+  ["School of Social Sciences and Technology", /School of Social Sciences|School of Education|Munich School of Politics/i],
+];
+
+const DEPARTMENT_RE =
+  /\b((?:Department|Fakultät)\s+(?:of|for|für)\s+[^,.;()#\n]+?)(?=\s+(?:at|in|within|of the TUM|an der)\b|[,.;()#\n]|$)/i;
+
+// Research areas used as the topic facet. A profile gets a topic when its first section
+// mentions one of the terms, or the whole profile does at least twice (a single
+// mention in a publication list is not enough).
+const TOPICS: [name: string, pattern: RegExp][] = [
+  ["Artificial Intelligence", /artificial intelligence|machine learning|deep learning|neural network|\bAI\b/gi],
+  ["Computer Vision", /computer vision|image (?:analysis|processing|understanding)|visual (?:SLAM|recognition)|3D reconstruction/gi],
+  ["Robotics", /robot|autonomous systems|manipulation|locomotion/gi],
+  ["Quantum Technologies", /quantum/gi],
+  ["Security and Cryptography", /cryptograph|security|privacy/gi],
+  ["Data Science", /data science|statistics|big data|data mining|databases?\b/gi],
+  ["Software and Systems", /software engineering|programming languages|distributed systems|operating systems|compilers?\b/gi],
+  ["Communications and Networks", /communication systems|computer networks|networking|wireless|signal processing/gi],
+  ["Mathematics", /mathemati|optimization|numerical|probability|algebra|geometry/gi],
+  ["Physics", /physics|photonic|condensed matter|astro/gi],
+  ["Chemistry", /chemi|catalys/gi],
+  ["Materials", /materials? (?:science|engineering)|composites?\b|polymers?\b/gi],
+  ["Life Sciences", /biolog|genom|molecular|protein|neuroscien|ecolog/gi],
+  ["Medicine and Health", /medic|clinical|health|cancer|imaging|surgery|patient/gi],
+  ["Energy and Climate", /energy|climate|sustainab|renewable|battery|batteries/gi],
+  ["Mobility and Transport", /mobility|transport|automotive|vehicle|aerospace|aviation/gi],
+  ["Engineering and Design", /mechanical engineering|civil engineering|architecture|product design|manufacturing/gi],
+  ["Management and Economics", /business|economics|entrepreneurship|finance|marketing|innovation management/gi],
+  ["Society and Education", /education|policy|ethics|social science|governance/gi],
+];
+
+function countMatches(text: string, pattern: RegExp) {
+  return text.match(pattern)?.length ?? 0;
+}
+
+/**
+ * School, department and research-area tags for one professor, stored on every vector
+ * so queries can filter on them. Values given in a JSON profile win; otherwise they are
+ * derived from the profile text only (not the generated summary), so they are stable
+ * across runs and chunk hashes don't change when the summary does.
+ */
+export function profileFacets(profile: ProfessorProfile): ProfileFacets {
+  const intro = profile.sections[0]?.text ?? "";
+  const body = profile.sections.map((s) => s.text).join("\n");
+
+  const school = profile.school || SCHOOLS.find(([, pattern]) => pattern.test(body))?.[0] || "";
+  const department =
+    profile.department || body.match(DEPARTMENT_RE)?.[1].replace(/\s+/g, " ").trim() || "";
+  const topics = profile.topics?.length
+    ? profile.topics
+    : TOPICS.filter(
+        ([, pattern]) => countMatches(intro, pattern) > 0 || countMatches(body, pattern) >= 2
+      ).map(([name]) => name);
+
+  return { school, department, topics };
+}
@@ -0,0 +1,340 @@
+// lib/ingest/index.ts
+import { clearCaches } from "../cache";
+import {
+  loadLexicalFile,
+  saveLexicalFile,
+  DEFAULT_LEXICAL_INDEX_PATH,
+  type LexicalFile,
+} from "../lexical";
+import { getEmbeddingProvider } from "../providers";
+import {
+  loadSuggestFile,
+  saveSuggestFile,
+  DEFAULT_SUGGEST_INDEX_PATH,
+  type SuggestEntry,
+} from "../suggest";
+import { getVectorStore, type ProfileMetadata, type VectorRecord } from "../vector-store";
+import { chunkSections } from "./chunk";
+import { profileFacets } from "./facets";
+import { chairName, profileKeywords } from "./keywords";
+import {
+  contentHash,
+  loadManifest,
+  saveManifest,
+  DEFAULT_MANIFEST_PATH,
+  type Manifest,
+} from "./manifest";
+import { loadProfiles, toDocId, type ProfessorProfile } from "./sources";
+import { summarizeProfile } from "./summarize";
+
+export const DEFAULT_PROFILES_DIR = process.env.PROFILES_DIR || "data/profiles";
+
+export const SUMMARY_BLOCK = "Summary";
+
+export type IngestOptions = {
+  dir?: string;
+  manifestPath?: string;
+  lexicalPath?: string;
+  suggestPath?: string;
+  dryRun?: boolean; // only compute the diff; nothing is summarized, embedded or written
+  full?: boolean; // ignore stored hashes and rebuild every professor
+  limit?: number;
+  log?: (line: string) => void;
+};
+
+export type ProfessorChange = {
+  docId: string;
+  professor: string;
+  embedded: number; // vectors (re-)embedded and upserted
+  deleted: number; // stale vectors removed
+};
+
+export type IngestReport = {
+  dir: string;
+  dryRun: boolean;
+  full: boolean;
+  professors: number;
+  unchanged: number;
+  added: ProfessorChange[];
+  updated: ProfessorChange[];
+  removed: ProfessorChange[];
+  embedded: number;
+  deleted: number;
+  skipped: { file: string; reason: string }[];
+};
+
+type PendingVector = { id: string; hash: string; metadata: ProfileMetadata };
+
+/**
+ * Text that gets embedded. The professor and section are prepended so that chunks
+ * which never repeat the name ("He leads the group...") still match name queries.
+ */
+function embedInput(md: ProfileMetadata) {
+  return [`Professor: ${md.professor}`, `Section: ${md.chunk_block}`, "", md.text].join("\n");
+}
+
+function pending(id: string, metadata: ProfileMetadata): PendingVector {
+  return { id, hash: contentHash(metadata), metadata };
+}
+
+function baseMetadata(profile: ProfessorProfile) {
+  return {
+    doc_id: profile.docId,
+    professor: profile.professor,
+    source_url: profile.sourceUrl,
+    ...profileFacets(profile),
+  };
+}
+
+/**
+ * Chunk ids are `<doc_id>#<section>-<n>` so that editing one section only changes
+ * the ids (and hashes) of that section's chunks.
+ */
+function chunkVectors(profile: ProfessorProfile) {
+  const perBlock = new Map<string, number>();
+
+  return chunkSections(profile.sections).map((chunk) => {
+    const slug = toDocId(chunk.block) || "section";
+    const n = perBlock.get(slug) ?? 0;
+    perBlock.set(slug, n + 1);
+
+    return pending(`${profile.docId}#${slug}-${n}`, {
+      ...baseMetadata(profile),
+      kind: "profile_chunk",
+      chunk_block: chunk.block,
+      text: chunk.text,
+    });
+  });
+}
+
+async function writeVectors(vectors: PendingVector[]) {
+  if (!vectors.length) return;
+  const values = await getEmbeddingProvider().embed(vectors.map((v) => embedInput(v.metadata)));
+  const records: VectorRecord[] = vectors.map((v, j) => ({
+    id: v.id,
+    values: values[j],
+    metadata: v.metadata,
+  }));
+  await getVectorStore().upsert(records);
+}
+
+function removedDocIds(manifest: Manifest, present: Set<string>) {
+  return Object.keys(manifest.professors).filter((docId) => !present.has(docId));
+}
+
+function setLexicalEntry(
+  lexical: LexicalFile,
+  profileHash: string,
+  vectors: { id: string; metadata: ProfileMetadata }[]
+) {
+  const docId = vectors[0].metadata.doc_id;
+  lexical.professors[docId] = {
+    profileHash,
+    records: vectors.map((v) => ({ id: v.id, metadata: v.metadata })),
+  };
+}
+
+function suggestEntry(profile: ProfessorProfile): SuggestEntry {
+  return {
+    professor: profile.professor,
+    chair: chairName(profile.sections.map((s) => s.text)),
+    topics: [...profileKeywords(profile), ...profileFacets(profile).topics],
+  };
+}
+
+/**
+ * The autocompletion entries are cheap to derive (no LLM calls), so they are rebuilt for
+ * every profile seen, changed or not. Professors no longer in the manifest are dropped.
+ */
+async function writeSuggestIndex(profiles: ProfessorProfile[], manifest: Manifest, file: string) {
+  const suggest = await loadSuggestFile(file);
+  for (const profile of profiles) {
+    if (manifest.professors[profile.docId]) suggest.professors[profile.docId] = suggestEntry(profile);
+  }
+  for (const docId of Object.keys(suggest.professors)) {
+    if (!manifest.professors[docId]) delete suggest.professors[docId];
+  }
+  await saveSuggestFile(suggest, file);
+}
+
+/**
+ * Unchanged professors whose lexical entry is missing or outdated (first run after the
+ * lexical index was introduced, or an interrupted run) get it rebuilt without any
+ * LLM calls: chunks are recomputed and the stored summary is fetched from the index.
+ */
+async function repairLexicalEntries(
+  profiles: ProfessorProfile[],
+  manifest: Manifest,
+  lexical: LexicalFile,
+  log: (line: string) => void
+) {
+  for (const profile of profiles) {
+    const entry = manifest.professors[profile.docId];
+    if (!entry || lexical.professors[profile.docId]?.profileHash === entry.profileHash) continue;
+
+    log(`lexical ${profile.professor} (${profile.docId})`);
+    const [summary] = await getVectorStore().fetch([`${profile.docId}#summary`]);
+    setLexicalEntry(lexical, entry.profileHash, [
+      ...(summary ? [summary] : []),
+      ...chunkVectors(profile),
+    ]);
+  }
+}
+
+/**
+ * Bring the index in line with the saved profiles in `dir`.
+ *
+ * Per professor, the manifest stores a hash of the whole profile and of every vector.
+ * Unchanged professors are skipped; for changed ones the summary is regenerated, only
+ * chunks whose content changed are re-embedded, and vectors for vanished sections are
+ * deleted. Professors whose files disappeared are deleted entirely (not on `limit` runs,
+ * which only see part of the directory).
+ *
+ * The lexical (BM25) index is written at the end from the same records, as is the
+ * autocompletion index, and query caches are cleared if anything changed.
+ */
+export async function runIngestion(options: IngestOptions = {}): Promise<IngestReport> {
+  const dir = options.dir || DEFAULT_PROFILES_DIR;
+  const manifestPath = options.manifestPath || DEFAULT_MANIFEST_PATH;
+  const dryRun = !!options.dryRun;
+  const full = !!options.full;
+  const log = options.log || (() => {});
+
+  const loaded = await loadProfiles(dir);
+  const profiles = options.limit ? loaded.profiles.slice(0, options.limit) : loaded.profiles;
+  for (const s of loaded.skipped) log(`skip ${s.file}: ${s.reason}`);
+
+  const manifest = await loadManifest(manifestPath);
+  const lexicalPath = options.lexicalPath || DEFAULT_LEXICAL_INDEX_PATH;
+  const lexical = await loadLexicalFile(lexicalPath);
+
+  const report: IngestReport = {
+    dir,
+    dryRun,
+    full,
+    professors: profiles.length,
+    unchanged: 0,
+    added: [],
+    updated: [],
+    removed: [],
+    embedded: 0,
+    deleted: 0,
+    skipped: loaded.skipped,
+  };
+
+  for (const [i, profile] of profiles.entries()) {
+    const prev = manifest.professors[profile.docId];
+    const profileHash = contentHash({
+      professor: profile.professor,
+      sourceUrl: profile.sourceUrl,
+      sections: profile.sections,
+      facets: profileFacets(profile),
+    });
+
+    if (!full && prev?.profileHash === profileHash) {
+      report.unchanged += 1;
+      continue;
+    }
+
+    const label = prev ? "update" : "add";
+    log(`[${i + 1}/${profiles.length}] ${label} ${profile.professor} (${profile.docId})`);
+
+    const chunks = chunkVectors(profile);
+    const changedChunks = chunks.filter((v) => full || prev?.vectors[v.id] !== v.hash);
+    const keep = new Set([`${profile.docId}#summary`, ...chunks.map((v) => v.id)]);
+    const stale = Object.keys(prev?.vectors ?? {}).filter((id) => !keep.has(id));
+
+    const change: ProfessorChange = {
+      docId: profile.docId,
+      professor: profile.professor,
+      // the summary is always regenerated for a changed profile
+      embedded: changedChunks.length + 1,
+      deleted: stale.length,
+    };
+    (prev ? report.updated : report.added).push(change);
+    report.embedded += change.embedded;
+    report.deleted += change.deleted;
+
+    if (dryRun) continue;
+
+    const summary = pending(`${profile.docId}#summary`, {
+      ...baseMetadata(profile),
+      kind: "profile_summary",
+      chunk_block: SUMMARY_BLOCK,
+      text: await summarizeProfile(profile),
+    });
+
+    await writeVectors([summary, ...changedChunks]);
+    if (stale.length) await getVectorStore().delete(stale);
+
+    manifest.professors[profile.docId] = {
+      professor: profile.professor,
+      sourceUrl: profile.sourceUrl,
+      profileHash,
+      vectors: Object.fromEntries([summary, ...chunks].map((v) => [v.id, v.hash])),
+    };
+    setLexicalEntry(lexical, profileHash, [summary, ...chunks]);
+    // save as we go so an interrupted run doesn't redo finished professors
+    await saveManifest(manifest, manifestPath);
+  }
+
+  if (!options.limit) {
+    // a file that failed to parse this time must not wipe its professor from the index
+    const present = new Set([
+      ...loaded.profiles.map((p) => p.docId),
+      ...loaded.skipped.map((s) => s.docId).filter((id): id is string => !!id),
+    ]);
+
+    for (const docId of removedDocIds(manifest, present)) {
+      const entry = manifest.professors[docId];
+      const ids = Object.keys(entry.vectors);
+      log(`remove ${entry.professor} (${docId})`);
+
+      report.removed.push({ docId, professor: entry.professor, embedded: 0, deleted: ids.length });
+      report.deleted += ids.length;
+
+      if (dryRun) continue;
+      await getVectorStore().delete(ids);
+      delete manifest.professors[docId];
+      delete lexical.professors[docId];
+      await saveManifest(manifest, manifestPath);
+    }
+  }
+
+  if (!dryRun) {
+    await repairLexicalEntries(profiles, manifest, lexical, log);
+    await saveLexicalFile(lexical, lexicalPath);
+    await writeSuggestIndex(profiles, manifest, options.suggestPath || DEFAULT_SUGGEST_INDEX_PATH);
+
+    // cache keys already change with the manifest; this just frees the stale entries
+    if (report.added.length || report.updated.length || report.removed.length) {
+      await clearCaches();
+    }
+  }
+
+  return report;
+}
+
+function changeLines(title: string, changes: ProfessorChange[]) {
+  if (!changes.length) return [];
+  return [
+    `${title} (${changes.length}):`,
+    ...changes.map(
+      (c) => `  ${c.professor} (${c.docId}): ${c.embedded} embedded, ${c.deleted} deleted`
+    ),
+  ];
+}
+
+/** Human-readable diff report for the CLI and logs. */
+export function formatIngestReport(report: IngestReport) {
+  return [
+    `${report.dryRun ? "Dry run: " : ""}${report.professors} professors in ${report.dir}` +
+      `${report.full ? " (full rebuild)" : ""}`,
+    ...changeLines("Added", report.added),
+    ...changeLines("Updated", report.updated),
+    ...changeLines("Removed", report.removed),
+    `Unchanged: ${report.unchanged}`,
+    `Vectors embedded: ${report.embedded}, deleted: ${report.deleted}`,
+    ...report.skipped.map((s) => `Skipped ${s.file}: ${s.reason}`),
+  ].join("\n");
+}
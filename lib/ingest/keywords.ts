@@ -0,0 +1,68 @@
+// lib/ingest/keywords.ts
+import { tokenize } from "../lexical";
+import type { ProfessorProfile } from "./sources";
+
+// "heads the Chair of Robotics Science and Systems Intelligence at the TUM School of ..."
+const CHAIR_RE =
+  /\b((?:Chair|Professorship|Lehrstuhl|Professur|Group|Laboratory|Lab)\s+(?:of|for|für)\s+[^,.;()#\n]+?)(?=\s+(?:at|in|within|of the|an der|am)\b|[,.;()#\n]|$)/i;
+
+/** The first chair (or group, lab) named in `texts`, or "". */
+export function chairName(texts: string[]) {
+  for (const text of texts) {
+    const m = text.match(CHAIR_RE);
+    if (m) return m[1].replace(/\s+/g, " ").trim();
+  }
+  return "";
+}
+
+const MAX_KEYWORDS = 20;
+const MAX_KEYWORD_WORDS = 4;
+
+// Sections that list things other than research topics (paper titles, addresses, prizes)
+const SKIPPED_BLOCKS =
+  /publication|veröffentlichung|contact|kontakt|address|adresse|curriculum|\bcv\b|lebenslauf|award|prize|preis|auszeichnung|teaching|lehre/i;
+
+// Lines and sentences naming the organisation rather than topics
+const NOT_A_TOPIC =
+  /\b(?:department|school|chair|lehrstuhl|fakultät|faculty|university|universität|institute|institut|tum|prof|professor)\b/i;
+
+const SENTENCE_SPLIT = /\n|\.(?=\s|$)/;
+
+// Items of list-like text: "Computer vision, SLAM, 3D reconstruction", "• Deep learning"
+const ITEM_SPLIT = /[,;:•·|()]|\s+(?:and|und|or|oder|&)\s+/i;
+
+// "Computer Vision" and "computer vision" are one keyword; acronyms keep their case
+function normalizeKeyword(phrase: string) {
+  return phrase
+    .split(" ")
+    .map((w) => (/^[A-Z0-9][A-Z0-9-]+$/.test(w) ? w : w.toLowerCase()))
+    .join(" ");
+}
+
+/**
+ * Research keywords of a profile for query autocompletion: the short items of its
+ * list-like text ("Computer vision, SLAM, 3D reconstruction"), most frequent first.
+ * Derived from the profile text only, like the facets, so no LLM call is needed.
+ */
+export function profileKeywords(profile: ProfessorProfile) {
+  const counts = new Map<string, number>();
+  for (const section of profile.sections) {
+    if (SKIPPED_BLOCKS.test(section.block)) continue;
+
+    const sentences = section.text.split(SENTENCE_SPLIT).filter((s) => !NOT_A_TOPIC.test(s));
+    for (const item of sentences.flatMap((s) => s.split(ITEM_SPLIT))) {
+      const phrase = item.replace(/^[\s\-–*"']+|[\s\-–*"']+$/g, "").replace(/\s+/g, " ");
+      if (phrase.length < 3 || phrase.length > 40 || !/[a-z]{2}/i.test(phrase)) continue;
+      if (phrase.split(" ").length > MAX_KEYWORD_WORDS || !tokenize(phrase).length) continue;
+
+      const keyword = normalizeKeyword(phrase);
+      counts.set(keyword, (counts.get(keyword) ?? 0) + 1);
+    }
+  }
+
+  // Map keeps first-seen order, so ties stay in page order
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_KEYWORDS)
+    .map(([keyword]) => keyword);
+}
@@ -0,0 +1,46 @@
+// lib/ingest/manifest.ts
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+export const DEFAULT_MANIFEST_PATH = process.env.INGEST_MANIFEST || "data/ingest-manifest.json";
+
+/** What was last written to the index for one professor. */
+export type ManifestEntry = {
+  professor: string;
+  sourceUrl: string;
+  profileHash: string; // hash over all sections; the summary is regenerated when it changes
+  vectors: Record<string, string>; // vector id -> content hash
+};
+
+export type Manifest = {
+  version: 1;
+  updatedAt: string | null;
+  professors: Record<string, ManifestEntry>; // keyed by doc_id
+};
+
+export function contentHash(value: unknown) {
+  return createHash("sha256").update(JSON.stringify(value)).digest("hex").slice(0, 16);
+}
+
+export async function loadManifest(file = DEFAULT_MANIFEST_PATH): Promise<Manifest> {
+  try {
+    const data = JSON.parse(await fs.readFile(file, "utf8")) as Manifest;
+    if (data?.version === 1 && data.professors) return data;
+    throw new Error(`Unsupported manifest format in ${file}`);
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") {
+      return { version: 1, updatedAt: null, professors: {} };
+    }
+    throw err;
+  }
+}
+
+export async function saveManifest(manifest: Manifest, file = DEFAULT_MANIFEST_PATH) {
+  manifest.updatedAt = new Date().toISOString();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // write-then-rename so an interrupted run never leaves a truncated manifest
+  const tmp = `${file}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(manifest, null, 2));
+  await fs.rename(tmp, file);
+}
@@ -0,0 +1,232 @@
+// lib/ingest/sources.ts
+import { promises as fs } from "fs";
+import path from "path";
+
+export type ProfileSection = { block: string; text: string };
+
+export type ProfessorProfile = {
+  docId: string;
+  professor: string;
+  sourceUrl: string;
+  sections: ProfileSection[];
+  file: string;
+  // facet values given explicitly in a JSON profile; derived at ingestion otherwise
+  school?: string;
+  department?: string;
+  topics?: string[];
+};
+
+/**
+ * Shape accepted for saved JSON profiles. Either `sections` or `html` must be present;
+ * `doc_id` defaults to the file name.
+ */
+type JsonProfile = {
+  doc_id?: string;
+  professor?: string;
+  name?: string;
+  url?: string;
+  source_url?: string;
+  sections?: { title?: string; block?: string; text?: string }[];
+  html?: string;
+  school?: string;
+  department?: string;
+  topics?: string[];
+};
+
+const SUPPORTED_EXTENSIONS = new Set([".html", ".htm", ".json"]);
+
+// Fallback section name for text that appears before the first heading.
+const OVERVIEW_BLOCK = "Overview";
+
+export function toDocId(raw: string) {
+  // Pinecone ids must be ASCII
+  return raw
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function decodeEntities(text: string) {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+function htmlToText(html: string) {
+  const text = html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|tr|h[1-6]|section|article|ul|ol|table)>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "• ")
+    .replace(/<[^>]+>/g, " ");
+  return decodeEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+function stripBoilerplate(html: string) {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|nav|header|footer|form)\b[\s\S]*?<\/\1>/gi, "");
+}
+
+// Academic titles and degrees: "Univ.-Prof.", "Dr.-Ing.", "Dr. rer. nat.", "PhD", "M.Sc."
+const TITLE_WORD =
+  /^(?:(?:univ|hon|jun|apl|em)\.-?)?(?:prof(?:essor(?:in)?|\.)|dr\.(?:-ing\.)?|(?:rer|nat|med|phil|techn|oec|habil|mult|ing)\.|h\.\s?c\.|dipl\.-\S+|ph\.?\s?d\.?|m\.\s?sc\.|b\.\s?sc\.|mba)$/i;
+
+/**
+ * A profile's heading or name without titles, degrees and whatever follows the name:
+ * "Prof. Dr. Daniel Cremers – Computer Vision Group" and "Daniel Cremers, PhD" are both
+ * "Daniel Cremers". The name feeds the by-name routing, so leftover words like "group"
+ * would route questions to this professor.
+ */
+function cleanProfessorName(heading: string) {
+  const name = heading
+    .split(/\s[|–—-]\s|,|:\s|\(/)[0]
+    .split(/\s+/)
+    .filter((word) => word && !TITLE_WORD.test(word))
+    .join(" ");
+  return name || heading.trim();
+}
+
+function firstMatch(html: string, re: RegExp) {
+  const m = html.match(re);
+  return m ? htmlToText(m[1]).trim() : "";
+}
+
+/**
+ * Split an HTML page into named sections using its h2/h3 headings.
+ * Text before the first heading becomes the "Overview" section.
+ */
+export function parseHtmlProfile(html: string) {
+  const professor = cleanProfessorName(
+    firstMatch(html, /<h1[^>]*>([\s\S]*?)<\/h1>/i) ||
+      firstMatch(html, /<title[^>]*>([\s\S]*?)<\/title>/i)
+  );
+  const sourceUrl =
+    html.match(/<link[^>]+rel=["']canonical["'][^>]*href=["']([^"']+)["']/i)?.[1] ||
+    html.match(/<meta[^>]+property=["']og:url["'][^>]*content=["']([^"']+)["']/i)?.[1] ||
+    "";
+
+  const body = stripBoilerplate(html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html).replace(
+    /<h1[^>]*>[\s\S]*?<\/h1>/gi,
+    ""
+  );
+
+  const sections: ProfileSection[] = [];
+  const headingRe = /<h[23][^>]*>([\s\S]*?)<\/h[23]>/gi;
+  let block = OVERVIEW_BLOCK;
+  let last = 0;
+  let m: RegExpExecArray | null;
+
+  while ((m = headingRe.exec(body))) {
+    sections.push({ block, text: htmlToText(body.slice(last, m.index)) });
+    block = htmlToText(m[1]) || block;
+    last = m.index + m[0].length;
+  }
+  sections.push({ block, text: htmlToText(body.slice(last)) });
+
+  return {
+    professor,
+    sourceUrl: decodeEntities(sourceUrl),
+    sections: sections.filter((s) => s.text),
+  };
+}
+
+function parseJsonProfile(raw: string) {
+  const data = JSON.parse(raw) as JsonProfile;
+  const parsed = data.html ? parseHtmlProfile(data.html) : null;
+
+  const sections =
+    data.sections
+      ?.map((s) => ({
+        block: (s.title || s.block || OVERVIEW_BLOCK).trim(),
+        text: (s.text || "").trim(),
+      }))
+      .filter((s) => s.text) ?? parsed?.sections ?? [];
+
+  return {
+    docId: data.doc_id,
+    professor: cleanProfessorName(data.professor || data.name || parsed?.professor || ""),
+    sourceUrl: (data.source_url || data.url || parsed?.sourceUrl || "").trim(),
+    sections,
+    school: data.school?.trim() || undefined,
+    department: data.department?.trim() || undefined,
+    topics: Array.isArray(data.topics)
+      ? data.topics.map((t) => String(t).trim()).filter(Boolean)
+      : undefined,
+  };
+}
+
+type ParsedProfile = ReturnType<typeof parseHtmlProfile> &
+  Partial<Pick<ProfessorProfile, "docId" | "school" | "department" | "topics">>;
+
+/**
+ * Load every saved profile (.html/.htm/.json) from `dir`.
+ * Files that can't be parsed into a named professor with content are reported in `skipped`.
+ */
+export async function loadProfiles(dir: string) {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = entries
+    .filter((e) => e.isFile() && SUPPORTED_EXTENSIONS.has(path.extname(e.name).toLowerCase()))
+    .map((e) => e.name)
+    .sort();
+
+  const profiles: ProfessorProfile[] = [];
+  // docId is set when known, so callers can tell which professor a broken file belongs to
+  const skipped: { file: string; reason: string; docId?: string }[] = [];
+  const seenDocIds = new Set<string>();
+
+  for (const file of files) {
+    const fileDocId = toDocId(path.basename(file, path.extname(file)));
+    try {
+      const raw = await fs.readFile(path.join(dir, file), "utf8");
+      const parsed: ParsedProfile =
+        path.extname(file).toLowerCase() === ".json" ? parseJsonProfile(raw) : parseHtmlProfile(raw);
+
+      const docId = parsed.docId ? toDocId(parsed.docId) : fileDocId;
+
+      if (!parsed.professor) {
+        skipped.push({ file, reason: "no professor name found", docId });
+        continue;
+      }
+      if (!parsed.sections.length) {
+        skipped.push({ file, reason: "no profile text found", docId });
+        continue;
+      }
+      if (!docId || seenDocIds.has(docId)) {
+        skipped.push({ file, reason: `duplicate or empty doc_id "${docId}"` });
+        continue;
+      }
+
+      seenDocIds.add(docId);
+      profiles.push({
+        docId,
+        professor: parsed.professor,
+        sourceUrl: parsed.sourceUrl,
+        sections: parsed.sections,
+        file,
+        school: parsed.school,
+        department: parsed.department,
+        topics: parsed.topics,
+      });
+    } catch (err: unknown) {
+      skipped.push({
+        file,
+        reason: err instanceof Error ? err.message : String(err),
+        docId: fileDocId,
+      });
+    }
+  }
+
+  return { profiles, skipped };
+}
@@ -0,0 +1,41 @@
+// lib/ingest/summarize.ts
+import { getChatProvider } from "../providers";
+import type { ProfessorProfile } from "./sources";
+
+// keep the prompt well inside the model's context window for very long profiles
+const MAX_PROFILE_CHARS = 12000;
+
+function profileText(profile: ProfessorProfile) {
+  const text = profile.sections.map((s) => `## ${s.block}\n${s.text}`).join("\n\n");
+  return text.length > MAX_PROFILE_CHARS ? text.slice(0, MAX_PROFILE_CHARS) : text;
+}
+
+/**
+ * Generate the routing summary for one professor. The query route matches questions
+ * against these summaries first, so they should name the research areas explicitly.
+ */
+export async function summarizeProfile(profile: ProfessorProfile) {
+  const { text: summary } = await getChatProvider().complete({
+    task: "summarize",
+    temperature: 0,
+    messages: [
+      {
+        role: "system",
+        content:
+          "You summarize TUM professor profile pages for a search index.\n" +
+          "Write one dense paragraph (4-6 sentences) covering:\n" +
+          "- the professor's full name, chair/group and school/department\n" +
+          "- their main research areas and methods, using specific technical terms\n" +
+          "- notable application domains, teaching topics or roles if present\n" +
+          "Use ONLY facts from the profile. Output ONLY the summary text.",
+      },
+      {
+        role: "user",
+        content: `Professor: ${profile.professor}\n\nProfile:\n${profileText(profile)}`,
+      },
+    ],
+  });
+
+  // the name must be in the embedded text so name lookups route correctly
+  return summary.includes(profile.professor) ? summary : `${profile.professor}. ${summary}`.trim();
+}
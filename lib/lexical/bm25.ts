@@ -0,0 +1,121 @@
+// lib/lexical/bm25.ts
+import { matchesFilter } from "../vector-store/filter";
+import type { ProfileMetadata, VectorFilter, VectorMatch } from "../vector-store/types";
+
+export type LexicalRecord = { id: string; metadata: ProfileMetadata };
+
+const K1 = 1.2;
+const B = 0.75;
+
+// Professor names count this many times, so name queries beat passing mentions in text.
+const NAME_WEIGHT = 3;
+
+// Common English/German function words plus academic titles, which appear in every
+// profile and would otherwise make "Prof. X" match everybody.
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be by for from has have he her his in is it its of on or she that the " +
+    "their they this to was were what which who whom with works work working does do " +
+    "der die das und oder ein eine einer eines dem den des im in ist mit von zu zur zum auf " +
+    "fuer ueber wer wie was welche welcher arbeitet " +
+    "prof professor professorin dr rer nat ing med phil habil dipl univ tum"
+  ).split(" ")
+);
+
+/** Lowercase with umlauts spelled out (Müller → mueller) as users type them, other accents dropped. */
+export function foldText(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/ä/g, "ae")
+    .replace(/ö/g, "oe")
+    .replace(/ü/g, "ue")
+    .replace(/ß/g, "ss")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+/** Lowercase ASCII terms without stopwords, see foldText. */
+export function tokenize(text: string) {
+  return (foldText(text).match(/[a-z0-9]+/g) || []).filter(
+    (t) => t.length >= 2 && !STOPWORDS.has(t)
+  );
+}
+
+type IndexedDoc = {
+  record: LexicalRecord;
+  terms: Map<string, number>;
+  length: number;
+};
+
+export type Bm25Index = {
+  size: number;
+  search(query: string, params: { topK: number; filter?: VectorFilter }): VectorMatch[];
+  namedDocIds(query: string): string[];
+};
+
+export function buildBm25Index(records: LexicalRecord[]): Bm25Index {
+  const docs: IndexedDoc[] = records.map((record) => {
+    const md = record.metadata;
+    const nameTokens = tokenize(md.professor);
+    const tokens = [
+      ...Array.from({ length: NAME_WEIGHT }, () => nameTokens).flat(),
+      ...tokenize(md.chunk_block),
+      ...tokenize(md.text),
+    ];
+    const terms = new Map<string, number>();
+    for (const t of tokens) terms.set(t, (terms.get(t) ?? 0) + 1);
+    return { record, terms, length: tokens.length };
+  });
+
+  const df = new Map<string, number>();
+  for (const d of docs) for (const t of d.terms.keys()) df.set(t, (df.get(t) ?? 0) + 1);
+
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / (docs.length || 1);
+
+  const idf = (term: string) => {
+    const n = df.get(term) ?? 0;
+    return Math.log(1 + (docs.length - n + 0.5) / (n + 0.5));
+  };
+
+  // surname (last name token) -> doc_ids, for exact name lookups
+  const surnames = new Map<string, Set<string>>();
+  for (const d of docs) {
+    const surname = tokenize(d.record.metadata.professor).pop();
+    if (!surname || surname.length < 3) continue;
+    if (!surnames.has(surname)) surnames.set(surname, new Set());
+    surnames.get(surname)!.add(d.record.metadata.doc_id);
+  }
+
+  return {
+    size: docs.length,
+
+    search(query, { topK, filter }) {
+      const qTerms = Array.from(new Set(tokenize(query)));
+      if (!qTerms.length) return [];
+
+      const scored: VectorMatch[] = [];
+      for (const d of docs) {
+        if (!matchesFilter(d.record.metadata, filter)) continue;
+
+        let score = 0;
+        for (const t of qTerms) {
+          const tf = d.terms.get(t);
+          if (!tf) continue;
+          score += (idf(t) * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * d.length) / avgLength));
+        }
+        if (score > 0) scored.push({ id: d.record.id, score, metadata: d.record.metadata });
+      }
+
+      return scored.sort((a, b) => b.score - a.score).slice(0, topK);
+    },
+
+    /** doc_ids of professors whose surname appears in the query ("Prof. Cremers"). */
+    namedDocIds(query) {
+      const ids = new Set<string>();
+      for (const t of tokenize(query)) {
+        for (const id of surnames.get(t) ?? []) ids.add(id);
+      }
+      return Array.from(ids);
+    },
+  };
+}
@@ -0,0 +1,74 @@
+// lib/lexical/index.ts
+import { promises as fs } from "fs";
+import path from "path";
+import { buildBm25Index, type Bm25Index, type LexicalRecord } from "./bm25";
+
+export { foldText, tokenize, type Bm25Index, type LexicalRecord } from "./bm25";
+
+export const DEFAULT_LEXICAL_INDEX_PATH = process.env.LEXICAL_INDEX || "data/lexical-index.json";
+
+/**
+ * The lexical index is stored as the raw records per professor; terms and BM25
+ * statistics are computed when it is loaded. `profileHash` ties each professor's
+ * entry to the ingestion manifest so a stale entry is rebuilt on the next run.
+ */
+export type LexicalFile = {
+  version: 1;
+  professors: Record<string, { profileHash: string; records: LexicalRecord[] }>;
+};
+
+export async function loadLexicalFile(file = DEFAULT_LEXICAL_INDEX_PATH): Promise<LexicalFile> {
+  try {
+    const data = JSON.parse(await fs.readFile(file, "utf8")) as LexicalFile;
+    if (data?.version === 1 && data.professors) return data;
+    throw new Error(`Unsupported lexical index format in ${file}`);
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return { version: 1, professors: {} };
+    throw err;
+  }
+}
+
+export async function saveLexicalFile(data: LexicalFile, file = DEFAULT_LEXICAL_INDEX_PATH) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data));
+  await fs.rename(tmp, file);
+}
+
+let cached: { mtimeMs: number; data: LexicalFile; index: Bm25Index } | null = null;
+
+async function loadCached(file: string) {
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.stat(file)).mtimeMs;
+  } catch {
+    return null;
+  }
+
+  if (cached?.mtimeMs !== mtimeMs) {
+    const data = await loadLexicalFile(file);
+    const records = Object.values(data.professors).flatMap((p) => p.records);
+    cached = { mtimeMs, data, index: buildBm25Index(records) };
+  }
+  return cached;
+}
+
+/**
+ * The BM25 index over everything in the lexical index file, or null when there is no
+ * file yet (retrieval then falls back to vectors only). Rebuilt when ingestion
+ * rewrites the file.
+ */
+export async function getLexicalIndex(file = DEFAULT_LEXICAL_INDEX_PATH) {
+  return (await loadCached(file))?.index ?? null;
+}
+
+/**
+ * Every indexed record grouped by professor (summary first, then chunks in page order),
+ * with the file's mtime to cache what is derived from them; null when there is no file.
+ * The lexical file is the only complete listing of the index that doesn't need a
+ * scan of the vector store, so the directory pages read it too.
+ */
+export async function getIndexedProfessors(file = DEFAULT_LEXICAL_INDEX_PATH) {
+  const loaded = await loadCached(file);
+  return loaded ? { mtimeMs: loaded.mtimeMs, professors: loaded.data.professors } : null;
+}
@@ -0,0 +1,53 @@
+// lib/prof-query/answer-cache.ts
+import { cacheKey, getCache, type CacheStatus } from "../cache";
+import { getChatProvider } from "../providers";
+import type { RetrievalConfig } from "./config";
+import type { QueryFilters } from "./filters";
+import type { AnswerOptions } from "./llm";
+import { normalizeQuestion } from "./retrieval";
+import type { Comparison, MatchForClient, Recommendation } from "./types";
+
+/** Everything needed to replay a response without retrieval or an LLM call. */
+export type CachedAnswer = {
+  answer: string;
+  citations: number[];
+  matches: MatchForClient[];
+  comparison?: Comparison;
+  recommendations?: Recommendation[];
+};
+
+/**
+ * Look up the final answer for a rewritten question. `key` is null when the answer
+ * cache is off; pass it to `storeAnswer` once the answer is complete.
+ */
+export async function lookupAnswer(
+  rewrittenQuestion: string,
+  filters: QueryFilters,
+  config: RetrievalConfig,
+  options: AnswerOptions
+): Promise<{ key: string | null; status: CacheStatus; hit?: CachedAnswer }> {
+  const cache = getCache<CachedAnswer>("answer");
+  if (!cache) return { key: null, status: "off" };
+
+  const key = await cacheKey(
+    getChatProvider().model,
+    normalizeQuestion(rewrittenQuestion),
+    filters,
+    config,
+    !!options.citations,
+    options.language ?? "en",
+    !!options.recommend
+  );
+  const hit = await cache.get(key).catch((err: unknown) => {
+    console.error("Cache answer read error:", err);
+    return undefined;
+  });
+  return hit ? { key, status: "hit", hit } : { key, status: "miss" };
+}
+
+export async function storeAnswer(key: string | null, answer: CachedAnswer) {
+  if (!key) return;
+  await getCache<CachedAnswer>("answer")
+    ?.set(key, answer)
+    .catch((err: unknown) => console.error("Cache answer write error:", err));
+}
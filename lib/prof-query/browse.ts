@@ -0,0 +1,32 @@
+// lib/prof-query/browse.ts
+import { NO_TRACE, type Trace } from "../telemetry";
+import { detectLanguage } from "./language";
+import { standaloneQuestion } from "./llm";
+import type { ParsedQuery } from "./request";
+import { browseChunks, matchesToClient } from "./retrieval";
+import type { BrowseResponse } from "./types";
+
+/**
+ * `mode: "browse"`: the matches for the question, a page at a time, without generating
+ * an answer. Only follow-ups and non-English questions call the LLM, for the rewrite.
+ */
+export async function browse(query: ParsedQuery, trace: Trace = NO_TRACE): Promise<BrowseResponse> {
+  const { messages, filters, config, page } = query;
+  const language = detectLanguage(messages[messages.length - 1].content, query.language);
+  trace.set({ mode: "browse", page, messages: messages.length, language });
+
+  const rewrittenQuestion = await standaloneQuestion(messages, language, config.historyMessages, trace);
+  trace.set({ rewrittenQuestion });
+
+  const result = await browseChunks(rewrittenQuestion, filters, page, trace);
+  trace.set({ picked: result.matches.length });
+  return {
+    mode: "browse",
+    matches: matchesToClient(result.matches),
+    page,
+    hasMore: result.hasMore,
+    rewrittenQuestion,
+    language,
+    cache: result.cache,
+  };
+}
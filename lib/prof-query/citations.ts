@@ -0,0 +1,32 @@
+// lib/prof-query/citations.ts
+
+// [1], [#1], [1, 3], [#1][#2] ...
+const MARKER_GROUP = /\[(#?\d+(?:\s*,\s*#?\d+)*)\]/g;
+
+/**
+ * Normalize the model's citation markers to `[n]` and drop any that don't point at one
+ * of the `sourceCount` picked matches. Pass 0 to strip all markers.
+ * Returns the cleaned answer and the distinct source numbers it cites, in order.
+ */
+export function cleanCitations(answer: string, sourceCount: number) {
+  const cited: number[] = [];
+
+  const cleaned = answer.replace(MARKER_GROUP, (_, group: string) => {
+    const valid = group
+      .split(",")
+      .map((n) => Number(n.trim().replace("#", "")))
+      .filter((n) => Number.isInteger(n) && n >= 1 && n <= sourceCount);
+
+    for (const n of valid) if (!cited.includes(n)) cited.push(n);
+    return valid.map((n) => `[${n}]`).join("");
+  });
+
+  return {
+    // removing a marker can leave "word ." or double spaces behind
+    answer: cleaned
+      .replace(/[ \t]+([.,;:!?])/g, "$1")
+      .replace(/[ \t]{2,}/g, " ")
+      .trim(),
+    cited,
+  };
+}
@@ -0,0 +1,163 @@
+// lib/prof-query/compare.ts
+import { getChatProvider, type ChatParams } from "../providers";
+import { NO_TRACE, type Trace } from "../telemetry";
+import type { VectorMatch } from "../vector-store";
+import { cleanCitations } from "./citations";
+import { upstream } from "./contract";
+import { LANGUAGE_NAMES, type Language } from "./language";
+import type { Comparison, ComparisonCell } from "./types";
+
+/** More professors than this make a table nobody reads; the first ones named win. */
+export const MAX_COMPARED = 4;
+
+// Matched on the rewritten question, which is always English.
+const COMPARISON_RE =
+  /\b(compare[sd]?|comparing|comparison|versus|vs\.?|differ(s|ence|ences|ent)?|contrast|between)\b/i;
+
+export function isComparisonQuestion(question: string) {
+  return COMPARISON_RE.test(question);
+}
+
+export type Professor = Comparison["professors"][number] & { entries: number[] };
+
+/** Professors in `docIds` order, with the context entry numbers of their sources. */
+export function professorsOf(picked: VectorMatch[], docIds: string[]): Professor[] {
+  return docIds
+    .map((docId) => ({
+      docId,
+      professor: picked.find((m) => m.metadata.doc_id === docId)?.metadata.professor ?? "",
+      entries: picked.flatMap((m, i) => (m.metadata.doc_id === docId ? [i + 1] : [])),
+    }))
+    .filter((p) => p.entries.length > 0);
+}
+
+/** "- <doc id>: <name> (entries [1][2])" lines, telling the model whose sources are whose. */
+export function professorList(professors: Professor[]) {
+  return professors
+    .map((p) => `- ${p.docId}: ${p.professor} (entries ${p.entries.map((n) => `[${n}]`).join("")})`)
+    .join("\n");
+}
+
+function comparisonParams(
+  question: string,
+  context: string,
+  professors: Professor[],
+  language: Language
+): ChatParams {
+  return {
+    task: "compare",
+    temperature: 0.2,
+    messages: [
+      {
+        role: "system",
+        content:
+          "You compare TUM professors side by side using ONLY the provided context.\n" +
+          "Pick the aspects the question asks about (e.g. research focus, group size); if it " +
+          "names none, use 3 to 5 aspects that tell the professors apart.\n" +
+          "For every aspect, write one short cell per professor, citing that professor's own " +
+          "entries as [n]. If the context says nothing about an aspect for a professor, use an " +
+          "empty string; never guess.\n" +
+          `Write aspect names, cells and summary in ${LANGUAGE_NAMES[language]}.\n` +
+          "Return ONLY JSON: " +
+          '{"aspects": [{"name": "...", "cells": {"<professor id>": "... [n]"}}], ' +
+          '"summary": "one or two sentences on the main differences, with citations"}.',
+      },
+      {
+        role: "user",
+        content: `Professors:\n${professorList(professors)}\n\nQuestion:\n${question}\n\nContext:\n${context}`,
+      },
+    ],
+  };
+}
+
+function parseCell(raw: unknown, professor: Professor): ComparisonCell {
+  if (typeof raw !== "string") return { text: "", citations: [] };
+  const lastEntry = Math.max(...professor.entries);
+  // a cell may only cite its own professor's sources
+  const citations = cleanCitations(raw, lastEntry).cited.filter((n) =>
+    professor.entries.includes(n)
+  );
+  return { text: cleanCitations(raw, 0).answer, citations };
+}
+
+/** Validate the model's JSON; null when it is unusable. */
+export function parseComparison(
+  text: string,
+  professors: Professor[],
+  sourceCount: number
+): Comparison | null {
+  const json = text.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+  let data: { aspects?: unknown; summary?: unknown };
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(data.aspects)) return null;
+
+  const aspects = data.aspects
+    .filter((a): a is { name: string; cells?: Record<string, unknown> } => typeof a?.name === "string")
+    .map((a) => ({
+      name: a.name.trim(),
+      cells: professors.map((p) => parseCell(a.cells?.[p.docId], p)),
+    }))
+    .filter((a) => a.name && a.cells.some((c) => c.text));
+  if (!aspects.length) return null;
+
+  return {
+    professors: professors.map(({ docId, professor }) => ({ docId, professor })),
+    aspects,
+    summary:
+      typeof data.summary === "string" ? cleanCitations(data.summary, sourceCount).answer : "",
+  };
+}
+
+/**
+ * Plain-text version of a comparison, used as the answer: it is what the chat history
+ * (and so the rewriter of follow-up questions) sees, and what clients without a table show.
+ */
+export function comparisonText(comparison: Comparison) {
+  const lines = comparison.aspects.map(
+    (aspect) =>
+      `${aspect.name}: ` +
+      aspect.cells
+        .map((cell, i) => {
+          const markers = cell.citations.map((n) => `[${n}]`).join("");
+          return `${comparison.professors[i].professor}: ${cell.text || "–"}${markers ? ` ${markers}` : ""}`;
+        })
+        .join("; ")
+  );
+  return [comparison.summary, ...lines].filter(Boolean).join("\n");
+}
+
+/**
+ * Ask for a structured comparison of the routed professors. `picked` must be grouped by
+ * professor as `retrieve` returns it for comparisons. Returns null when fewer than two
+ * professors have sources or the reply can't be parsed; answer normally then.
+ */
+export async function askComparison(
+  question: string,
+  context: string,
+  picked: VectorMatch[],
+  docIds: string[],
+  language: Language = "en",
+  trace: Trace = NO_TRACE
+) {
+  const professors = professorsOf(picked, docIds);
+  if (professors.length < 2) return null;
+
+  const provider = getChatProvider();
+  const params = comparisonParams(question, context, professors, language);
+  const { text, usage } = await trace.stage(
+    "answer",
+    () => upstream("UPSTREAM_LLM_FAILED", () => provider.complete(params)),
+    { comparison: professors.length }
+  );
+  trace.usage("answer", usage);
+
+  const comparison = parseComparison(text, professors, picked.length);
+  if (!comparison) return null;
+  const { answer, cited } = cleanCitations(comparisonText(comparison), picked.length);
+  return { comparison, answer, citations: cited };
+}
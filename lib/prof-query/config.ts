@@ -0,0 +1,124 @@
+// lib/prof-query/config.ts
+import { RERANK_DIVERSITY } from "../rerank";
+import type { InvalidField } from "./types";
+
+/** Knobs of the retrieval pipeline; each can be overridden per request via `options`. */
+export type RetrievalConfig = {
+  summaryTopK: number; // professors routed to in stage 1
+  chunkTopK: number; // chunk candidates fetched in stage 2
+  minChunks: number; // fewer routed chunks than this broadens to all professors
+  pickCount: number; // chunks given to the LLM
+  diversity: number; // MMR weight when picking (0 = pure score order)
+  historyMessages: number; // messages of history the rewrite sees
+};
+
+type OptionSchema = {
+  type: "integer" | "number";
+  min: number;
+  max: number;
+  default: number;
+  description: string;
+};
+
+/**
+ * The schema for `options`, also served to the UI so it can render controls without
+ * duplicating bounds. Broad "who works on X" questions do better with more professors
+ * (summaryTopK) and more diversity; single-professor questions with fewer.
+ */
+export const RETRIEVAL_OPTIONS_SCHEMA: Record<keyof RetrievalConfig, OptionSchema> = {
+  summaryTopK: {
+    type: "integer",
+    min: 1,
+    max: 10,
+    default: 3,
+    description: "Professors to route the question to",
+  },
+  chunkTopK: {
+    type: "integer",
+    min: 1,
+    max: 50,
+    default: 12,
+    description: "Profile chunks to fetch from the routed professors",
+  },
+  minChunks: {
+    type: "integer",
+    min: 0,
+    max: 50,
+    default: 3,
+    description: "Search all professors when routing finds fewer chunks than this",
+  },
+  pickCount: {
+    type: "integer",
+    min: 1,
+    max: 20,
+    default: 8,
+    description: "Chunks passed to the model as sources",
+  },
+  diversity: {
+    type: "number",
+    min: 0,
+    max: 1,
+    default: RERANK_DIVERSITY,
+    description: "Preference for sources from different professors and sections",
+  },
+  historyMessages: {
+    type: "integer",
+    min: 1,
+    max: 50,
+    default: 12,
+    description: "Earlier messages used to understand follow-up questions",
+  },
+};
+
+const OPTION_NAMES = Object.keys(RETRIEVAL_OPTIONS_SCHEMA) as (keyof RetrievalConfig)[];
+
+export const DEFAULT_RETRIEVAL_CONFIG = Object.fromEntries(
+  OPTION_NAMES.map((name) => [name, RETRIEVAL_OPTIONS_SCHEMA[name].default])
+) as RetrievalConfig;
+
+function checkOption(name: keyof RetrievalConfig, value: unknown) {
+  const schema = RETRIEVAL_OPTIONS_SCHEMA[name];
+  const kind = schema.type === "integer" ? "an integer" : "a number";
+  const valid =
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    (schema.type === "number" || Number.isInteger(value)) &&
+    value >= schema.min &&
+    value <= schema.max;
+  return valid ? null : `must be ${kind} between ${schema.min} and ${schema.max}`;
+}
+
+/**
+ * Validate the `options` body field against the schema and fill in defaults. All
+ * invalid and unknown fields are reported at once, not just the first.
+ */
+export function parseRetrievalOptions(
+  raw: unknown
+): { config: RetrievalConfig } | { error: string; fields: InvalidField[] } {
+  if (raw === undefined || raw === null) return { config: { ...DEFAULT_RETRIEVAL_CONFIG } };
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    return {
+      error: '"options" must be an object',
+      fields: [{ field: "options", message: "must be an object" }],
+    };
+  }
+
+  const config = { ...DEFAULT_RETRIEVAL_CONFIG };
+  const fields: InvalidField[] = [];
+
+  for (const [field, value] of Object.entries(raw)) {
+    if (!(OPTION_NAMES as string[]).includes(field)) {
+      fields.push({ field, message: `is not a known option (${OPTION_NAMES.join(", ")})` });
+      continue;
+    }
+    const message = checkOption(field as keyof RetrievalConfig, value);
+    if (message) fields.push({ field, message });
+    else config[field as keyof RetrievalConfig] = value as number;
+  }
+
+  if (fields.length) {
+    const list = fields.map((f) => `${f.field} ${f.message}`).join("; ");
+    return { error: `Invalid "options": ${list}`, fields };
+  }
+  return { config };
+}
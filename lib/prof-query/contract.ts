@@ -0,0 +1,142 @@
+// lib/prof-query/contract.ts
+import type {
+  ApiError,
+  ApiErrorCode,
+  Comparison,
+  ComparisonCell,
+  MatchForClient,
+  Recommendation,
+  StreamEvent,
+} from "./types";
+
+// Runtime half of the /api/prof-query contract (the types are in ./types). Imported by
+// the chat page too, so it must not import anything server-only.
+
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  INVALID_JSON: 400,
+  INVALID_MESSAGES: 400,
+  INVALID_FILTERS: 400,
+  INVALID_OPTIONS: 400,
+  INVALID_LANGUAGE: 400,
+  INVALID_QUERY: 400,
+  INVALID_MODE: 400,
+  INVALID_PAGE: 400,
+  BODY_TOO_LARGE: 413,
+  MESSAGES_TOO_LARGE: 413,
+  RATE_LIMITED: 429,
+  UNAUTHORIZED: 401,
+  QUOTA_EXCEEDED: 429,
+  UPSTREAM_EMBEDDING_FAILED: 502,
+  UPSTREAM_VECTOR_STORE_FAILED: 502,
+  UPSTREAM_RERANK_FAILED: 502,
+  UPSTREAM_LLM_FAILED: 502,
+  INTERNAL_ERROR: 500,
+};
+
+export function isApiError(body: unknown): body is ApiError {
+  if (!body || typeof body !== "object") return false;
+  const { error, code } = body as Record<string, unknown>;
+  return typeof error === "string" && typeof code === "string" && code in API_ERROR_STATUS;
+}
+
+const isString = (value: unknown) => typeof value === "string";
+
+/** Shape check for matches sent back by clients, e.g. in saved conversations. */
+export function isMatchForClient(value: unknown): value is MatchForClient {
+  if (!value || typeof value !== "object") return false;
+  const m = value as Record<string, unknown>;
+  return (
+    typeof m.score === "number" &&
+    (m.chunkId === undefined || isString(m.chunkId)) &&
+    [m.docId, m.professor, m.url, m.chunkBlock, m.snippet].every(isString)
+  );
+}
+
+const isCitationList = (value: unknown) =>
+  Array.isArray(value) && value.every((n) => Number.isInteger(n));
+
+function isComparisonCell(value: unknown): value is ComparisonCell {
+  const { text, citations } = (value ?? {}) as Record<string, unknown>;
+  return typeof text === "string" && isCitationList(citations);
+}
+
+/** Shape check for a comparison, with one cell per professor in every aspect. */
+export function isComparison(value: unknown): value is Comparison {
+  if (!value || typeof value !== "object") return false;
+  const c = value as Record<string, unknown>;
+  if (typeof c.summary !== "string" || !Array.isArray(c.professors) || !Array.isArray(c.aspects)) {
+    return false;
+  }
+  const columns = c.professors.length;
+  return (
+    c.professors.every((p) => isString(p?.docId) && isString(p?.professor)) &&
+    c.aspects.every(
+      (a) =>
+        isString(a?.name) &&
+        Array.isArray(a.cells) &&
+        a.cells.length === columns &&
+        a.cells.every(isComparisonCell)
+    )
+  );
+}
+
+/** Shape check for a recommended professor card. */
+export function isRecommendation(value: unknown): value is Recommendation {
+  if (!value || typeof value !== "object") return false;
+  const r = value as Record<string, unknown>;
+  return (
+    [r.docId, r.professor, r.url, r.reason].every(isString) &&
+    typeof r.score === "number" &&
+    Array.isArray(r.sections) &&
+    r.sections.every(isString) &&
+    isCitationList(r.citations)
+  );
+}
+
+type CodedError = Error & { code: ApiErrorCode };
+
+/** An Error tagged with the code the route should report it under. */
+export function codedError(code: ApiErrorCode, message: string, cause?: unknown): CodedError {
+  return Object.assign(new Error(message, { cause }), { code });
+}
+
+/** The code an error was tagged with, INTERNAL_ERROR for anything else. */
+export function errorCode(err: unknown): ApiErrorCode {
+  const code = (err as Partial<CodedError> | null)?.code;
+  return typeof code === "string" && code in API_ERROR_STATUS ? code : "INTERNAL_ERROR";
+}
+
+/** Run a call to an external provider, tagging its failure with `code`. */
+export async function upstream<T>(code: ApiErrorCode, call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (err: unknown) {
+    if (errorCode(err) !== "INTERNAL_ERROR") throw err;
+    throw codedError(code, err instanceof Error ? err.message : String(err), err);
+  }
+}
+
+/** The ApiError body for a request that failed with `err`. */
+export function toApiError(err: unknown): ApiError {
+  return {
+    error: err instanceof Error ? err.message : "Internal server error",
+    code: errorCode(err),
+  };
+}
+
+const EVENT_FIELDS: Record<StreamEvent["type"], string[]> = {
+  meta: ["rewrittenQuestion", "language", "matches", "cache"],
+  token: ["text"],
+  done: ["answer", "citations"],
+  error: ["error", "code"],
+};
+
+/** Parse one NDJSON line of a streaming response; throws on anything malformed. */
+export function parseStreamEvent(line: string): StreamEvent {
+  const event = JSON.parse(line) as Record<string, unknown> | null;
+  const fields = EVENT_FIELDS[event?.type as StreamEvent["type"]];
+  if (!event || !fields || fields.some((field) => !(field in event))) {
+    throw new Error(`Malformed stream event: ${line.slice(0, 100)}`);
+  }
+  return event as StreamEvent;
+}
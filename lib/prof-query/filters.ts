@@ -0,0 +1,49 @@
+// lib/prof-query/filters.ts
+import type { VectorFilter } from "../vector-store";
+
+/**
+ * Facet filters accepted in the `filters` field of a query. Values within one facet
+ * are ORed ("either of these schools"), different facets are ANDed.
+ */
+export type QueryFilters = {
+  school?: string[];
+  department?: string[];
+  topics?: string[];
+};
+
+export const FACET_FIELDS = ["school", "department", "topics"] as const;
+
+/**
+ * Validate the `filters` body field. Each facet may be a string or an array of strings;
+ * empty values are dropped. Returns an error message for anything else.
+ */
+export function parseFilters(raw: unknown): { filters: QueryFilters } | { error: string } {
+  if (raw === undefined || raw === null) return { filters: {} };
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    return { error: '"filters" must be an object' };
+  }
+
+  const filters: QueryFilters = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!(FACET_FIELDS as readonly string[]).includes(key)) {
+      return { error: `Unknown filter "${key}"; expected one of ${FACET_FIELDS.join(", ")}` };
+    }
+    const values = typeof value === "string" ? [value] : value;
+    if (!Array.isArray(values) || values.some((v) => typeof v !== "string")) {
+      return { error: `Filter "${key}" must be a string or an array of strings` };
+    }
+    const cleaned = values.map((v: string) => v.trim()).filter(Boolean);
+    if (cleaned.length) filters[key as keyof QueryFilters] = cleaned;
+  }
+  return { filters };
+}
+
+/** The metadata filter for the given facets, to be merged into every retrieval query. */
+export function facetFilter(filters: QueryFilters): VectorFilter {
+  const filter: VectorFilter = {};
+  for (const field of FACET_FIELDS) {
+    const values = filters[field];
+    if (values?.length) filter[field] = { $in: values };
+  }
+  return filter;
+}
@@ -0,0 +1,29 @@
+// lib/prof-query/fusion.ts
+import type { VectorMatch } from "../vector-store";
+
+// Standard RRF constant; dampens the gap between the first few ranks.
+const RRF_K = 60;
+
+/**
+ * Reciprocal-rank fusion of several ranked lists (e.g. vector and BM25 results).
+ * The fused score is scaled so that ranking first in every list gives 1.0, keeping
+ * it comparable to the 0..1 cosine scores the UI shows as a percentage.
+ */
+export function reciprocalRankFusion(lists: VectorMatch[][]) {
+  const nonEmpty = lists.filter((l) => l.length);
+  if (nonEmpty.length <= 1) return nonEmpty[0] ?? [];
+
+  const fused = new Map<string, VectorMatch>();
+  for (const list of nonEmpty) {
+    list.forEach((m, rank) => {
+      const prev = fused.get(m.id);
+      const score = (prev?.score ?? 0) + 1 / (RRF_K + rank + 1);
+      fused.set(m.id, { id: m.id, score, metadata: prev?.metadata ?? m.metadata });
+    });
+  }
+
+  const best = nonEmpty.length / (RRF_K + 1);
+  return Array.from(fused.values())
+    .map((m) => ({ ...m, score: m.score / best }))
+    .sort((a, b) => b.score - a.score);
+}
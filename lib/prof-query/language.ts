@@ -0,0 +1,43 @@
+// lib/prof-query/language.ts
+//
+// Languages the assistant answers in. No server-only imports: the chat page uses the
+// type and list for its locale switcher.
+
+export type Language = "en" | "de";
+
+export const LANGUAGES: Language[] = ["en", "de"];
+
+export const LANGUAGE_NAMES: Record<Language, string> = { en: "English", de: "German" };
+
+export function isLanguage(value: unknown): value is Language {
+  return LANGUAGES.includes(value as Language);
+}
+
+// Frequent short words that are (nearly) never words of the other language.
+const STOPWORDS: Record<Language, Set<string>> = {
+  en: new Set(
+    "the and is are who what which does do how with about for of on to at works working has have his her their from".split(
+      " "
+    )
+  ),
+  de: new Set(
+    "der die das und ist sind wer welche welcher welches wie mit über für von zum zur im auf forscht arbeitet hat haben sein seine ihre ein eine einen nicht auch gibt lehrt".split(
+      " "
+    )
+  ),
+};
+
+/**
+ * Guess the language of a chat message from its function words and umlauts. Short or
+ * mixed messages ("Prof. Cremers?") are undecided and get `fallback`, e.g. the UI locale.
+ */
+export function detectLanguage(text: string, fallback: Language = "en"): Language {
+  const words = text.toLowerCase().match(/[\p{L}]+/gu) ?? [];
+  const score = { en: 0, de: /[äöüß]/i.test(text) ? 1 : 0 };
+  for (const word of words) {
+    if (STOPWORDS.en.has(word)) score.en++;
+    if (STOPWORDS.de.has(word)) score.de++;
+  }
+  if (score.de === score.en) return fallback;
+  return score.de > score.en ? "de" : "en";
+}
@@ -0,0 +1,31 @@
+// lib/prof-query/limits.ts
+import type { ChatMsg } from "./types";
+
+function limitFromEnv(variable: string, fallback: number) {
+  const value = Number(process.env[variable]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+// Only the last 12 messages are used for the rewrite, but clients send more; the
+// limits are there to bound the cost of one request, not the length of a chat.
+export const MAX_BODY_BYTES = limitFromEnv("MAX_BODY_BYTES", 64 * 1024);
+export const MAX_MESSAGES = limitFromEnv("MAX_MESSAGES", 50);
+export const MAX_MESSAGE_CHARS = limitFromEnv("MAX_MESSAGE_CHARS", 4000);
+
+// Browse mode pages through matches; each page queries all the ones before it again.
+export const BROWSE_PAGE_SIZE = 12;
+export const MAX_BROWSE_PAGES = limitFromEnv("MAX_BROWSE_PAGES", 10);
+
+/** Error message for a request over the size limits, or null. */
+export function checkMessageLimits(messages: ChatMsg[]) {
+  if (messages.length > MAX_MESSAGES) {
+    return `Too many messages (${messages.length}); send at most ${MAX_MESSAGES}`;
+  }
+  const index = messages.findIndex(
+    (m) => typeof m?.content === "string" && m.content.length > MAX_MESSAGE_CHARS
+  );
+  if (index !== -1) {
+    return `Message ${index} is too long; messages can have at most ${MAX_MESSAGE_CHARS} characters`;
+  }
+  return null;
+}
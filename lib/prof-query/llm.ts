@@ -0,0 +1,170 @@
+// lib/prof-query/llm.ts
+import { getChatProvider, type ChatParams, type TokenUsage } from "../providers";
+import { NO_TRACE, type Trace } from "../telemetry";
+import { DEFAULT_RETRIEVAL_CONFIG } from "./config";
+import { codedError, upstream } from "./contract";
+import { LANGUAGE_NAMES, type Language } from "./language";
+import type { ChatMsg } from "./types";
+
+/**
+ * Always rewrite the latest user message into a standalone retrieval query using chat history.
+ * This makes follow-up questions work (pronouns, "what about awards?", etc.). The query is
+ * always English, so German and English questions search the index the same way.
+ *
+ * Request body must send: { messages: [{role, content}, ...] }
+ * and the LAST message must be { role: "user", content: "..." }
+ */
+export async function rewriteToStandalone(
+  messages: ChatMsg[],
+  historyMessages = DEFAULT_RETRIEVAL_CONFIG.historyMessages,
+  trace: Trace = NO_TRACE
+) {
+  const history = messages.slice(-historyMessages).map((m) => ({ role: m.role, content: m.content }));
+
+  const params: ChatParams = {
+    task: "rewrite",
+    temperature: 0,
+    messages: [
+      {
+        role: "system",
+        content:
+          "You are a query rewriter for semantic search.\n" +
+          "Rewrite the user's latest message into a fully standalone question.\n" +
+          "Rules:\n" +
+          "- Resolve pronouns and references using the conversation.\n" +
+          "- If the user asks for contact info (email/phone/address), make the subject explicit.\n" +
+          "- Preserve intent; do not add facts.\n" +
+          "- Write the question in English, whatever language the conversation is in. Keep names " +
+          "of people, chairs and courses as written (e.g. Lehrstuhl names stay German).\n" +
+          "Output ONLY the rewritten question (no quotes, no commentary).",
+      },
+      ...history,
+      { role: "user", content: "Rewrite my latest message into a standalone question." },
+    ],
+  };
+
+  const provider = getChatProvider();
+  const { text, usage } = await trace.stage("rewrite", () =>
+    upstream("UPSTREAM_LLM_FAILED", () => provider.complete(params))
+  );
+  trace.usage("rewrite", usage);
+
+  return text || messages[messages.length - 1]?.content || "";
+}
+
+/**
+ * The query to search with, for callers that don't need the rewrite's clean-up: a single
+ * English question is already standalone, so only follow-ups and other languages cost
+ * an LLM call.
+ */
+export async function standaloneQuestion(
+  messages: ChatMsg[],
+  language: Language,
+  historyMessages = DEFAULT_RETRIEVAL_CONFIG.historyMessages,
+  trace: Trace = NO_TRACE
+) {
+  if (messages.length > 1 || language !== "en") {
+    return rewriteToStandalone(messages, historyMessages, trace);
+  }
+  return messages[0].content;
+}
+
+export const NO_INFO_ANSWERS: Record<Language, string> = {
+  en: "I could not find relevant information in the indexed professor profiles for that question.",
+  de: "Ich konnte in den indexierten Professorenprofilen keine passenden Informationen zu dieser Frage finden.",
+};
+
+// The answer prompt tells the model to say it doesn't have the information.
+const NO_INFO_RE =
+  /could not find relevant information|(don[’']t|do not) have (that|this|any|the) information|keine (passenden |relevanten )?informationen/i;
+
+/** The fallback answer, or the model saying in its own words that the sources don't cover it. */
+export function isNoInfoAnswer(answer: string) {
+  return Object.values(NO_INFO_ANSWERS).includes(answer) || NO_INFO_RE.test(answer);
+}
+
+export type AnswerOptions = {
+  citations?: boolean; // cite context entries as [n] instead of hiding the sources
+  language?: Language; // of the answer; default English
+  recommend?: boolean; // the professors are also listed as cards, ranked
+};
+
+function answerSystemPrompt({ citations, language = "en", recommend }: AnswerOptions) {
+  const base =
+    "You answer questions about TUM professors using ONLY the provided context. " +
+    "If the answer is not in the context, say you don’t have that information. " +
+    "Write a polished, direct answer. " +
+    `Answer in ${LANGUAGE_NAMES[language]}, even where the context is in another language; ` +
+    "keep names of people, chairs and courses as they appear in the context. " +
+    (recommend
+      ? "The professors are also shown as a ranked list of cards, so summarize the overall " +
+        "picture in a few sentences instead of describing every professor. "
+      : "");
+
+  if (citations) {
+    return (
+      base +
+      "The context entries are numbered [#1], [#2], .... After every sentence that uses " +
+      "information from the context, cite the entries it relies on as [1] or [1][3]. " +
+      "Only cite entry numbers that exist in the context. " +
+      "Do NOT mention retrieval, Pinecone, embeddings, or chunks. " +
+      "Output ONLY the final answer text with its citations."
+    );
+  }
+
+  return (
+    base +
+    "Do NOT mention sources, retrieval, Pinecone, embeddings, or chunks. " +
+    "Output ONLY the final answer text."
+  );
+}
+
+function answerParams(finalQuestion: string, context: string, options: AnswerOptions): ChatParams {
+  return {
+    task: "answer",
+    temperature: 0.2,
+    messages: [
+      { role: "system", content: answerSystemPrompt(options) },
+      { role: "user", content: `Question:\n${finalQuestion}\n\nContext:\n${context}` },
+    ],
+  };
+}
+
+export async function askLLM(
+  finalQuestion: string,
+  context: string,
+  options: AnswerOptions = {},
+  trace: Trace = NO_TRACE
+) {
+  const provider = getChatProvider();
+  const { text, usage } = await trace.stage("answer", () =>
+    upstream("UPSTREAM_LLM_FAILED", () =>
+      provider.complete(answerParams(finalQuestion, context, options))
+    )
+  );
+  trace.usage("answer", usage);
+  return text;
+}
+
+/** Same as askLLM, but yields the answer piece by piece as the model produces it. */
+export async function* streamLLM(
+  finalQuestion: string,
+  context: string,
+  options: AnswerOptions = {},
+  trace: Trace = NO_TRACE
+) {
+  const provider = getChatProvider();
+  const start = performance.now();
+  let usage: TokenUsage | undefined;
+  let outcome: "ok" | "error" = "error";
+  try {
+    yield* provider.stream(answerParams(finalQuestion, context, options), (u) => (usage = u));
+    outcome = "ok";
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw codedError("UPSTREAM_LLM_FAILED", message, err);
+  } finally {
+    // the stage lasts until the last token, however long the client takes to read them
+    trace.record({ stage: "answer", ms: Math.round(performance.now() - start), outcome, usage });
+  }
+}
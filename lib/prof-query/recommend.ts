@@ -0,0 +1,120 @@
+// lib/prof-query/recommend.ts
+import { getChatProvider, type ChatParams } from "../providers";
+import { log, NO_TRACE, type Trace } from "../telemetry";
+import type { VectorMatch } from "../vector-store";
+import { professorList, professorsOf, type Professor } from "./compare";
+import { upstream } from "./contract";
+import { LANGUAGE_NAMES, type Language } from "./language";
+import { matchesToClient } from "./retrieval";
+import type { Recommendation } from "./types";
+
+const MAX_REASON_LENGTH = 200;
+
+/**
+ * A professor's chunk scores combined as a noisy-or, 1 - Π(1 - s): one very relevant
+ * chunk counts most, and every further relevant chunk adds a little.
+ */
+function aggregateScore(scores: number[]) {
+  const clamped = scores.map((s) => Math.min(1, Math.max(0, s)));
+  return 1 - clamped.reduce((rest, s) => rest * (1 - s), 1);
+}
+
+/** The picked chunks grouped by professor and ranked by aggregated score, without reasons. */
+export function rankProfessors(picked: VectorMatch[]): Recommendation[] {
+  const docIds = Array.from(new Set(picked.map((m) => m.metadata.doc_id)));
+  const cards = matchesToClient(picked);
+
+  return docIds
+    .map((docId) => {
+      const own = picked.flatMap((m, i) => (m.metadata.doc_id === docId ? [i] : []));
+      const best = cards[own[0]];
+      return {
+        docId,
+        professor: best.professor,
+        url: best.url,
+        reason: best.snippet, // until the model's reason is in
+        sections: Array.from(new Set(own.map((i) => cards[i].chunkBlock).filter(Boolean))),
+        score: aggregateScore(own.map((i) => cards[i].score)),
+        citations: own.map((i) => i + 1),
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+function reasonParams(
+  question: string,
+  context: string,
+  professors: Professor[],
+  language: Language
+): ChatParams {
+  return {
+    task: "recommend",
+    temperature: 0.2,
+    messages: [
+      {
+        role: "system",
+        content:
+          "You explain why TUM professors are worth contacting about a question, using ONLY " +
+          "the provided context.\n" +
+          "For every professor listed, write one line (at most 20 words) on what in their own " +
+          "entries makes them relevant. No citations, no praise, no facts from elsewhere.\n" +
+          `Write in ${LANGUAGE_NAMES[language]}.\n` +
+          'Return ONLY JSON: {"<professor id>": "reason", ...}.',
+      },
+      {
+        role: "user",
+        content: `Professors:\n${professorList(professors)}\n\nQuestion:\n${question}\n\nContext:\n${context}`,
+      },
+    ],
+  };
+}
+
+function parseReasons(text: string) {
+  const json = text.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+  try {
+    const data = JSON.parse(json) as Record<string, unknown>;
+    return data && typeof data === "object" ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rank the professors behind the picked chunks and ask the model for a one-line reason
+ * each. The reasons are optional: if the call fails or its reply can't be parsed, each
+ * professor keeps the snippet of their best chunk, and the answer is not affected.
+ */
+export async function recommendProfessors(
+  question: string,
+  context: string,
+  picked: VectorMatch[],
+  language: Language = "en",
+  trace: Trace = NO_TRACE
+): Promise<Recommendation[]> {
+  const ranked = rankProfessors(picked);
+  const professors = professorsOf(picked, ranked.map((r) => r.docId));
+
+  try {
+    const provider = getChatProvider();
+    const params = reasonParams(question, context, professors, language);
+    const { text, usage } = await trace.stage(
+      "recommend",
+      () => upstream("UPSTREAM_LLM_FAILED", () => provider.complete(params)),
+      { professors: professors.length }
+    );
+    trace.usage("recommend", usage);
+
+    const reasons = parseReasons(text);
+    if (!reasons) log("warn", "recommend_unparseable", { traceId: trace.id });
+    return ranked.map((r) => {
+      const reason = reasons?.[r.docId];
+      return typeof reason === "string" && reason.trim()
+        ? { ...r, reason: reason.trim().slice(0, MAX_REASON_LENGTH) }
+        : r;
+    });
+  } catch (err: unknown) {
+    log("warn", "recommend_failed", { traceId: trace.id, err });
+    return ranked;
+  }
+}
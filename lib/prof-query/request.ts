@@ -0,0 +1,151 @@
+// lib/prof-query/request.ts
+import { parseRetrievalOptions, type RetrievalConfig } from "./config";
+import { parseFilters, type QueryFilters } from "./filters";
+import { isLanguage, LANGUAGES, type Language } from "./language";
+import { checkMessageLimits, MAX_BODY_BYTES, MAX_BROWSE_PAGES } from "./limits";
+import type { ApiError, ChatMsg, QueryMode } from "./types";
+
+const ROLES: ChatMsg["role"][] = ["user", "assistant", "system"];
+
+const MODES: QueryMode[] = ["answer", "browse"];
+
+/** A validated QueryRequest, with defaults filled in. */
+export type ParsedQuery = {
+  messages: ChatMsg[];
+  stream: boolean;
+  citations: boolean;
+  recommend: boolean;
+  filters: QueryFilters;
+  config: RetrievalConfig;
+  language?: Language;
+  mode: QueryMode;
+  page: number;
+};
+
+function checkMessages(raw: unknown): ApiError | null {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { error: 'Missing or invalid "messages" array in body', code: "INVALID_MESSAGES" };
+  }
+
+  const tooLarge = checkMessageLimits(raw);
+  if (tooLarge) return { error: tooLarge, code: "MESSAGES_TOO_LARGE" };
+
+  const invalid = raw.findIndex(
+    (m) => !m || !ROLES.includes(m.role) || typeof m.content !== "string"
+  );
+  if (invalid !== -1) {
+    return {
+      error: `Message ${invalid} must have a "role" (${ROLES.join(", ")}) and a string "content"`,
+      code: "INVALID_MESSAGES",
+    };
+  }
+
+  const last = raw[raw.length - 1] as ChatMsg;
+  if (last.role !== "user" || !last.content.trim()) {
+    return {
+      error: 'The last message must be a user message with non-empty "content".',
+      code: "INVALID_MESSAGES",
+    };
+  }
+  return null;
+}
+
+// The body as text, or null once it is known to be over `maxBytes`: a declared
+// Content-Length is checked first, and the stream is cancelled as soon as it passes it.
+async function readBodyText(req: Request, maxBytes: number) {
+  if (Number(req.headers.get("content-length")) > maxBytes) return null;
+  if (!req.body) return "";
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/** Read a request's JSON body, refusing bodies over `maxBytes` (MAX_BODY_BYTES by default). */
+export async function readJsonBody(
+  req: Request,
+  maxBytes = MAX_BODY_BYTES
+): Promise<{ body: unknown } | { error: ApiError }> {
+  const rawBody = await readBodyText(req, maxBytes);
+  if (rawBody === null) {
+    return {
+      error: { error: `Request body is larger than ${maxBytes} bytes`, code: "BODY_TOO_LARGE" },
+    };
+  }
+  try {
+    return { body: JSON.parse(rawBody) };
+  } catch {
+    return { error: { error: "Request body must be valid JSON", code: "INVALID_JSON" } };
+  }
+}
+
+/** Validate a parsed /api/prof-query body (see QueryRequest). */
+export function parseQueryRequest(body: unknown): { query: ParsedQuery } | { error: ApiError } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: { error: "Request body must be a JSON object", code: "INVALID_JSON" } };
+  }
+  const raw = body as Record<string, unknown>;
+
+  const messagesError = checkMessages(raw.messages);
+  if (messagesError) return { error: messagesError };
+
+  const parsedFilters = parseFilters(raw.filters);
+  if ("error" in parsedFilters) {
+    return { error: { error: parsedFilters.error, code: "INVALID_FILTERS" } };
+  }
+
+  const parsedOptions = parseRetrievalOptions(raw.options);
+  if ("error" in parsedOptions) {
+    const { error, fields } = parsedOptions;
+    return { error: { error, code: "INVALID_OPTIONS", fields } };
+  }
+
+  if (raw.language !== undefined && !isLanguage(raw.language)) {
+    return {
+      error: {
+        error: `"language" must be one of ${LANGUAGES.join(", ")}`,
+        code: "INVALID_LANGUAGE",
+      },
+    };
+  }
+
+  const mode = raw.mode ?? "answer";
+  if (!MODES.includes(mode as QueryMode)) {
+    return { error: { error: `"mode" must be one of ${MODES.join(", ")}`, code: "INVALID_MODE" } };
+  }
+  // answers have no pages, so `page` is ignored there
+  const page = mode === "browse" ? (raw.page ?? 1) : 1;
+  if (typeof page !== "number" || !Number.isInteger(page) || page < 1 || page > MAX_BROWSE_PAGES) {
+    return {
+      error: {
+        error: `"page" must be an integer between 1 and ${MAX_BROWSE_PAGES}`,
+        code: "INVALID_PAGE",
+      },
+    };
+  }
+
+  return {
+    query: {
+      messages: (raw.messages as ChatMsg[]).map((m) => ({ role: m.role, content: m.content })),
+      stream: raw.stream === true,
+      citations: raw.citations === true,
+      recommend: raw.recommend === true,
+      filters: parsedFilters.filters,
+      config: parsedOptions.config,
+      language: raw.language,
+      mode: mode as QueryMode,
+      page,
+    },
+  };
+}
@@ -0,0 +1,289 @@
+// lib/prof-query/retrieval.ts
+import { cached, cacheKey, getCache, type CacheStatus } from "../cache";
+import { getLexicalIndex, type Bm25Index } from "../lexical";
+import { getEmbeddingProvider } from "../providers";
+import { getReranker, selectDiverse } from "../rerank";
+import { metrics, NO_TRACE, type Trace } from "../telemetry";
+import {
+  getVectorStore,
+  type VectorFilter,
+  type VectorMatch,
+} from "../vector-store";
+import { isComparisonQuestion, MAX_COMPARED } from "./compare";
+import { DEFAULT_RETRIEVAL_CONFIG, type RetrievalConfig } from "./config";
+import { upstream } from "./contract";
+import { facetFilter, type QueryFilters } from "./filters";
+import { reciprocalRankFusion } from "./fusion";
+import { BROWSE_PAGE_SIZE, MAX_BROWSE_PAGES } from "./limits";
+import type { CacheReport, MatchForClient } from "./types";
+
+function shorten(text: string, max = 220) {
+  const clean = (text || "").replace(/\s+/g, " ").trim();
+  if (clean.length <= max) return clean;
+  return clean.slice(0, max - 3) + "...";
+}
+
+/** Case, spacing and trailing punctuation don't change what a question asks. */
+export function normalizeQuestion(q: string) {
+  return q.toLowerCase().replace(/\s+/g, " ").trim().replace(/[\s?!.]+$/, "");
+}
+
+async function embedQuery(q: string) {
+  const provider = getEmbeddingProvider();
+  const key = await cacheKey(provider.name, provider.model, normalizeQuestion(q));
+  return cached(getCache<number[]>("embedding"), key, async () => {
+    const [vector] = await upstream("UPSTREAM_EMBEDDING_FAILED", () => provider.embed([q]));
+    return vector;
+  });
+}
+
+function combineStatus(statuses: CacheStatus[]): CacheReport["retrieval"] {
+  if (statuses.every((s) => s === statuses[0])) return statuses[0];
+  return "partial";
+}
+
+// Metadata was validated by the store (`parseMetadata`), so every field is present.
+export function matchesToClient(matches: VectorMatch[]): MatchForClient[] {
+  return matches.map(({ id, score, metadata: md }) => ({
+    chunkId: id,
+    score,
+    docId: md.doc_id,
+    professor: md.professor,
+    url: md.source_url,
+    chunkBlock: md.chunk_block,
+    snippet: shorten(md.text),
+  }));
+}
+
+export function buildContext(matches: VectorMatch[]) {
+  return matches
+    .map(({ metadata: md }, i) =>
+      [
+        `[#${i + 1}] Professor: ${md.professor}`,
+        md.chunk_block ? `Section: ${md.chunk_block}` : null,
+        md.source_url ? `Source: ${md.source_url}` : null,
+        "",
+        md.text,
+      ]
+        .filter(Boolean)
+        .join("\n")
+    )
+    .join("\n\n---\n\n");
+}
+
+/**
+ * Hybrid search: the vector store and the BM25 index are queried with the same filter
+ * and their rankings fused. Without a lexical index this is plain vector search.
+ */
+async function hybridQuery(lexical: Bm25Index | null, params: SearchParams) {
+  const store = getVectorStore();
+  const vectorRes = await upstream("UPSTREAM_VECTOR_STORE_FAILED", () =>
+    store.query({ vector: params.vector, topK: params.topK, filter: params.filter })
+  );
+  if (!lexical) return vectorRes.matches;
+
+  const lexicalMatches = lexical.search(params.question, {
+    topK: params.topK,
+    filter: params.filter,
+  });
+  return reciprocalRankFusion([vectorRes.matches, lexicalMatches]).slice(0, params.topK);
+}
+
+type SearchParams = { vector: number[]; question: string; topK: number; filter: VectorFilter };
+
+async function cachedSearch(lexical: Bm25Index | null, params: SearchParams) {
+  const key = await cacheKey(getVectorStore().name, {
+    ...params,
+    question: normalizeQuestion(params.question),
+  });
+  return cached(getCache<VectorMatch[]>("retrieval"), key, () => hybridQuery(lexical, params));
+}
+
+/**
+ * Two-stage retrieval: route the question to the best-matching professors via their
+ * `profile_summary` vectors, then fetch `profile_chunk`s from those professors, rerank
+ * them and pick `config.pickCount`. Questions naming a professor ("Prof. Cremers") are
+ * routed straight to them. Facet `filters` restrict both stages. Each step is timed
+ * on `trace`. Returns the picked chunks and the routed `docIds`, best first.
+ *
+ * Comparisons of named professors ("Cremers vs. Navab") are `compared`: chunks are
+ * fetched and picked per professor, grouped in `docIds` order, so each has sources.
+ * `broadened` is set when the routed professors had too few chunks and all were searched.
+ * `byName` is set when the question was routed by name rather than by the summaries.
+ */
+export async function retrieve(
+  rewrittenQuestion: string,
+  filters: QueryFilters = {},
+  config: RetrievalConfig = DEFAULT_RETRIEVAL_CONFIG,
+  trace: Trace = NO_TRACE
+) {
+  // 1) embed rewritten query
+  const [embedded, lexical] = await Promise.all([
+    trace.stage("embed", () => embedQuery(rewrittenQuestion), (r) => ({ cache: r.status })),
+    getLexicalIndex(),
+  ]);
+  const qVec = embedded.value;
+  const facets = facetFilter(filters);
+
+  const searchStatuses: CacheStatus[] = [];
+  const search = async (topK: number, filter: VectorFilter) => {
+    const result = await cachedSearch(lexical, {
+      vector: qVec,
+      question: rewrittenQuestion,
+      topK,
+      filter: { ...facets, ...filter },
+    });
+    searchStatuses.push(result.status);
+    return result.value;
+  };
+
+  // 2) stage 1: route via summaries (best professor docs), or by name
+  const namedDocIds = lexical?.namedDocIds(rewrittenQuestion) ?? [];
+  const byName = namedDocIds.length > 0;
+  const compared = namedDocIds.length >= 2 && isComparisonQuestion(rewrittenQuestion);
+  const docIds = await trace.stage(
+    "route_summaries",
+    async () => {
+      if (compared) return namedDocIds.slice(0, MAX_COMPARED);
+      if (byName) return namedDocIds.slice(0, config.summaryTopK);
+      const summaryMatches = await search(config.summaryTopK, { kind: "profile_summary" });
+      return Array.from(new Set(summaryMatches.map((m) => m.metadata.doc_id)));
+    },
+    (ids) => ({ docIds: ids.length, byName, compared })
+  );
+  metrics.routedDocs.observe({}, docIds.length);
+
+  const reranker = getReranker();
+  const rerank = (candidates: VectorMatch[]) =>
+    trace.stage(
+      "rerank",
+      () => upstream("UPSTREAM_RERANK_FAILED", () => reranker.rerank(rewrittenQuestion, candidates)),
+      { reranker: reranker.name, candidates: candidates.length }
+    );
+  const cacheReport = () => ({
+    embedding: embedded.status,
+    retrieval: combineStatus(searchStatuses),
+  });
+
+  if (compared) {
+    const perDoc = await Promise.all(
+      docIds.map((docId) =>
+        trace.stage(
+          "chunk_query",
+          () => search(config.chunkTopK, { kind: "profile_chunk", doc_id: docId }),
+          (matches) => ({ docId, chunks: matches.length })
+        )
+      )
+    );
+    const candidates = perDoc.flat();
+    if (!candidates.length) {
+      return {
+        picked: [] as VectorMatch[],
+        docIds,
+        cache: cacheReport(),
+        byName,
+        compared,
+        broadened: false,
+      };
+    }
+
+    // one rerank call for all; at least 2 sources per professor so every cell can cite one
+    const reranked = await rerank(candidates);
+    const perProfessor = Math.max(2, Math.ceil(config.pickCount / docIds.length));
+    const picked = docIds.flatMap((docId) =>
+      selectDiverse(
+        reranked.filter((m) => m.metadata.doc_id === docId),
+        perProfessor,
+        config.diversity
+      )
+    );
+    return { picked, docIds, cache: cacheReport(), byName, compared, broadened: false };
+  }
+
+  // 3) stage 2: fetch chunks filtered to routed docs
+  const chunkFilter: VectorFilter =
+    docIds.length > 0
+      ? { kind: "profile_chunk", doc_id: { $in: docIds } }
+      : { kind: "profile_chunk" };
+
+  let chunkMatches = await trace.stage(
+    "chunk_query",
+    () => search(config.chunkTopK, chunkFilter),
+    (matches) => ({ chunks: matches.length })
+  );
+
+  // broaden once if routing is too narrow
+  const broadened = docIds.length > 0 && chunkMatches.length < config.minChunks;
+  if (broadened) {
+    const broadened = await trace.stage(
+      "broaden",
+      () => search(config.chunkTopK, { kind: "profile_chunk" }),
+      (matches) => ({ chunks: matches.length })
+    );
+    chunkMatches = broadened.length ? broadened : chunkMatches;
+    metrics.broadened.inc();
+  }
+
+  if (!chunkMatches.length) {
+    return {
+      picked: [] as VectorMatch[],
+      docIds,
+      cache: cacheReport(),
+      byName,
+      compared,
+      broadened,
+    };
+  }
+
+  // 4) rerank the candidates, then pick the best, spread across professors and sections
+  const reranked = await rerank(chunkMatches);
+  const picked = selectDiverse(reranked, config.pickCount, config.diversity);
+
+  return { picked, docIds, cache: cacheReport(), byName, compared, broadened };
+}
+
+// Fused scores depend on how deep the rankings go, so every page is cut from one
+// ranking of the deepest reachable page; the retrieval cache serves it to later pages.
+const BROWSE_POOL_SIZE = MAX_BROWSE_PAGES * BROWSE_PAGE_SIZE;
+
+/**
+ * Browse mode: one page of the chunks matching the question, best first. There is no
+ * routing, rerank or pick, so deeper pages reach professors the summaries would not
+ * route to; questions naming professors stay within them. Pages are slices of the same
+ * BROWSE_POOL_SIZE ranking, so they neither repeat nor skip matches.
+ */
+export async function browseChunks(
+  question: string,
+  filters: QueryFilters = {},
+  page = 1,
+  trace: Trace = NO_TRACE
+) {
+  const [embedded, lexical] = await Promise.all([
+    trace.stage("embed", () => embedQuery(question), (r) => ({ cache: r.status })),
+    getLexicalIndex(),
+  ]);
+
+  const namedDocIds = lexical?.namedDocIds(question) ?? [];
+  const end = page * BROWSE_PAGE_SIZE;
+  const result = await trace.stage(
+    "chunk_query",
+    () =>
+      cachedSearch(lexical, {
+        vector: embedded.value,
+        question,
+        topK: BROWSE_POOL_SIZE,
+        filter: {
+          ...facetFilter(filters),
+          kind: "profile_chunk",
+          ...(namedDocIds.length ? { doc_id: { $in: namedDocIds } } : {}),
+        },
+      }),
+    (r) => ({ chunks: r.value.length, page, byName: namedDocIds.length > 0 })
+  );
+
+  return {
+    matches: result.value.slice(end - BROWSE_PAGE_SIZE, end),
+    hasMore: page < MAX_BROWSE_PAGES && result.value.length > end,
+    cache: { embedding: embedded.status, retrieval: result.status },
+  };
+}
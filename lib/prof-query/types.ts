@@ -0,0 +1,153 @@
+// lib/prof-query/types.ts
+import type { CacheStatus } from "../cache/types";
+import type { RetrievalConfig } from "./config";
+import type { QueryFilters } from "./filters";
+import type { Language } from "./language";
+
+// Wire types of /api/prof-query, shared by the route and the chat page. Everything here
+// (and in ./contract) must stay free of server-only imports.
+
+export type ChatMsg = { role: "user" | "assistant" | "system"; content: string };
+
+/** `answer` (default) generates an answer; `browse` only returns matches (see BrowseResponse). */
+export type QueryMode = "answer" | "browse";
+
+/** Body of POST /api/prof-query. */
+export type QueryRequest = {
+  messages: ChatMsg[]; // the last one must be the user's question
+  stream?: boolean;
+  citations?: boolean;
+  recommend?: boolean; // rank the professors behind the sources (see Recommendation)
+  filters?: QueryFilters;
+  options?: Partial<RetrievalConfig>;
+  language?: Language; // UI language; answers follow the question's language when it's clear
+  mode?: QueryMode;
+  page?: number; // browse: 1-based page of BROWSE_PAGE_SIZE matches; ignored in answer mode
+};
+
+export type MatchForClient = {
+  chunkId?: string; // vector id; missing in matches saved before it was sent
+  score: number;
+  docId: string;
+  professor: string;
+  url: string;
+  chunkBlock: string;
+  snippet: string;
+};
+
+/** One professor of a ranked recommendation list, built from their picked chunks. */
+export type Recommendation = {
+  docId: string;
+  professor: string;
+  url: string;
+  reason: string; // one line on why they fit the question
+  sections: string[]; // profile sections their sources come from
+  score: number; // 0-1, aggregated over their chunks
+  citations: number[]; // their sources: [n] refers to matches[n - 1]
+};
+
+export type ComparisonCell = {
+  text: string; // empty when the sources say nothing about this aspect
+  citations: number[]; // [n] refers to matches[n - 1], always a source of this professor
+};
+
+/** A side-by-side comparison: `cells[i]` of every aspect is about `professors[i]`. */
+export type Comparison = {
+  professors: { docId: string; professor: string }[];
+  aspects: { name: string; cells: ComparisonCell[] }[];
+  summary: string; // may cite sources as [n] like an answer
+};
+
+/**
+ * Which caches served a request. Retrieval runs several searches, so it can be a
+ * `partial` hit; an answer cache hit skips retrieval, leaving the other two unset.
+ */
+export type CacheReport = {
+  embedding?: CacheStatus;
+  retrieval?: CacheStatus | "partial";
+  answer: CacheStatus;
+};
+
+/** The JSON response when `stream` is not set. */
+export type QueryResponse = {
+  answer: string;
+  matches: MatchForClient[];
+  citations: number[]; // [n] in the answer refers to matches[n - 1]
+  comparison?: Comparison; // set when the question compares named professors
+  recommendations?: Recommendation[]; // with `recommend`, best first
+  rewrittenQuestion: string; // in English, the language the index is searched in
+  language: Language; // of the answer
+  cache: CacheReport;
+};
+
+/**
+ * The response in `browse` mode: one page of matching chunks, best first, with no answer
+ * and no LLM call beyond the rewrite of follow-ups. Never streamed, whatever `stream` says.
+ */
+export type BrowseResponse = {
+  mode: "browse";
+  matches: MatchForClient[];
+  page: number;
+  hasMore: boolean; // another page has matches
+  rewrittenQuestion: string;
+  language: Language;
+  cache: Omit<CacheReport, "answer">;
+};
+
+/**
+ * Machine-readable error codes. Clients should branch on these, not on the message
+ * or the HTTP status; `UPSTREAM_*` are failures of a provider the server depends on.
+ */
+export type ApiErrorCode =
+  | "INVALID_JSON"
+  | "INVALID_MESSAGES"
+  | "INVALID_FILTERS"
+  | "INVALID_OPTIONS"
+  | "INVALID_LANGUAGE"
+  | "INVALID_QUERY"
+  | "INVALID_MODE"
+  | "INVALID_PAGE"
+  | "BODY_TOO_LARGE"
+  | "MESSAGES_TOO_LARGE"
+  | "RATE_LIMITED"
+  | "UNAUTHORIZED"
+  | "QUOTA_EXCEEDED"
+  | "UPSTREAM_EMBEDDING_FAILED"
+  | "UPSTREAM_VECTOR_STORE_FAILED"
+  | "UPSTREAM_RERANK_FAILED"
+  | "UPSTREAM_LLM_FAILED"
+  | "INTERNAL_ERROR";
+
+export type InvalidField = { field: string; message: string };
+
+/** Body of every error response; `error` is a message meant for people. */
+export type ApiError = {
+  error: string;
+  code: ApiErrorCode;
+  fields?: InvalidField[]; // INVALID_OPTIONS: every invalid field
+  retryAfter?: number; // RATE_LIMITED, QUOTA_EXCEEDED: seconds, also sent as Retry-After
+};
+
+/**
+ * Events of the streaming (NDJSON) response, one JSON object per line:
+ * `meta` once, then any number of `token`s, then `done` (or `error` at any point).
+ * Tokens are raw model output; `done.answer` is the final text with citations validated.
+ * Comparisons send no tokens: `done` carries the whole `comparison` at once.
+ */
+export type StreamEvent =
+  | {
+      type: "meta";
+      rewrittenQuestion: string;
+      language: Language;
+      matches: MatchForClient[];
+      cache: CacheReport;
+    }
+  | { type: "token"; text: string }
+  | {
+      type: "done";
+      answer: string;
+      citations: number[];
+      comparison?: Comparison;
+      recommendations?: Recommendation[];
+    }
+  | { type: "error"; error: string; code: ApiErrorCode };
@@ -0,0 +1,189 @@
+// lib/providers/fake.ts
+import type { ChatParams, ChatProvider, EmbeddingProvider, ProviderMessage } from "./types";
+
+/*
+ * Deterministic stand-ins for the real models, for CI and offline development.
+ * Embeddings are hashed bags of words, so texts sharing words still land close together
+ * and retrieval over a fake-embedded index behaves plausibly. Completions are templates.
+ */
+
+function fnv1a(text: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function words(text: string) {
+  return (
+    text
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .match(/[a-z0-9]{2,}/g) || []
+  );
+}
+
+export function fakeEmbedding(text: string, dimensions: number) {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const word of words(text)) {
+    const h = fnv1a(word);
+    vector[h % dimensions] += h & 0x80000000 ? -1 : 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm ? vector.map((v) => v / norm) : vector;
+}
+
+export function createFakeEmbeddings(dimensions: number): EmbeddingProvider {
+  return {
+    name: "fake",
+    model: "fake-hash-embedding",
+    dimensions,
+    async embed(texts) {
+      return texts.map((t) => fakeEmbedding(t, dimensions));
+    },
+    async ping() {},
+  };
+}
+
+function lastUser(messages: ProviderMessage[], offset = 0) {
+  const users = messages.filter((m) => m.role === "user");
+  return users[users.length - 1 - offset]?.content ?? "";
+}
+
+function firstSentence(text: string) {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.match(/^.*?[.!?](\s|$)/)?.[0].trim() || clean.slice(0, 160);
+}
+
+// Parses the context format produced by buildContext: "[#n] Professor: ...\nSection: ...\ntext".
+// Answers in German when the system prompt asks for it, quoting the context as is.
+function fakeAnswer(prompt: string, german: boolean) {
+  const question = prompt.match(/Question:\n([\s\S]*?)\n\nContext:/)?.[1]?.trim() || "";
+  const context = prompt.split("\n\nContext:\n")[1] || "";
+  const blocks = context.split("\n\n---\n\n").filter((b) => b.trim());
+
+  if (!blocks.length) {
+    return german ? "Dazu habe ich keine Informationen." : "I don’t have that information.";
+  }
+
+  const lines = blocks.slice(0, 3).map((block, i) => {
+    const professor = block.match(/Professor: (.*)/)?.[1] || "Unknown";
+    const section = block.match(/Section: (.*)/)?.[1];
+    const text = block
+      .split("\n")
+      .filter((line) => !/^(\[#\d+\] Professor|Section|Source): /.test(line))
+      .join(" ");
+    return `• ${professor}${section ? ` (${section})` : ""}: ${firstSentence(text)} [${i + 1}]`;
+  });
+  return [german ? `Zu „${question}“:` : `Regarding "${question}":`, ...lines].join("\n");
+}
+
+// Word overlap between the question and each "[n] ..." passage, as {"scores": [0-10, ...]}
+function fakeRerank(prompt: string) {
+  const question = new Set(words(prompt.match(/Question: (.*)/)?.[1] || ""));
+  const passages = (prompt.split("\n\nPassages:\n")[1] || "").split(/\n\n(?=\[\d+\] )/);
+  const scores = passages.map((p) => {
+    const overlap = words(p).filter((w) => question.has(w)).length;
+    return Math.min(10, overlap * 2);
+  });
+  return JSON.stringify({ scores });
+}
+
+// A claim (answer line or sentence) counts as supported when most of its words occur in
+// the context, as {"supported": n, "unsupported": n}
+function fakeJudge(prompt: string) {
+  const [context, answer] = (prompt.split("\n\nContext:\n")[1] || "").split("\n\nAnswer:\n");
+  const contextWords = new Set(words(context || ""));
+  const claims = (answer || "")
+    .replace(/\[\d+\]/g, "")
+    .split(/\n|(?<=[.!?])\s+/)
+    .map(words)
+    .filter((w) => w.length >= 3);
+  const supported = claims.filter(
+    (w) => w.filter((word) => contextWords.has(word)).length >= 0.6 * w.length
+  ).length;
+  return JSON.stringify({ supported, unsupported: claims.length - supported });
+}
+
+// First sentence of each professor's first entry, keyed by doc id, from the
+// "- <doc id>: <name> (entries [1][2])" list in front of the question.
+function firstEntrySentences(prompt: string) {
+  const context = prompt.split("\n\nContext:\n")[1] || "";
+  const blocks = context.split("\n\n---\n\n");
+  const sentences: Record<string, { entry: string; sentence: string }> = {};
+  for (const [, docId, entry] of prompt.matchAll(/^- (\S+): .* \(entries \[(\d+)\]/gm)) {
+    const block = blocks[Number(entry) - 1] || "";
+    const text = block
+      .split("\n")
+      .filter((line) => !/^(\[#\d+\] Professor|Section|Source): /.test(line))
+      .join(" ");
+    sentences[docId] = { entry, sentence: firstSentence(text) };
+  }
+  return sentences;
+}
+
+// That sentence as the one "Research focus" cell of each professor
+function fakeCompare(prompt: string) {
+  const cells: Record<string, string> = {};
+  for (const [docId, { entry, sentence }] of Object.entries(firstEntrySentences(prompt))) {
+    cells[docId] = `${sentence} [${entry}]`;
+  }
+  return JSON.stringify({
+    aspects: [{ name: "Research focus", cells }],
+    summary: `Compared ${Object.keys(cells).length} professors.`,
+  });
+}
+
+function fakeComplete({ task, messages }: ChatParams) {
+  switch (task) {
+    case "rewrite":
+      // the rewriter's last user message is the instruction; the question is before it
+      return lastUser(messages, 1) || lastUser(messages);
+    case "answer":
+      return fakeAnswer(lastUser(messages), /Answer in German/.test(messages[0]?.content ?? ""));
+    case "compare":
+      return fakeCompare(lastUser(messages));
+    case "recommend":
+      return JSON.stringify(
+        Object.fromEntries(
+          Object.entries(firstEntrySentences(lastUser(messages))).map(([docId, s]) => [
+            docId,
+            `Works on: ${s.sentence}`,
+          ])
+        )
+      );
+    case "rerank":
+      return fakeRerank(lastUser(messages));
+    case "judge":
+      return fakeJudge(lastUser(messages));
+    case "summarize":
+      return words(lastUser(messages)).length
+        ? firstSentence(lastUser(messages).split("Profile:\n")[1] || lastUser(messages))
+        : "";
+    default:
+      return `(fake) ${lastUser(messages).slice(0, 200)}`;
+  }
+}
+
+export function createFakeChat(): ChatProvider {
+  return {
+    name: "fake",
+    model: "fake-template-chat",
+
+    async complete(params) {
+      const text = fakeComplete(params);
+      return { text, usage: { promptTokens: 0, completionTokens: 0 } };
+    },
+
+    async *stream(params, onUsage) {
+      // word by word, so streaming clients see more than one token
+      for (const piece of fakeComplete(params).match(/\S+\s*/g) || []) yield piece;
+      onUsage?.({ promptTokens: 0, completionTokens: 0 });
+    },
+
+    async ping() {},
+  };
+}
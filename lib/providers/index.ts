@@ -0,0 +1,71 @@
+// lib/providers/index.ts
+import { createFakeChat, createFakeEmbeddings } from "./fake";
+import { createOpenAIChat, createOpenAIEmbeddings, type OpenAIProviderConfig } from "./openai";
+import type { ChatProvider, EmbeddingProvider } from "./types";
+
+export type * from "./types";
+
+export type ProviderName = "openai" | "openai-compatible" | "fake";
+
+const PROVIDER_NAMES: ProviderName[] = ["openai", "openai-compatible", "fake"];
+
+// The index is built with these settings; queries MUST use the same ones.
+export const EMBEDDING_MODEL = process.env.EMBEDDING_MODEL || "text-embedding-3-small";
+export const EMBEDDING_DIMENSIONS = Number(process.env.EMBEDDING_DIMENSIONS) || 512;
+
+export const CHAT_MODEL = process.env.CHAT_MODEL || "gpt-4o-mini";
+
+function providerName(value: string | undefined, variable: string): ProviderName {
+  const name = (value || "openai") as ProviderName;
+  if (!PROVIDER_NAMES.includes(name)) {
+    throw new Error(`Invalid ${variable} "${value}" (expected ${PROVIDER_NAMES.join(", ")})`);
+  }
+  return name;
+}
+
+function openAIConfig(name: "openai" | "openai-compatible"): OpenAIProviderConfig {
+  const base = {
+    chatModel: CHAT_MODEL,
+    embeddingModel: EMBEDDING_MODEL,
+    dimensions: EMBEDDING_DIMENSIONS,
+  };
+
+  if (name === "openai-compatible") {
+    const baseURL = process.env.LLM_BASE_URL;
+    if (!baseURL) throw new Error("Missing LLM_BASE_URL for the openai-compatible provider");
+    // most local servers accept any key
+    const apiKey = process.env.LLM_API_KEY || "local";
+    return { ...base, name, baseURL, apiKey, sendDimensions: false, streamUsage: false };
+  }
+
+  const apiKey = process.env.OPENAI_API_KEY || process.env.OPENAI_KEY;
+  if (!apiKey) throw new Error("Missing OPENAI_API_KEY (or OPENAI_KEY)");
+  return { ...base, name, apiKey, sendDimensions: true, streamUsage: true };
+}
+
+let chat: ChatProvider | null = null;
+let embeddings: EmbeddingProvider | null = null;
+
+/** Chat provider selected by LLM_PROVIDER (openai | openai-compatible | fake). */
+export function getChatProvider() {
+  if (!chat) {
+    const name = providerName(process.env.LLM_PROVIDER, "LLM_PROVIDER");
+    chat = name === "fake" ? createFakeChat() : createOpenAIChat(openAIConfig(name));
+  }
+  return chat;
+}
+
+/** Embedding provider selected by EMBEDDING_PROVIDER, defaulting to LLM_PROVIDER. */
+export function getEmbeddingProvider() {
+  if (!embeddings) {
+    const name = providerName(
+      process.env.EMBEDDING_PROVIDER || process.env.LLM_PROVIDER,
+      "EMBEDDING_PROVIDER"
+    );
+    embeddings =
+      name === "fake"
+        ? createFakeEmbeddings(EMBEDDING_DIMENSIONS)
+        : createOpenAIEmbeddings(openAIConfig(name));
+  }
+  return embeddings;
+}
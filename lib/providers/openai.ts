@@ -0,0 +1,96 @@
+// lib/providers/openai.ts
+import OpenAI from "openai";
+import type { ChatParams, ChatProvider, EmbeddingProvider } from "./types";
+
+const EMBEDDING_BATCH_SIZE = 64;
+
+export type OpenAIProviderConfig = {
+  name: string;
+  apiKey: string;
+  baseURL?: string; // set for OpenAI-compatible servers (Ollama, llama.cpp, vLLM, ...)
+  chatModel: string;
+  embeddingModel: string;
+  dimensions: number;
+  // Only OpenAI's text-embedding-3 models can shorten vectors; local servers reject or
+  // ignore the parameter, so their model must natively produce `dimensions`.
+  sendDimensions: boolean;
+  // Same for `stream_options`, which makes the last streamed chunk carry token usage.
+  streamUsage: boolean;
+};
+
+export function createOpenAIChat(config: OpenAIProviderConfig): ChatProvider {
+  const client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+
+  const request = ({ messages, temperature }: ChatParams) => ({
+    model: config.chatModel,
+    temperature,
+    messages,
+  });
+
+  return {
+    name: config.name,
+    model: config.chatModel,
+
+    async complete(params) {
+      const completion = await client.chat.completions.create(request(params));
+      return {
+        text: completion.choices[0]?.message?.content?.trim() || "",
+        usage: completion.usage && {
+          promptTokens: completion.usage.prompt_tokens,
+          completionTokens: completion.usage.completion_tokens,
+        },
+      };
+    },
+
+    async *stream(params, onUsage) {
+      const stream = await client.chat.completions.create({
+        ...request(params),
+        stream: true,
+        ...(config.streamUsage ? { stream_options: { include_usage: true } } : {}),
+      });
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+        if (chunk.usage) {
+          onUsage?.({
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+          });
+        }
+      }
+    },
+
+    async ping() {
+      await client.models.retrieve(config.chatModel);
+    },
+  };
+}
+
+export function createOpenAIEmbeddings(config: OpenAIProviderConfig): EmbeddingProvider {
+  const client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+
+  return {
+    name: config.name,
+    model: config.embeddingModel,
+    dimensions: config.dimensions,
+
+    async embed(texts) {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const emb = await client.embeddings.create({
+          model: config.embeddingModel,
+          dimensions: config.sendDimensions ? config.dimensions : undefined,
+          input: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+        });
+        // the API returns items with an `index`; don't rely on response order
+        const sorted = [...emb.data].sort((a, b) => a.index - b.index);
+        vectors.push(...sorted.map((d) => d.embedding));
+      }
+      return vectors;
+    },
+
+    async ping() {
+      await client.models.retrieve(config.embeddingModel);
+    },
+  };
+}
@@ -0,0 +1,43 @@
+// lib/providers/types.ts
+
+export type ProviderMessage = { role: "system" | "user" | "assistant"; content: string };
+
+/**
+ * What a completion is for. Real providers ignore it; the fake provider uses it to
+ * pick a template, since it can't actually read the prompt.
+ */
+export type ChatTask =
+  | "rewrite"
+  | "answer"
+  | "compare"
+  | "recommend"
+  | "summarize"
+  | "rerank"
+  | "judge";
+
+export type ChatParams = {
+  task: ChatTask;
+  messages: ProviderMessage[];
+  temperature?: number;
+};
+
+export type TokenUsage = { promptTokens: number; completionTokens: number };
+
+export type ChatResult = { text: string; usage?: TokenUsage };
+
+export interface ChatProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(params: ChatParams): Promise<ChatResult>;
+  // `onUsage` is called once the stream ends, if the provider reports usage for streams
+  stream(params: ChatParams, onUsage?: (usage: TokenUsage) => void): AsyncIterable<string>;
+  ping(): Promise<void>; // cheap connectivity check for /api/health, no tokens used
+}
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+  ping(): Promise<void>;
+}
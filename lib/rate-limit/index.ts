@@ -0,0 +1,93 @@
+// lib/rate-limit/index.ts
+import { createMemoryRateLimitStore } from "./memory";
+import type { BucketConfig, RateLimitStore } from "./types";
+
+export type * from "./types";
+export { createMemoryRateLimitStore } from "./memory";
+
+function numberFromEnv(variable: string, fallback: number) {
+  const value = Number(process.env[variable]);
+  return process.env[variable] && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function bucketFromEnv(prefix: string, perMinute: number, burst: number): BucketConfig {
+  return {
+    capacity: numberFromEnv(`${prefix}_BURST`, burst),
+    refillPerSecond: numberFromEnv(`${prefix}_PER_MINUTE`, perMinute) / 60,
+  };
+}
+
+// An IP can be shared by a whole lab or dorm, so it gets more room than one browser.
+export const RATE_LIMITS = {
+  ip: bucketFromEnv("RATE_LIMIT_IP", 30, 10),
+  session: bucketFromEnv("RATE_LIMIT_SESSION", 10, 5),
+};
+
+// Saving a conversation costs no provider calls, and the chat saves after every answer,
+// rating and page of browse results, so a burst of clicks must not fail.
+export const SAVE_RATE_LIMITS = {
+  ip: bucketFromEnv("RATE_LIMIT_SAVE_IP", 120, 60),
+  session: bucketFromEnv("RATE_LIMIT_SAVE_SESSION", 60, 30),
+};
+
+const RATE_LIMIT_ENABLED = process.env.RATE_LIMIT !== "off";
+
+// Proxies in front of the app that append to X-Forwarded-For (load balancer, CDN, ...)
+const TRUSTED_PROXIES = Math.floor(numberFromEnv("TRUST_PROXY", 0));
+
+let store: RateLimitStore | null = null;
+
+/** Only the in-memory store ships; a shared store can be plugged in here. */
+export function getRateLimitStore() {
+  if (!store) {
+    switch (process.env.RATE_LIMIT_STORE || "memory") {
+      case "memory":
+        store = createMemoryRateLimitStore();
+        break;
+      default:
+        throw new Error(`Invalid RATE_LIMIT_STORE "${process.env.RATE_LIMIT_STORE}" (expected memory)`);
+    }
+  }
+  return store;
+}
+
+/**
+ * Client IP for the rate limiter. Clients can send X-Forwarded-For themselves, so only
+ * the hop added by the outermost of the `TRUST_PROXY` proxies counts, read from the right.
+ * Route handlers cannot see the socket; without a proxy the last entry is the socket
+ * address only if the client sent no header, since Next's server fills it in just then.
+ * Requests that skipped a trusted proxy share the "unknown" bucket.
+ */
+export function clientIp(req: Request) {
+  const hops = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  // fewer hops than trusted proxies: the request did not come through all of them
+  if (hops.length < TRUSTED_PROXIES) return "unknown";
+  return hops[hops.length - Math.max(TRUSTED_PROXIES, 1)] ?? "unknown";
+}
+
+/**
+ * Take one request from the client's IP bucket and from its session bucket. Denied if
+ * either is empty; `retryAfterSeconds` is how long until both allow a request again.
+ */
+export async function checkRateLimit(
+  scope: string,
+  client: { ip: string; sessionId: string },
+  limits: Record<"ip" | "session", BucketConfig> = RATE_LIMITS
+) {
+  if (!RATE_LIMIT_ENABLED) return { allowed: true, retryAfterSeconds: 0 };
+
+  const rateLimitStore = getRateLimitStore();
+  const results = await Promise.all([
+    rateLimitStore.take(`${scope}:ip:${client.ip}`, limits.ip),
+    rateLimitStore.take(`${scope}:session:${client.sessionId}`, limits.session),
+  ]);
+
+  const retryAfterMs = Math.max(...results.map((r) => r.retryAfterMs));
+  return {
+    allowed: results.every((r) => r.allowed),
+    retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+  };
+}
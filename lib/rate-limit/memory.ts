@@ -0,0 +1,48 @@
+// lib/rate-limit/memory.ts
+import type { BucketConfig, RateLimitStore } from "./types";
+
+// full buckets carry no state, so they are dropped once the map grows this large
+const PRUNE_THRESHOLD = 10000;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number; config: BucketConfig }>();
+
+  function refill(bucket: { tokens: number; updatedAt: number; config: BucketConfig }, now: number) {
+    const elapsed = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(
+      bucket.config.capacity,
+      bucket.tokens + elapsed * bucket.config.refillPerSecond
+    );
+    bucket.updatedAt = now;
+  }
+
+  function prune(now: number) {
+    for (const [key, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= bucket.config.capacity) buckets.delete(key);
+    }
+  }
+
+  return {
+    name: "memory",
+
+    async take(key, config) {
+      const now = Date.now();
+      if (buckets.size > PRUNE_THRESHOLD) prune(now);
+
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = { tokens: config.capacity, updatedAt: now, config };
+        buckets.set(key, bucket);
+      }
+      refill(bucket, now);
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterMs: 0 };
+      }
+      const retryAfterMs = ((1 - bucket.tokens) / config.refillPerSecond) * 1000;
+      return { allowed: false, remaining: 0, retryAfterMs: Math.ceil(retryAfterMs) };
+    },
+  };
+}
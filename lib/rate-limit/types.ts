@@ -0,0 +1,23 @@
+// lib/rate-limit/types.ts
+
+/** A token bucket: holds up to `capacity` requests and refills `refillPerSecond`. */
+export type BucketConfig = {
+  capacity: number;
+  refillPerSecond: number;
+};
+
+export type TakeResult = {
+  allowed: boolean;
+  remaining: number; // whole tokens left after this request
+  retryAfterMs: number; // 0 when allowed
+};
+
+/**
+ * Where bucket state lives. The in-memory store is per process; a shared backend
+ * (Redis or similar) implements the same call atomically so every instance sees the
+ * same buckets.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  take(key: string, bucket: BucketConfig): Promise<TakeResult>;
+}
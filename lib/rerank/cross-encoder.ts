@@ -0,0 +1,35 @@
+// lib/rerank/cross-encoder.ts
+import type { Reranker } from "./types";
+
+type RerankResponse = { index: number; score: number }[];
+
+/**
+ * Calls a cross-encoder served over HTTP with the text-embeddings-inference `/rerank`
+ * API (POST { query, texts } -> [{ index, score }]), e.g. bge-reranker running locally.
+ */
+export function createCrossEncoderReranker(url: string): Reranker {
+  return {
+    name: "cross-encoder",
+
+    async rerank(question, candidates) {
+      if (candidates.length <= 1) return candidates;
+
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          query: question,
+          texts: candidates.map((m) => m.metadata.text),
+          raw_scores: false, // sigmoid-normalized, 0..1 like the other scores
+        }),
+      });
+      if (!res.ok) throw new Error(`Cross-encoder rerank failed with ${res.status}`);
+
+      const results = (await res.json()) as RerankResponse;
+      return results
+        .filter((r) => candidates[r.index])
+        .sort((a, b) => b.score - a.score)
+        .map((r) => ({ ...candidates[r.index], score: r.score }));
+    },
+  };
+}
@@ -0,0 +1,38 @@
+// lib/rerank/diversity.ts
+import type { VectorMatch } from "../vector-store";
+
+// How redundant two chunks are: the same section of the same professor is a repeat,
+// another section of the same professor is half a repeat.
+function similarity(a: VectorMatch, b: VectorMatch) {
+  if (a.metadata.doc_id !== b.metadata.doc_id) return 0;
+  return a.metadata.chunk_block === b.metadata.chunk_block ? 1 : 0.5;
+}
+
+/**
+ * MMR-style selection of `count` matches: each step takes the candidate maximizing
+ * (1 - diversity) * score - diversity * (similarity to anything already picked).
+ * `diversity` 0 keeps the score order; higher values spread the picks across
+ * professors and sections.
+ */
+export function selectDiverse(candidates: VectorMatch[], count: number, diversity: number) {
+  const remaining = [...candidates];
+  const picked: VectorMatch[] = [];
+
+  while (picked.length < count && remaining.length) {
+    let bestIdx = 0;
+    let bestValue = -Infinity;
+
+    remaining.forEach((m, i) => {
+      const redundancy = Math.max(0, ...picked.map((p) => similarity(m, p)));
+      const value = (1 - diversity) * m.score - diversity * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIdx = i;
+      }
+    });
+
+    picked.push(...remaining.splice(bestIdx, 1));
+  }
+
+  return picked;
+}
@@ -0,0 +1,53 @@
+// lib/rerank/index.ts
+import { createCrossEncoderReranker } from "./cross-encoder";
+import { createLlmReranker } from "./llm";
+import type { Reranker } from "./types";
+
+export type * from "./types";
+export { selectDiverse } from "./diversity";
+
+function diversityFromEnv() {
+  const raw = process.env.RERANK_DIVERSITY;
+  const value = Number(raw);
+  return raw && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0.3;
+}
+
+/** MMR weight used when picking chunks after reranking (0 = pure score order). */
+export const RERANK_DIVERSITY = diversityFromEnv();
+
+const noopReranker: Reranker = {
+  name: "none",
+  async rerank(_question, candidates) {
+    return candidates;
+  },
+};
+
+let reranker: Reranker | null = null;
+
+/**
+ * Reranker selected by RERANKER: `none` (default), `llm` (scores candidates with the
+ * chat provider) or `cross-encoder` (HTTP rerank endpoint at RERANK_URL).
+ */
+export function getReranker() {
+  if (!reranker) {
+    switch (process.env.RERANKER || "none") {
+      case "none":
+        reranker = noopReranker;
+        break;
+      case "llm":
+        reranker = createLlmReranker();
+        break;
+      case "cross-encoder": {
+        const url = process.env.RERANK_URL;
+        if (!url) throw new Error("Missing RERANK_URL for the cross-encoder reranker");
+        reranker = createCrossEncoderReranker(url);
+        break;
+      }
+      default:
+        throw new Error(
+          `Invalid RERANKER "${process.env.RERANKER}" (expected none, llm, cross-encoder)`
+        );
+    }
+  }
+  return reranker;
+}
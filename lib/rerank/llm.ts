@@ -0,0 +1,71 @@
+// lib/rerank/llm.ts
+import { getChatProvider } from "../providers";
+import type { VectorMatch } from "../vector-store";
+import type { Reranker } from "./types";
+
+// Passages are truncated in the prompt; the first few hundred characters decide relevance.
+const MAX_PASSAGE_CHARS = 600;
+
+function passages(candidates: VectorMatch[]) {
+  return candidates
+    .map((m, i) => {
+      const md = m.metadata;
+      const header = `Professor: ${md.professor} | Section: ${md.chunk_block || "-"}`;
+      const text = md.text.replace(/\s+/g, " ").slice(0, MAX_PASSAGE_CHARS);
+      return `[${i + 1}] ${header}\n${text}`;
+    })
+    .join("\n\n");
+}
+
+export function parseScores(text: string, count: number) {
+  const json = text.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+  try {
+    const scores = (JSON.parse(json) as { scores?: unknown }).scores;
+    if (!Array.isArray(scores) || scores.length !== count) return null;
+    return scores.map((s) => Math.min(10, Math.max(0, Number(s) || 0)) / 10);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Scores all candidates in one completion.
+ * Falls back to the input order if the reply can't be parsed.
+ */
+export function createLlmReranker(): Reranker {
+  return {
+    name: "llm",
+
+    async rerank(question, candidates) {
+      if (candidates.length <= 1) return candidates;
+
+      const { text } = await getChatProvider().complete({
+        task: "rerank",
+        temperature: 0,
+        messages: [
+          {
+            role: "system",
+            content:
+              "You rate how useful each passage about TUM professors is for answering the question.\n" +
+              "Score every passage from 0 (irrelevant) to 10 (directly answers it).\n" +
+              'Return ONLY JSON: {"scores": [s1, s2, ...]} with one integer per passage, in order.',
+          },
+          { role: "user", content: `Question: ${question}\n\nPassages:\n${passages(candidates)}` },
+        ],
+      });
+
+      const scores = parseScores(text, candidates.length);
+      if (!scores) {
+        console.warn("LLM reranker returned unparseable scores; keeping retrieval order");
+        return candidates;
+      }
+
+      // ties keep their retrieval order
+      return candidates
+        .map((_, i) => i)
+        .sort((a, b) => scores[b] - scores[a] || a - b)
+        .map((i) => ({ ...candidates[i], score: scores[i] }));
+    },
+  };
+}
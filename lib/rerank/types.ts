@@ -0,0 +1,11 @@
+// lib/rerank/types.ts
+import type { VectorMatch } from "../vector-store";
+
+/**
+ * Rescores retrieved chunks against the question. Implementations return the same
+ * matches sorted by their new score, which replaces the retrieval score (0..1).
+ */
+export interface Reranker {
+  readonly name: string;
+  rerank(question: string, candidates: VectorMatch[]): Promise<VectorMatch[]>;
+}
@@ -0,0 +1,30 @@
+// lib/session.ts
+import { randomUUID } from "crypto";
+import type { NextRequest, NextResponse } from "next/server";
+
+const SESSION_COOKIE = "tum_prof_session";
+const SESSION_MAX_AGE = 60 * 60 * 24 * 365; // seconds
+
+/**
+ * Anonymous session id from the session cookie, or a fresh one. There are no accounts;
+ * the id only ties saved conversations to the browser that created them.
+ */
+export function getSession(req: NextRequest) {
+  const id = req.cookies.get(SESSION_COOKIE)?.value;
+  if (id && /^[\w-]{8,64}$/.test(id)) return { id, isNew: false };
+  return { id: randomUUID(), isNew: true };
+}
+
+/** Set the cookie on the response if the session was created by this request. */
+export function withSession(res: NextResponse, session: { id: string; isNew: boolean }) {
+  if (session.isNew) {
+    res.cookies.set(SESSION_COOKIE, session.id, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: SESSION_MAX_AGE,
+    });
+  }
+  return res;
+}
@@ -0,0 +1,50 @@
+// lib/suggest/index.ts
+import { promises as fs } from "fs";
+import path from "path";
+import { buildSuggestIndex } from "./prefix-index";
+import type { SuggestFile, SuggestIndex } from "./types";
+
+export type * from "./types";
+export { buildSuggestIndex } from "./prefix-index";
+
+export const DEFAULT_SUGGEST_INDEX_PATH = process.env.SUGGEST_INDEX || "data/suggest-index.json";
+
+export const MAX_SUGGESTIONS = 20;
+
+export async function loadSuggestFile(file = DEFAULT_SUGGEST_INDEX_PATH): Promise<SuggestFile> {
+  try {
+    const data = JSON.parse(await fs.readFile(file, "utf8")) as SuggestFile;
+    if (data?.version === 1 && data.professors) return data;
+    throw new Error(`Unsupported suggest index format in ${file}`);
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return { version: 1, professors: {} };
+    throw err;
+  }
+}
+
+export async function saveSuggestFile(data: SuggestFile, file = DEFAULT_SUGGEST_INDEX_PATH) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data));
+  await fs.rename(tmp, file);
+}
+
+let cached: { mtimeMs: number; index: SuggestIndex } | null = null;
+
+/**
+ * The autocompletion index, or null before the first ingestion has written its file.
+ * Rebuilt when ingestion rewrites the file.
+ */
+export async function getSuggestIndex(file = DEFAULT_SUGGEST_INDEX_PATH) {
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.stat(file)).mtimeMs;
+  } catch {
+    return null;
+  }
+
+  if (cached?.mtimeMs !== mtimeMs) {
+    cached = { mtimeMs, index: buildSuggestIndex(await loadSuggestFile(file)) };
+  }
+  return cached.index;
+}
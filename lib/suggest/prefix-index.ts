@@ -0,0 +1,182 @@
+// lib/suggest/prefix-index.ts
+import { foldText } from "../lexical";
+import type { SuggestFile, SuggestIndex, Suggestion, SuggestionKind } from "./types";
+
+// Only the last few words of the input are completed ("Who works on machine lea")
+const MAX_TAIL_WORDS = 3;
+const MIN_PREFIX = 2;
+
+const KIND_ORDER: SuggestionKind[] = ["professor", "chair", "topic"];
+
+type Term = {
+  kind: SuggestionKind;
+  text: string;
+  folded: string; // words joined by single spaces
+  docId?: string;
+  professors: number;
+};
+
+function words(folded: string) {
+  return folded.match(/[a-z0-9]+/g) ?? [];
+}
+
+// Typos allowed in a word of this length: none for short words, so "ai" stays exact
+function maxEdits(length: number) {
+  return length >= 7 ? 2 : length >= 4 ? 1 : 0;
+}
+
+/**
+ * Edits needed to turn `query` into a prefix of `word` (optimal string alignment, so a
+ * swapped pair of letters is one edit), or Infinity when it takes more than `max`.
+ */
+function prefixDistance(query: string, word: string, max: number) {
+  if (word.length < query.length - max) return Infinity;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: word.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= query.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= word.length; j++) {
+      const cost = query[i - 1] === word[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && query[i - 1] === word[j - 2] && query[i - 2] === word[j - 1]) {
+        d = Math.min(d, prev2[j - 2] + 1);
+      }
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return Infinity;
+    prev2 = prev;
+    prev = row;
+  }
+  // any prefix of the word will do, so the best cell of the last row counts
+  const best = Math.min(...prev);
+  return best <= max ? best : Infinity;
+}
+
+function addTerm(terms: Map<string, Term>, kind: SuggestionKind, text: string, docId?: string) {
+  const folded = words(foldText(text)).join(" ");
+  if (!folded) return;
+  const key = `${kind}:${docId ?? folded}`;
+  const term = terms.get(key);
+  if (term) term.professors += 1;
+  else terms.set(key, { kind, text, folded, docId, professors: 1 });
+}
+
+/**
+ * Prefix index over professor names, chair names and topic keywords. Every word of a
+ * term is indexed, so "vision" finds "Computer Vision"; the words of the query match by
+ * prefix, allowing a typo or two in longer words ("cremmers", "robtics"). The longest
+ * tail of the query that matches wins, so "machine lea" completes to "machine learning".
+ */
+export function buildSuggestIndex(file: SuggestFile): SuggestIndex {
+  const byKey = new Map<string, Term>();
+  for (const [docId, entry] of Object.entries(file.professors)) {
+    addTerm(byKey, "professor", entry.professor, docId);
+    if (entry.chair) addTerm(byKey, "chair", entry.chair);
+    // a keyword can also be one of the professor's topic facets ("Computer Vision")
+    const topics = new Map(entry.topics.map((t) => [foldText(t), t]));
+    for (const topic of topics.values()) addTerm(byKey, "topic", topic);
+  }
+  const terms = Array.from(byKey.values());
+
+  const postings = new Map<string, Set<number>>();
+  terms.forEach((term, i) => {
+    for (const word of words(term.folded)) {
+      if (!postings.has(word)) postings.set(word, new Set());
+      postings.get(word)!.add(i);
+    }
+  });
+  const sortedWords = Array.from(postings.keys()).sort();
+
+  // first index in sortedWords that is >= prefix
+  function lowerBound(prefix: string) {
+    let lo = 0;
+    let hi = sortedWords.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sortedWords[mid] < prefix) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  // term -> fewest edits with which one of its words starts with `query`
+  function matchWord(query: string): Map<number, number> {
+    const found = new Map<number, number>();
+    for (let i = lowerBound(query); i < sortedWords.length && sortedWords[i].startsWith(query); i++) {
+      for (const t of postings.get(sortedWords[i])!) found.set(t, 0);
+    }
+
+    const max = maxEdits(query.length);
+    if (max === 0) return found;
+    for (const word of sortedWords) {
+      if (word.startsWith(query)) continue;
+      const edits = prefixDistance(query, word, max);
+      if (edits === Infinity) continue;
+      for (const t of postings.get(word)!) {
+        if ((found.get(t) ?? Infinity) > edits) found.set(t, edits);
+      }
+    }
+    return found;
+  }
+
+  return {
+    size: terms.length,
+
+    suggest(query, limit) {
+      const raw = query.trim().split(/\s+/).filter(Boolean).slice(-MAX_TAIL_WORDS);
+      const cache = new Map<string, Map<number, number>>();
+      const matchCached = (word: string) => {
+        if (!cache.has(word)) cache.set(word, matchWord(word));
+        return cache.get(word)!;
+      };
+
+      const best = new Map<number, { replaces: number; edits: number; whole: boolean }>();
+      // longest tail first: a term found with more context keeps that match
+      for (let n = raw.length; n >= 1; n--) {
+        const tail = raw.slice(-n).map((w) => words(foldText(w)).join(""));
+        if (tail.some((w) => !w) || tail[tail.length - 1].length < MIN_PREFIX) continue;
+
+        const perWord = tail.map(matchCached);
+        const [first, ...rest] = perWord;
+        for (const [t, edits] of first) {
+          if (best.has(t)) continue;
+          let total = edits;
+          for (const other of rest) {
+            const e = other.get(t);
+            if (e === undefined) {
+              total = Infinity;
+              break;
+            }
+            total += e;
+          }
+          if (total === Infinity) continue;
+          best.set(t, { replaces: n, edits: total, whole: terms[t].folded.startsWith(tail.join(" ")) });
+        }
+      }
+
+      return Array.from(best.entries())
+        .sort(
+          ([a, x], [b, y]) =>
+            y.replaces - x.replaces ||
+            x.edits - y.edits ||
+            Number(y.whole) - Number(x.whole) ||
+            KIND_ORDER.indexOf(terms[a].kind) - KIND_ORDER.indexOf(terms[b].kind) ||
+            terms[b].professors - terms[a].professors ||
+            terms[a].text.length - terms[b].text.length
+        )
+        .slice(0, limit)
+        .map(([t, match]): Suggestion => {
+          const term = terms[t];
+          return {
+            kind: term.kind,
+            text: term.text,
+            ...(term.docId ? { docId: term.docId } : {}),
+            professors: term.professors,
+            replaces: match.replaces,
+          };
+        });
+    },
+  };
+}
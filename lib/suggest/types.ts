@@ -0,0 +1,29 @@
+// lib/suggest/types.ts
+
+/** What ingestion extracts from one profile for autocompletion. */
+export type SuggestEntry = {
+  professor: string;
+  chair: string; // "" when the profile names none
+  topics: string[]; // research keywords and topic facets
+};
+
+export type SuggestFile = {
+  version: 1;
+  professors: Record<string, SuggestEntry>; // keyed by doc_id
+};
+
+export type SuggestionKind = "professor" | "chair" | "topic";
+
+/** One completion of the text being typed; the body of GET /api/suggest is `{ suggestions }`. */
+export type Suggestion = {
+  kind: SuggestionKind;
+  text: string;
+  docId?: string; // professors only
+  professors: number; // how many professors it belongs to
+  replaces: number; // trailing words of the query it completes
+};
+
+export type SuggestIndex = {
+  size: number;
+  suggest(query: string, limit: number): Suggestion[];
+};
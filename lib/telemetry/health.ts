@@ -0,0 +1,75 @@
+// lib/telemetry/health.ts
+import { getIndexedProfessors } from "../lexical";
+import { getChatProvider, getEmbeddingProvider } from "../providers";
+import { getVectorStore } from "../vector-store";
+
+const CHECK_TIMEOUT_MS = Number(process.env.HEALTH_CHECK_TIMEOUT_MS) || 5000;
+
+export type CheckResult = {
+  ok: boolean;
+  ms: number;
+  error?: string;
+  details?: Record<string, string | number>;
+};
+
+export type HealthReport = {
+  status: "ok" | "down";
+  checks: Record<string, CheckResult>;
+};
+
+function withTimeout<T>(promise: Promise<T>) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    const error = new Error(`Timed out after ${CHECK_TIMEOUT_MS} ms`);
+    timer = setTimeout(() => reject(error), CHECK_TIMEOUT_MS);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function check(
+  run: () => Promise<Record<string, string | number> | void>
+): Promise<CheckResult> {
+  const start = performance.now();
+  try {
+    const details = await withTimeout(run());
+    return { ok: true, ms: Math.round(performance.now() - start), ...(details ? { details } : {}) };
+  } catch (err: unknown) {
+    return {
+      ok: false,
+      ms: Math.round(performance.now() - start),
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Check that every service a question depends on is reachable, in parallel. Provider
+ * checks only look the model up, so a health probe costs no tokens. A missing lexical
+ * index is not a failure: retrieval then uses vectors only.
+ */
+export async function checkHealth(): Promise<HealthReport> {
+  const [chat, embeddings, vectorStore, lexicalIndex] = await Promise.all([
+    check(async () => {
+      const provider = getChatProvider();
+      await provider.ping();
+      return { provider: provider.name, model: provider.model };
+    }),
+    check(async () => {
+      const provider = getEmbeddingProvider();
+      await provider.ping();
+      return { provider: provider.name, model: provider.model };
+    }),
+    check(async () => {
+      const store = getVectorStore();
+      const stats = await store.stats();
+      return { store: store.name, vectors: stats.totalCount };
+    }),
+    check(async () => ({
+      professors: Object.keys((await getIndexedProfessors())?.professors ?? {}).length,
+    })),
+  ]);
+
+  const checks = { chat, embeddings, vectorStore, lexicalIndex };
+  const ok = Object.values(checks).every((c) => c.ok);
+  return { status: ok ? "ok" : "down", checks };
+}
@@ -0,0 +1,6 @@
+// lib/telemetry/index.ts
+export type * from "./types";
+export { checkHealth, type CheckResult, type HealthReport } from "./health";
+export { log, type LogLevel } from "./log";
+export { createCounter, createHistogram, metrics, renderMetrics } from "./metrics";
+export { createTrace, NO_TRACE } from "./trace";
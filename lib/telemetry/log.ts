@@ -0,0 +1,41 @@
+// lib/telemetry/log.ts
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+function levelFromEnv(): LogLevel {
+  const value = process.env.LOG_LEVEL as LogLevel;
+  return LEVELS.includes(value) ? value : "info";
+}
+
+const MIN_LEVEL = LEVELS.indexOf(levelFromEnv());
+
+// Errors don't survive JSON.stringify; keep what helps debugging, including the cause.
+function serializeError(err: unknown): unknown {
+  if (!(err instanceof Error)) return err;
+  return {
+    name: err.name,
+    message: err.message,
+    code: (err as Error & { code?: unknown }).code,
+    stack: err.stack,
+    cause: err.cause === undefined ? undefined : serializeError(err.cause),
+  };
+}
+
+/**
+ * Write one JSON object per line to stdout (stderr for errors), which log collectors
+ * can parse without a format definition. LOG_LEVEL sets the minimum level (default info).
+ */
+export function log(level: LogLevel, event: string, fields: Record<string, unknown> = {}) {
+  if (LEVELS.indexOf(level) < MIN_LEVEL) return;
+
+  const entry: Record<string, unknown> = { time: new Date().toISOString(), level, event };
+  for (const [key, value] of Object.entries(fields)) {
+    entry[key] = value instanceof Error ? serializeError(value) : value;
+  }
+
+  const line = JSON.stringify(entry);
+  if (level === "error") console.error(line);
+  else console.log(line);
+}
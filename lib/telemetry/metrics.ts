@@ -0,0 +1,137 @@
+// lib/telemetry/metrics.ts
+
+type Labels = Record<string, string>;
+
+const REGISTRY_KEY = Symbol.for("tum_prof.metrics.registry");
+const METRICS_KEY = Symbol.for("tum_prof.metrics.prof_query");
+
+type Metric = {
+  name: string;
+  help: string;
+  type: "counter" | "histogram";
+  render(): string[];
+};
+
+// Next.js may bundle each route with its own copy of this module; the registry and the
+// metrics live on globalThis so /api/metrics renders what the other routes counted.
+const shared = globalThis as typeof globalThis & {
+  [REGISTRY_KEY]?: Metric[];
+  [METRICS_KEY]?: ReturnType<typeof createQueryMetrics>;
+};
+
+const registry: Metric[] = (shared[REGISTRY_KEY] ??= []);
+
+// Label values may contain anything, e.g. error codes or model names.
+function escapeLabel(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+// Series are keyed by their sorted labels, so the order labels are passed in doesn't matter.
+function seriesKey(labels: Labels) {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export function createCounter(name: string, help: string) {
+  const series = new Map<string, { labels: Labels; value: number }>();
+
+  registry.push({
+    name,
+    help,
+    type: "counter",
+    render: () =>
+      Array.from(series.values()).map((s) => `${name}${formatLabels(s.labels)} ${s.value}`),
+  });
+
+  return {
+    inc(labels: Labels = {}, value = 1) {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, value: 0 };
+      entry.value += value;
+      series.set(key, entry);
+    },
+  };
+}
+
+export function createHistogram(name: string, help: string, buckets: number[]) {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  registry.push({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      Array.from(series.values()).flatMap((s) => [
+        ...buckets.map(
+          (le, i) => `${name}_bucket${formatLabels({ ...s.labels, le: String(le) })} ${s.counts[i]}`
+        ),
+        `${name}_bucket${formatLabels({ ...s.labels, le: "+Inf" })} ${s.count}`,
+        `${name}_sum${formatLabels(s.labels)} ${s.sum}`,
+        `${name}_count${formatLabels(s.labels)} ${s.count}`,
+      ]),
+  });
+
+  return {
+    observe(labels: Labels, value: number) {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      // buckets are cumulative: a value counts towards every bucket it fits in
+      buckets.forEach((le, i) => {
+        if (value <= le) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+      series.set(key, entry);
+    },
+  };
+}
+
+/** All metrics in the Prometheus text exposition format (version 0.0.4). */
+export function renderMetrics() {
+  return (
+    registry
+      .flatMap((m) => [`# HELP ${m.name} ${m.help}`, `# TYPE ${m.name} ${m.type}`, ...m.render()])
+      .join("\n") + "\n"
+  );
+}
+
+const SECONDS_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+function createQueryMetrics() {
+  return {
+    requests: createCounter(
+      "prof_query_requests_total",
+      "Questions answered by /api/prof-query and /api/v1, by route, HTTP status and error code"
+    ),
+    requestDuration: createHistogram(
+      "prof_query_request_duration_seconds",
+      "Time to answer a question, including streaming",
+      SECONDS_BUCKETS
+    ),
+    stageDuration: createHistogram(
+      "prof_query_stage_duration_seconds",
+      "Time spent in each pipeline stage",
+      SECONDS_BUCKETS
+    ),
+    tokens: createCounter(
+      "prof_query_llm_tokens_total",
+      "LLM tokens used, by stage and kind (prompt or completion)"
+    ),
+    routedDocs: createHistogram(
+      "prof_query_routed_professors",
+      "Professors a question was routed to in stage 1",
+      [0, 1, 2, 3, 5, 10]
+    ),
+    broadened: createCounter(
+      "prof_query_broadened_total",
+      "Questions whose routed professors had too few chunks, so all professors were searched"
+    ),
+  };
+}
+
+// The metrics of /api/prof-query. Counts are per server process.
+export const metrics = (shared[METRICS_KEY] ??= createQueryMetrics());
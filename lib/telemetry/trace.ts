@@ -0,0 +1,107 @@
+// lib/telemetry/trace.ts
+import { randomUUID } from "crypto";
+import type { TokenUsage } from "../providers/types";
+import { log } from "./log";
+import { metrics } from "./metrics";
+import type { Attributes, StageName, StageRecord, Trace } from "./types";
+
+// Accept ids from a proxy in front of the app, but nothing that could garble a log line.
+const TRACE_ID_RE = /^[A-Za-z0-9._-]{8,64}$/;
+
+/**
+ * A trace for one request. It collects stage timings, token usage and attributes;
+ * `end` writes them as a single `request` log line and feeds the metrics. The id is
+ * taken from an incoming `X-Request-Id` header when it looks like one.
+ */
+export function createTrace(route: string, req?: Request): Trace {
+  const incoming = req?.headers.get("x-request-id");
+  const id = incoming && TRACE_ID_RE.test(incoming) ? incoming : randomUUID();
+  const started = performance.now();
+  const stages: StageRecord[] = [];
+  const attributes: Attributes = {};
+  let ended = false;
+
+  function countUsage(stage: StageName, usage: TokenUsage) {
+    metrics.tokens.inc({ stage, kind: "prompt" }, usage.promptTokens);
+    metrics.tokens.inc({ stage, kind: "completion" }, usage.completionTokens);
+  }
+
+  function record(stage: StageRecord) {
+    stages.push(stage);
+    metrics.stageDuration.observe({ stage: stage.stage, outcome: stage.outcome }, stage.ms / 1000);
+    if (stage.usage) countUsage(stage.stage, stage.usage);
+  }
+
+  return {
+    id,
+    record,
+
+    async stage<T>(
+      stage: StageName,
+      run: () => Promise<T>,
+      stageAttributes?: Attributes | ((value: T) => Attributes)
+    ) {
+      const start = performance.now();
+      try {
+        const value = await run();
+        const ms = Math.round(performance.now() - start);
+        const attributes =
+          typeof stageAttributes === "function" ? stageAttributes(value) : stageAttributes;
+        record({ stage, ms, outcome: "ok", attributes });
+        return value;
+      } catch (err: unknown) {
+        record({ stage, ms: Math.round(performance.now() - start), outcome: "error" });
+        throw err;
+      }
+    },
+
+    usage(stage, usage) {
+      const target = stages.findLast((s) => s.stage === stage);
+      if (!target || !usage) return;
+      target.usage = usage;
+      countUsage(stage, usage);
+    },
+
+    set(more) {
+      Object.assign(attributes, more);
+    },
+
+    end(status) {
+      if (ended) return;
+      ended = true;
+
+      const ms = Math.round(performance.now() - started);
+      metrics.requests.inc({ route, status: String(status), code: String(attributes.code ?? "") });
+      metrics.requestDuration.observe({ route }, ms / 1000);
+
+      const usage = stages.reduce(
+        (sum, s) => ({
+          promptTokens: sum.promptTokens + (s.usage?.promptTokens ?? 0),
+          completionTokens: sum.completionTokens + (s.usage?.completionTokens ?? 0),
+        }),
+        { promptTokens: 0, completionTokens: 0 }
+      );
+
+      const level = status >= 500 ? "error" : attributes.code ? "warn" : "info";
+      log(level, "request", {
+        traceId: id,
+        route,
+        status,
+        ms,
+        usage,
+        ...attributes,
+        stages,
+      });
+    },
+  };
+}
+
+/** A trace that records nothing, for callers outside a request (scripts, evaluation). */
+export const NO_TRACE: Trace = {
+  id: "",
+  stage: (_stage, run) => run(),
+  record: () => {},
+  usage: () => {},
+  set: () => {},
+  end: () => {},
+};
@@ -0,0 +1,46 @@
+// lib/telemetry/types.ts
+import type { TokenUsage } from "../providers/types";
+
+/** The steps of answering a question, in pipeline order. */
+export type StageName =
+  | "rewrite"
+  | "embed"
+  | "route_summaries"
+  | "chunk_query"
+  | "broaden"
+  | "rerank"
+  | "answer"
+  | "recommend";
+
+export type StageOutcome = "ok" | "error";
+
+export type Attributes = Record<string, string | number | boolean | null | undefined>;
+
+export type StageRecord = {
+  stage: StageName;
+  ms: number;
+  outcome: StageOutcome;
+  usage?: TokenUsage;
+  attributes?: Attributes;
+};
+
+export interface Trace {
+  readonly id: string;
+  /**
+   * Time `run` as `stage`; errors are recorded and rethrown. `attributes` can be
+   * computed from the result, e.g. the number of matches found.
+   */
+  stage<T>(
+    stage: StageName,
+    run: () => Promise<T>,
+    attributes?: Attributes | ((value: T) => Attributes)
+  ): Promise<T>;
+  /** Record a stage that was timed by the caller (e.g. a stream consumed elsewhere). */
+  record(record: StageRecord): void;
+  /** Attach token usage to the last recorded `stage`. */
+  usage(stage: StageName, usage: TokenUsage | undefined): void;
+  /** Attributes of the whole request, logged with it; `code` also labels its metric. */
+  set(attributes: Attributes): void;
+  /** Log the request and update the metrics; later calls are ignored. */
+  end(status: number): void;
+}
@@ -0,0 +1,43 @@
+// lib/vector-store/filter.ts
+import type { FieldFilter, ProfileMetadata, VectorFilter } from "./types";
+
+type Scalar = string | number | boolean;
+type FieldValue = Scalar | Scalar[] | undefined;
+
+// Like Pinecone, a list-valued field matches when any of its elements matches.
+function some(value: FieldValue, test: (v: Scalar) => boolean) {
+  if (value === undefined) return false;
+  return Array.isArray(value) ? value.some(test) : test(value);
+}
+
+function matchesField(value: FieldValue, cond: FieldFilter): boolean {
+  if (typeof cond !== "object") return some(value, (v) => v === cond);
+
+  if (cond.$exists !== undefined && (value !== undefined) !== cond.$exists) return false;
+  if (cond.$eq !== undefined && !some(value, (v) => v === cond.$eq)) return false;
+  if (cond.$ne !== undefined && some(value, (v) => v === cond.$ne)) return false;
+  if (cond.$in && !some(value, (v) => cond.$in!.includes(v))) return false;
+  if (cond.$nin && some(value, (v) => cond.$nin!.includes(v))) return false;
+  if (cond.$gt !== undefined && !some(value, (v) => typeof v === "number" && v > cond.$gt!))
+    return false;
+  if (cond.$gte !== undefined && !some(value, (v) => typeof v === "number" && v >= cond.$gte!))
+    return false;
+  if (cond.$lt !== undefined && !some(value, (v) => typeof v === "number" && v < cond.$lt!))
+    return false;
+  if (cond.$lte !== undefined && !some(value, (v) => typeof v === "number" && v <= cond.$lte!))
+    return false;
+  return true;
+}
+
+/** Evaluate a Pinecone-style metadata filter in memory. */
+export function matchesFilter(metadata: ProfileMetadata, filter?: VectorFilter): boolean {
+  if (!filter) return true;
+  const md = metadata as Record<string, FieldValue>;
+
+  return Object.entries(filter).every(([key, cond]) => {
+    if (cond === undefined) return true;
+    if (key === "$and") return (cond as VectorFilter[]).every((f) => matchesFilter(metadata, f));
+    if (key === "$or") return (cond as VectorFilter[]).some((f) => matchesFilter(metadata, f));
+    return matchesField(md[key], cond as FieldFilter);
+  });
+}
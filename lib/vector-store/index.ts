@@ -0,0 +1,28 @@
+// lib/vector-store/index.ts
+import { createLocalStore } from "./local";
+import { createPineconeStore, pineconeConfigFromEnv } from "./pinecone";
+import type { VectorStore } from "./types";
+
+export type * from "./types";
+export { createLocalStore } from "./local";
+export { createPineconeStore, pineconeConfigFromEnv } from "./pinecone";
+export { parseMetadata } from "./metadata";
+
+export const DEFAULT_LOCAL_STORE_PATH = process.env.LOCAL_VECTOR_STORE || "data/vector-store.json";
+
+let store: VectorStore | null = null;
+
+/**
+ * The configured store: `VECTOR_STORE=local` uses the JSON file at LOCAL_VECTOR_STORE,
+ * anything else (the default) uses Pinecone. Created on first use, so a missing
+ * PINECONE_* variable only fails the requests that need it.
+ */
+export function getVectorStore() {
+  if (!store) {
+    store =
+      process.env.VECTOR_STORE === "local"
+        ? createLocalStore(DEFAULT_LOCAL_STORE_PATH)
+        : createPineconeStore(pineconeConfigFromEnv());
+  }
+  return store;
+}
@@ -0,0 +1,107 @@
+// lib/vector-store/local.ts
+import { promises as fs } from "fs";
+import path from "path";
+import { matchesFilter } from "./filter";
+import type { VectorRecord, VectorStore } from "./types";
+
+type StoreFile = { version: 1; records: VectorRecord[] };
+
+const LIST_PAGE_SIZE = 1000;
+
+function cosine(a: number[], b: number[]) {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+/**
+ * Brute-force cosine search over a JSON file. Fine for a few thousand vectors, which
+ * covers every TUM profile; meant for development, tests and offline use. The file is
+ * read again when its mtime changes, so a running server picks up a new ingestion.
+ */
+export function createLocalStore(file: string): VectorStore {
+  let records: Map<string, VectorRecord> | null = null;
+  let loadedMtimeMs: number | null = null; // null: there was no file
+
+  async function mtime() {
+    try {
+      return (await fs.stat(file)).mtimeMs;
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException)?.code !== "ENOENT") throw err;
+      return null;
+    }
+  }
+
+  async function load() {
+    const mtimeMs = await mtime();
+    if (records && mtimeMs === loadedMtimeMs) return records;
+    try {
+      const data = JSON.parse(await fs.readFile(file, "utf8")) as StoreFile;
+      records = new Map(data.records.map((r) => [r.id, r]));
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException)?.code !== "ENOENT") throw err;
+      records = new Map();
+    }
+    loadedMtimeMs = mtimeMs;
+    return records;
+  }
+
+  async function save() {
+    // the records just changed, not whatever another process may have written since
+    const current = records ?? (await load());
+    const data: StoreFile = { version: 1, records: Array.from(current.values()) };
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data));
+    await fs.rename(tmp, file);
+    loadedMtimeMs = await mtime(); // our own write needs no reload
+  }
+
+  return {
+    name: "local",
+
+    async query({ vector, topK, filter }) {
+      const scored = [];
+      for (const r of (await load()).values()) {
+        if (!matchesFilter(r.metadata, filter)) continue;
+        scored.push({ id: r.id, score: cosine(vector, r.values), metadata: r.metadata });
+      }
+      scored.sort((a, b) => b.score - a.score);
+      return { matches: scored.slice(0, topK) };
+    },
+
+    async upsert(batch) {
+      const store = await load();
+      for (const r of batch) store.set(r.id, r);
+      await save();
+    },
+
+    async delete(ids) {
+      const store = await load();
+      for (const id of ids) store.delete(id);
+      await save();
+    },
+
+    async fetch(ids) {
+      const store = await load();
+      return ids.map((id) => store.get(id)).filter((r): r is VectorRecord => !!r);
+    },
+
+    async *listIds() {
+      const ids = Array.from((await load()).keys());
+      for (let i = 0; i < ids.length; i += LIST_PAGE_SIZE) yield ids.slice(i, i + LIST_PAGE_SIZE);
+    },
+
+    async stats() {
+      const store = await load();
+      const first = store.values().next().value;
+      return { dimension: first?.values.length ?? 0, totalCount: store.size };
+    },
+  };
+}
@@ -0,0 +1,49 @@
+// lib/vector-store/metadata.ts
+import type { ProfileMetadata } from "./types";
+
+const KINDS: ProfileMetadata["kind"][] = ["profile_summary", "profile_chunk"];
+
+// Indexes written by the first version of the ingestion script used these field names.
+const LEGACY_FIELDS: Partial<Record<keyof ProfileMetadata, string>> = {
+  professor: "professorName",
+  source_url: "url",
+  chunk_block: "chunkBlock",
+};
+
+function stringField(md: Record<string, unknown>, field: keyof ProfileMetadata) {
+  const legacy = LEGACY_FIELDS[field];
+  const value = md[field] ?? (legacy ? md[legacy] : undefined);
+  return typeof value === "string" ? value : null;
+}
+
+/**
+ * Validate metadata read back from a vector store, which may have been written by an
+ * older ingestion or by hand. Legacy field names are mapped and missing facets
+ * default to empty; returns null when the required fields are missing or mistyped.
+ */
+export function parseMetadata(raw: unknown): ProfileMetadata | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const md = raw as Record<string, unknown>;
+
+  const kind = md.kind as ProfileMetadata["kind"];
+  const docId = stringField(md, "doc_id");
+  const professor = stringField(md, "professor");
+  const text = stringField(md, "text");
+  if (!KINDS.includes(kind) || !docId || !professor || text === null) return null;
+
+  const topics = Array.isArray(md.topics)
+    ? md.topics.filter((t): t is string => typeof t === "string")
+    : [];
+
+  return {
+    kind,
+    doc_id: docId,
+    chunk_block: stringField(md, "chunk_block") ?? "",
+    professor,
+    source_url: stringField(md, "source_url") ?? "",
+    text,
+    school: stringField(md, "school") ?? "",
+    department: stringField(md, "department") ?? "",
+    topics,
+  };
+}
@@ -0,0 +1,96 @@
+// lib/vector-store/pinecone.ts
+import { Pinecone } from "@pinecone-database/pinecone";
+import { parseMetadata } from "./metadata";
+import type { VectorMatch, VectorRecord, VectorStore } from "./types";
+
+const UPSERT_BATCH_SIZE = 100;
+const DELETE_BATCH_SIZE = 1000;
+const FETCH_BATCH_SIZE = 100;
+
+export type PineconeStoreConfig = {
+  apiKey: string;
+  host: string;
+  index: string;
+  namespace?: string;
+};
+
+export function pineconeConfigFromEnv(): PineconeStoreConfig {
+  const apiKey = process.env.PINECONE_API_KEY;
+  const host = process.env.PINECONE_HOST;
+  const index = process.env.PINECONE_INDEX || "tum2prof";
+
+  if (!apiKey) throw new Error("Missing PINECONE_API_KEY");
+  if (!host) throw new Error("Missing PINECONE_HOST");
+
+  return { apiKey, host, index, namespace: process.env.PINECONE_NAMESPACE || "" };
+}
+
+export function createPineconeStore(config: PineconeStoreConfig): VectorStore {
+  const pc = new Pinecone({ apiKey: config.apiKey });
+  const index = pc.index(config.index, config.host).namespace(config.namespace || "");
+
+  // vectors whose metadata doesn't validate are skipped, not passed on half-filled
+  function validMetadata(id: string, raw: unknown) {
+    const metadata = parseMetadata(raw);
+    if (!metadata) console.warn(`Pinecone vector ${id} has invalid metadata; skipping it`);
+    return metadata;
+  }
+
+  return {
+    name: "pinecone",
+
+    async query({ vector, topK, filter }) {
+      const res = await index.query({ vector, topK, filter, includeMetadata: true });
+      const matches: VectorMatch[] = [];
+      for (const m of res.matches || []) {
+        const metadata = validMetadata(m.id, m.metadata);
+        if (metadata) matches.push({ id: m.id, score: m.score ?? 0, metadata });
+      }
+      return { matches };
+    },
+
+    async upsert(records) {
+      for (let i = 0; i < records.length; i += UPSERT_BATCH_SIZE) {
+        await index.upsert(records.slice(i, i + UPSERT_BATCH_SIZE));
+      }
+    },
+
+    async delete(ids) {
+      for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+        await index.deleteMany(ids.slice(i, i + DELETE_BATCH_SIZE));
+      }
+    },
+
+    async fetch(ids) {
+      const records: VectorRecord[] = [];
+      for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+        const res = await index.fetch(ids.slice(i, i + FETCH_BATCH_SIZE));
+        for (const r of Object.values(res.records || {})) {
+          if (!r.values) continue;
+          const metadata = validMetadata(r.id, r.metadata);
+          if (metadata) records.push({ id: r.id, values: r.values, metadata });
+        }
+      }
+      return records;
+    },
+
+    // listing is only supported on serverless indexes
+    async *listIds() {
+      let paginationToken: string | undefined;
+      do {
+        const res = await index.listPaginated({ paginationToken });
+        const ids = (res.vectors || []).map((v) => v.id).filter((id): id is string => !!id);
+        if (ids.length) yield ids;
+        paginationToken = res.pagination?.next;
+      } while (paginationToken);
+    },
+
+    async stats() {
+      const res = await index.describeIndexStats();
+      return {
+        dimension: res.dimension ?? 0,
+        totalCount: res.namespaces?.[config.namespace || ""]?.recordCount ?? 0,
+      };
+    },
+  };
+}
@@ -0,0 +1,76 @@
+// lib/vector-store/types.ts
+
+/**
+ * Metadata stored on every vector in the index. The query route reads exactly these
+ * fields, so ingestion must write exactly these fields; stores validate what they
+ * read back with `parseMetadata`.
+ */
+export type ProfileMetadata = {
+  kind: "profile_summary" | "profile_chunk";
+  doc_id: string;
+  chunk_block: string;
+  professor: string;
+  source_url: string;
+  text: string;
+  // facets, the same on every vector of a professor
+  school: string;
+  department: string;
+  topics: string[];
+};
+
+export type VectorRecord = {
+  id: string;
+  values: number[];
+  metadata: ProfileMetadata;
+};
+
+export type VectorMatch = {
+  id: string;
+  score: number;
+  metadata: ProfileMetadata;
+};
+
+type FilterValue = string | number | boolean;
+
+/** Per-field condition, a subset of Pinecone's metadata filter language. */
+export type FieldFilter =
+  | FilterValue
+  | {
+      $eq?: FilterValue;
+      $ne?: FilterValue;
+      $in?: FilterValue[];
+      $nin?: FilterValue[];
+      $gt?: number;
+      $gte?: number;
+      $lt?: number;
+      $lte?: number;
+      $exists?: boolean;
+    };
+
+/** Field conditions are ANDed; `$and`/`$or` combine nested filters. */
+export type VectorFilter = {
+  $and?: VectorFilter[];
+  $or?: VectorFilter[];
+  [field: string]: FieldFilter | VectorFilter[] | undefined;
+};
+
+export type VectorQuery = {
+  vector: number[];
+  topK: number;
+  filter?: VectorFilter;
+};
+
+export type VectorStoreStats = {
+  dimension: number;
+  totalCount: number;
+};
+
+export interface VectorStore {
+  readonly name: string;
+  query(params: VectorQuery): Promise<{ matches: VectorMatch[] }>;
+  upsert(records: VectorRecord[]): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+  fetch(ids: string[]): Promise<VectorRecord[]>;
+  listIds(): AsyncIterable<string[]>; // pages of ids; used to snapshot a store
+  stats(): Promise<VectorStoreStats>;
+}
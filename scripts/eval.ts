@@ -0,0 +1,86 @@
+// scripts/eval.ts
+//
+// Run the golden set through the query pipeline and write JSON and Markdown reports,
+// compared with the previous run (data/eval/latest.json) unless told otherwise.
+//
+// Usage: npm run eval -- [--golden eval/golden.json] [--out data/eval] [--compare FILE | --no-compare]
+//                        [--no-judge] [--limit N] [--json]
+import { promises as fs } from "fs";
+import path from "path";
+import { loadEnvConfig } from "@next/env";
+
+loadEnvConfig(process.cwd());
+
+type CliArgs = {
+  golden?: string;
+  out: string;
+  compare?: string | false;
+  judge: boolean;
+  limit?: number;
+  json: boolean;
+};
+
+function parseArgs(argv: string[]) {
+  const args: CliArgs = { out: "data/eval", judge: true, json: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--golden") args.golden = argv[++i];
+    else if (arg === "--out") args.out = argv[++i];
+    else if (arg === "--compare") args.compare = argv[++i];
+    else if (arg === "--no-compare") args.compare = false;
+    else if (arg === "--no-judge") args.judge = false;
+    else if (arg === "--json") args.json = true;
+    else if (arg === "--limit") {
+      const value = argv[++i];
+      args.limit = Number(value);
+      if (!Number.isInteger(args.limit) || args.limit < 1) {
+        throw new Error(`--limit must be a positive integer, got "${value}"`);
+      }
+    } else throw new Error(`Unknown argument: ${arg}`);
+  }
+  return args;
+}
+
+async function readReport(file: string) {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+async function main() {
+  const { out, compare, json, ...args } = parseArgs(process.argv.slice(2));
+  // cached embeddings or retrievals would hide the effect of the change being measured
+  process.env.CACHE_BACKEND = "none";
+  // env must be loaded before the clients are created, hence the dynamic import
+  const { runEvaluation, diffReports, formatEvalReport } = await import("../lib/eval");
+
+  const latest = path.join(out, "latest.json");
+  const baseline = compare === false ? null : await readReport(compare ?? latest);
+  if (compare && !baseline) throw new Error(`No report at ${compare}`);
+
+  const report = await runEvaluation({
+    goldenPath: args.golden,
+    judge: args.judge,
+    limit: args.limit,
+    log: (line) => console.log(line),
+  });
+  const diff = baseline ? diffReports(baseline, report) : undefined;
+  const markdown = formatEvalReport(report, diff);
+
+  const stamp = report.startedAt.replace(/[:.]/g, "-");
+  await fs.mkdir(out, { recursive: true });
+  await fs.writeFile(path.join(out, `${stamp}.json`), JSON.stringify(report, null, 2));
+  await fs.writeFile(path.join(out, `${stamp}.md`), markdown);
+  await fs.writeFile(latest, JSON.stringify(report, null, 2));
+
+  if (json) console.log(JSON.stringify({ report, diff }, null, 2));
+  else console.log(`\n${markdown}\nReports written to ${path.join(out, stamp)}.{json,md}`);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
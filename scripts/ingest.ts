@@ -0,0 +1,36 @@
+// scripts/ingest.ts
+//
+// Usage: npm run ingest -- [--dir data/profiles] [--dry-run] [--full] [--limit N] [--json]
+import { loadEnvConfig } from "@next/env";
+
+loadEnvConfig(process.cwd());
+
+type CliArgs = { dir?: string; dryRun: boolean; full: boolean; limit?: number; json: boolean };
+
+function parseArgs(argv: string[]) {
+  const args: CliArgs = { dryRun: false, full: false, json: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--dir") args.dir = argv[++i];
+    else if (arg === "--dry-run") args.dryRun = true;
+    else if (arg === "--full") args.full = true;
+    else if (arg === "--json") args.json = true;
+    else if (arg === "--limit") args.limit = Number(argv[++i]);
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  return args;
+}
+
+async function main() {
+  const { json, ...args } = parseArgs(process.argv.slice(2));
+  // env must be loaded before the clients are created, hence the dynamic import
+  const { runIngestion, formatIngestReport } = await import("../lib/ingest");
+
+  const report = await runIngestion({ ...args, log: (line) => console.log(line) });
+  console.log(json ? JSON.stringify(report, null, 2) : `\n${formatIngestReport(report)}`);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
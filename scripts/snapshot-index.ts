@@ -0,0 +1,36 @@
+// scripts/snapshot-index.ts
+//
+// Copy every vector from the Pinecone index into a local JSON store, so the assistant
+// can run offline with VECTOR_STORE=local.
+//
+// Usage: npm run snapshot -- [--out data/vector-store.json]
+import { loadEnvConfig } from "@next/env";
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const outIdx = argv.indexOf("--out");
+
+  const { createLocalStore, createPineconeStore, pineconeConfigFromEnv, DEFAULT_LOCAL_STORE_PATH } =
+    await import("../lib/vector-store");
+  const out = outIdx >= 0 ? argv[outIdx + 1] : DEFAULT_LOCAL_STORE_PATH;
+
+  const source = createPineconeStore(pineconeConfigFromEnv());
+  const target = createLocalStore(out);
+
+  // collect first: the local store rewrites its whole file on every upsert
+  const records = [];
+  for await (const ids of source.listIds()) {
+    records.push(...(await source.fetch(ids)));
+    console.log(`fetched ${records.length} vectors`);
+  }
+  await target.upsert(records);
+
+  console.log(`Wrote ${records.length} vectors to ${out}`);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});